@@ -5,7 +5,8 @@ class ContextMenuHandler {
     constructor(commandHandler, treeView) {
         this.commandHandler = commandHandler;
         this.treeView = treeView;
-        this.contextAction = '';
+        // copied or cut items: { command: 'copy' | 'move', items: [{ path, isFolder }] }
+        this.contextAction = null;
         this.contextActionTime = 0;
     }
 
@@ -17,6 +18,19 @@ class ContextMenuHandler {
         const menu = this.treeView.contextMenu;
         menu.innerHTML = '';
 
+        if (node.isTrash || node.trash) {
+            this.addTrashMenuItems(menu, node);
+            this.showMenuAt(menu, x, y);
+            return;
+        }
+
+        const selection = this.treeView.getSelectedNodes();
+        if (selection.length > 1 && this.treeView.selectedNodes.has(node)) {
+            this.addSelectionMenuItems(menu, selection, node);
+            this.showMenuAt(menu, x, y);
+            return;
+        }
+
         if (!node.isFolder) {
             this.addMenuItem(menu, 'Open', () => {
                 this.commandHandler.openFile( node.fullPath );
@@ -24,31 +38,39 @@ class ContextMenuHandler {
             this.addMenuItem(menu, 'Open as text', () => {
                 this.commandHandler.messageManager.sendMessage('openText', { path: node.fullPath });
             });
+            if (node.name.endsWith('.snippet')) {
+                this.addMenuItem(menu, 'Restore Previous Version', () => {
+                    this.commandHandler.messageManager.sendMessage('restorePreviousVersion', { path: node.fullPath });
+                }, node.readonly);
+            }
             this.addSeparator(menu);
         }
 
         this.addMenuItem(menu, 'Copy', () => {
-            this.contextAction = "copy:" + (node.isFolder ? "folder:" : "file:") + node.fullPath;
-            this.contextActionTime = Date.now();
+            this.setContextAction('copy', [node]);
         }, node.isTopLevel);
 
         this.addMenuItem(menu, 'Cut', () => {
-            this.contextActionTime = Date.now();
-            this.contextAction = "move:" + (node.isFolder ? "folder:" : "file:") + node.fullPath;
-        }, node.isTopLevel);
+            this.setContextAction('move', [node]);
+        }, node.isTopLevel || node.readonly);
 
-        this.addMenuItem(menu, 'Paste', () => {
-            if (this.contextAction !== "") {
-                const tmp = this.contextAction.split(":");
-                if (tmp.length === 3) {
-                    this.commandHandler.handlePasteCommand(
-                        tmp[0], tmp[2], tmp[1] === "folder",
-                        node.fullPath, node.isFolder);
-                }
-            }
-            this.contextAction = "";
-            this.contextActionTime = 0;
-        }, (Date.now() - this.contextActionTime > 60000));
+        this.addPasteMenuItem(menu, node);
+
+        this.addSeparator(menu);
+        if (node.isFolder) {
+            this.addMenuItem(menu, 'Check Staleness', () => {
+                this.commandHandler.messageManager.sendMessage('checkStaleness', { path: node.fullPath });
+            });
+            this.addMenuItem(menu, 'Import CodeTour...', () => {
+                this.commandHandler.messageManager.sendMessage('importCodeTour', { path: node.fullPath });
+            }, node.readonly);
+            this.addMenuItem(menu, 'Export as CodeTour...', () => {
+                this.commandHandler.messageManager.sendMessage('exportCodeTour', { path: node.fullPath });
+            });
+        }
+        this.addMenuItem(menu, 'Export to Markdown', () => {
+            this.commandHandler.messageManager.sendMessage('exportMarkdown', { path: node.fullPath, isFolder: node.isFolder });
+        });
 
         this.addSeparator(menu);
         this.addMenuItem(menu, 'Open Config', () => {
@@ -60,17 +82,78 @@ class ContextMenuHandler {
             const span = li.querySelector('.sne-editable');
             span.contentEditable = true;
             span.focus();
-        }, node.isTopLevel);
+        }, node.isTopLevel || node.readonly);
 
         this.addMenuItem(menu, 'Delete', () => {
             this.commandHandler.removeNode(node);
-        }, node.isTopLevel);
+        }, node.isTopLevel || node.readonly);
 
+        this.showMenuAt(menu, x, y);
+    }
+
+    showMenuAt(menu, x, y) {
         menu.style.left = `${x}px`;
         menu.style.top = `${y}px`;
         menu.style.display = 'block';
     }
 
+    // Menu for a multi-selection: bulk copy, cut and delete
+    addSelectionMenuItems(menu, selection, node) {
+        const items = this.commandHandler.toBatchItems(selection);
+        const label = `${items.length} Items`;
+        const readonly = selection.some(selected => selected.readonly);
+
+        this.addMenuItem(menu, `Copy ${label}`, () => {
+            this.setContextAction('copy', selection);
+        }, items.length === 0);
+
+        this.addMenuItem(menu, `Cut ${label}`, () => {
+            this.setContextAction('move', selection);
+        }, items.length === 0 || readonly);
+
+        this.addPasteMenuItem(menu, node);
+
+        this.addSeparator(menu);
+        this.addMenuItem(menu, `Delete ${label}`, () => {
+            this.commandHandler.removeNodes(selection);
+        }, items.length === 0 || readonly);
+    }
+
+    setContextAction(command, nodes) {
+        this.contextAction = { command, items: this.commandHandler.toBatchItems(nodes) };
+        this.contextActionTime = Date.now();
+    }
+
+    addPasteMenuItem(menu, node) {
+        this.addMenuItem(menu, 'Paste', () => {
+            const action = this.contextAction;
+            if (action && action.items.length === 1) {
+                this.commandHandler.handlePasteCommand(
+                    action.command, action.items[0].path, action.items[0].isFolder,
+                    node.fullPath, node.isFolder);
+            } else if (action && action.items.length > 1) {
+                this.commandHandler.handleBatchPaste(action.command, action.items, node.fullPath, node.isFolder);
+            }
+            this.contextAction = null;
+            this.contextActionTime = 0;
+        }, (Date.now() - this.contextActionTime > 60000) || node.readonly);
+    }
+
+    addTrashMenuItems(menu, node) {
+        if (node.isTrash) {
+            this.addMenuItem(menu, 'Empty Trash', () => {
+                this.commandHandler.emptyTrash();
+            });
+            return;
+        }
+        this.addMenuItem(menu, 'Restore', () => {
+            this.commandHandler.restoreFromTrash(node);
+        });
+        this.addMenuItem(menu, 'Delete Permanently', () => {
+            this.commandHandler.deleteFromTrash(node);
+        });
+    }
+
     addMenuItem(menu, label, handler, disabled = false) {
         const div = document.createElement('div');
         div.textContent = label;
@@ -5,36 +5,98 @@ class DragAndDropHandler {
     constructor(commandHandler, treeView) {
         this.commandHandler = commandHandler;
         this.treeView = treeView;
+        // Node being dragged (drag data is not readable before the drop)
+        this.draggedNode = null;
     }
 
     setupDragAndDrop(nodeItem, wrapper) {
         wrapper.ondragstart = (e) => {
-            if (nodeItem.isFolder && nodeItem.isTopLevel) {
+            if ((nodeItem.isFolder && nodeItem.isTopLevel) || nodeItem.readonly) {
                 e.preventDefault();
                 return;
             }
+            // dragging a node of a multi-selection drags the whole selection
+            const selection = this.treeView.getSelectedNodes();
+            if (selection.length > 1 && this.treeView.selectedNodes.has(nodeItem)) {
+                if (selection.some(selected => selected.readonly)) {
+                    e.preventDefault();
+                    return;
+                }
+                this.draggedNode = null;
+                e.dataTransfer.setData('text/plain',
+                    'items:' + JSON.stringify(this.commandHandler.toBatchItems(selection)));
+                return;
+            }
+            this.draggedNode = nodeItem;
             e.dataTransfer.setData('text/plain', 
                 (nodeItem.isFolder ? "folder:" : "file:") + nodeItem.fullPath);
         };
 
+        wrapper.ondragend = () => {
+            this.draggedNode = null;
+        };
+
         wrapper.ondragover = (e) => {
             e.preventDefault();
+            if (this.isReorderTarget(nodeItem)) {
+                const before = this.isUpperHalf(e, wrapper);
+                wrapper.classList.toggle('sne-drop-before', before);
+                wrapper.classList.toggle('sne-drop-after', !before);
+                return;
+            }
             wrapper.style.backgroundColor = 'var(--vscode-list-hoverBackground)';
         };
 
         wrapper.ondragleave = () => {
             wrapper.style.backgroundColor = '';
+            wrapper.classList.remove('sne-drop-before', 'sne-drop-after');
         };
 
         wrapper.ondrop = (e) => {
             e.preventDefault();
             wrapper.style.backgroundColor = '';
+            wrapper.classList.remove('sne-drop-before', 'sne-drop-after');
+            if (this.isReorderTarget(nodeItem)) {
+                this.commandHandler.reorderNode(this.draggedNode, nodeItem,
+                    this.isUpperHalf(e, wrapper) ? 'before' : 'after');
+                this.draggedNode = null;
+                return;
+            }
+            this.draggedNode = null;
             this.handleDrop(e, nodeItem);
         };
     }
 
+    // A snippet dropped onto another snippet of the same folder changes the order
+    isReorderTarget(targetNodeItem) {
+        const source = this.draggedNode;
+        if (!source || source === targetNodeItem || source.isFolder || targetNodeItem.isFolder ||
+            source.trash || targetNodeItem.trash || targetNodeItem.readonly) {
+            return false;
+        }
+        const parentOf = (fullPath) => fullPath.substring(0, fullPath.lastIndexOf('/'));
+        return parentOf(source.fullPath) === parentOf(targetNodeItem.fullPath);
+    }
+
+    isUpperHalf(e, wrapper) {
+        const rect = wrapper.getBoundingClientRect();
+        return e.clientY < rect.top + rect.height / 2;
+    }
+
     async handleDrop(e, targetNodeItem) {
-        const dragData = e.dataTransfer.getData('text/plain').split(":");
+        if (targetNodeItem.isTrash || targetNodeItem.trash) {
+            return; // the Trash only takes deleted items
+        }
+        if (targetNodeItem.readonly) {
+            return; // nothing can be added to a read-only mount point
+        }
+        const data = e.dataTransfer.getData('text/plain');
+        if (data.startsWith('items:')) {
+            this.commandHandler.handleBatchPaste('move', JSON.parse(data.substring('items:'.length)),
+                targetNodeItem.fullPath, targetNodeItem.isFolder);
+            return;
+        }
+        const dragData = data.split(":");
         const sourcePath = dragData[1];
         const isMovingFolder = dragData[0] === "folder";
         this.commandHandler.handlePasteCommand('move', sourcePath, isMovingFolder,
@@ -8,6 +8,13 @@ class NodeItem {
         this.fullPath = node.fullPath;
         this.isFolder = node.isFolder;
         this.isTopLevel = isTopLevel;
+        // Set on the node of a read-only mount point; its entries use the readonly getter
+        this.readonlyMount = !!node.readonly;
+        // Workspace folder whose .snippetor/config.json adds this mount point
+        this.origin = node.origin || null;
+        // Trash node itself / metadata of a trashed entry ({originalPath, isFolder, deletedAt})
+        this.isTrash = !!node.isTrash;
+        this.trash = node.trash || null;
         this.init(parentUl);
     }
 
@@ -19,7 +26,20 @@ class NodeItem {
 
         const wrapper = document.createElement('div');
         wrapper.className = this.isFolder ? 'sne-folder' : 'sne-file';
-        wrapper.draggable = !this.isTopLevel;
+        wrapper.draggable = !this.isTopLevel && !this.trash && !this.readonly;
+        if (this.readonlyMount || this.origin) {
+            wrapper.title = [
+                this.readonlyMount ? 'Read-only mount point' : '',
+                this.origin ? 'From .snippetor/config.json of "' + this.origin + '"' : ''
+            ].filter(line => line).join('\n');
+        }
+        if (this.isTrash) {
+            wrapper.classList.add('sne-trash-root');
+        } else if (this.trash) {
+            wrapper.classList.add('sne-trash-item');
+            wrapper.title = (this.trash.isFolder ? 'Folder deleted from ' : 'Deleted from ') +
+                this.trash.originalPath + ' on ' + new Date(this.trash.deletedAt).toLocaleString();
+        }
 
         const icon = document.createElement('span');
         icon.className = 'sne-icon';
@@ -40,6 +60,12 @@ class NodeItem {
 
         wrapper.appendChild(icon);
         wrapper.appendChild(span);
+        if (this.origin) {
+            const origin = document.createElement('span');
+            origin.className = 'sne-origin';
+            origin.textContent = this.origin;
+            wrapper.appendChild(origin);
+        }
         li.appendChild(wrapper);
         parentUl.appendChild(li);
 
@@ -48,6 +74,15 @@ class NodeItem {
         this.treeView.nodeMap.set(this.fullPath, this);
     }
 
+    // Entry of a read-only mount point: it cannot be renamed, moved, deleted or pasted into
+    get readonly() {
+        if (this.isTopLevel || this.trash || this.isTrash) {
+            return this.readonlyMount;
+        }
+        const mount = this.treeView.nodeMap.get(this.fullPath.match(/^\/?[^/]+/)[0]);
+        return !!(mount && mount.readonlyMount);
+    }
+
     initItemRename(wrapper, span) {
         span.onkeydown = (e) => {
             if (e.key === 'Enter') {
@@ -106,12 +141,20 @@ class NodeItem {
     initSingleClickHandlers(li, wrapper, span) {
         wrapper.oncontextmenu = (e) => {
             e.preventDefault();
-            this.treeView.selectItem(this);
+            if (!this.treeView.selectedNodes.has(this)) {
+                this.treeView.selectItem(this);
+            }
             this.treeView.contextMenuHandler.showContextMenu(
                 e.clientX, e.clientY, this, li);
         };
 
         wrapper.onclick = (e) => {
+            if (e.ctrlKey || e.metaKey || e.shiftKey) {
+                // extend the selection without opening folders
+                e.stopPropagation();
+                this.treeView.selectItem(this, e.shiftKey ? 'range' : 'toggle');
+                return;
+            }
             this.treeView.selectItem(this);
 
             if (this.isFolder) {
@@ -139,6 +182,9 @@ class NodeItem {
 
         span.ondblclick = () => {
             this.treeView.selectItem(this);
+            if (this.trash) {
+                return; // restore it first
+            }
             if (!this.isFolder) {
                 this.treeView.commandHandler.openFile( this.fullPath );
             } else {
@@ -0,0 +1,132 @@
+// ============================================================================
+// SearchHandler - Search box above the tree, ranked results replace the tree
+// ============================================================================
+class SearchHandler {
+    constructor(commandHandler, treeView) {
+        this.commandHandler = commandHandler;
+        this.treeView = treeView;
+        this.input = document.getElementById('sne-search-input');
+        this.results = document.getElementById('sne-search-results');
+        this.debounceTimer = null;
+        // Only the answer to the latest query is rendered
+        this.querySeq = 0;
+
+        if (this.input && this.results) {
+            this.init();
+        }
+    }
+
+    init() {
+        this.input.addEventListener('input', () => {
+            clearTimeout(this.debounceTimer);
+            this.debounceTimer = setTimeout(() => this.search(this.input.value), 200);
+        });
+
+        this.input.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') {
+                this.clear();
+            } else if (e.key === 'Enter') {
+                const first = this.results.querySelector('.sne-search-result');
+                if (first) {
+                    first.click();
+                }
+            }
+        });
+    }
+
+    clear() {
+        clearTimeout(this.debounceTimer);
+        this.querySeq++;
+        this.input.value = '';
+        this.showResults(false);
+    }
+
+    async search(query) {
+        const seq = ++this.querySeq;
+        if (query.trim() === '') {
+            this.showResults(false);
+            return;
+        }
+
+        try {
+            const results = await this.commandHandler.search(query);
+            if (seq === this.querySeq) {
+                this.renderResults(results);
+            }
+        } catch (err) {
+            this.commandHandler.dialogManager.showErrorDialog(err);
+        }
+    }
+
+    showResults(visible) {
+        this.results.style.display = visible ? '' : 'none';
+        this.treeView.root.style.display = visible ? 'none' : '';
+        if (!visible) {
+            this.results.innerHTML = '';
+        }
+    }
+
+    renderResults(results) {
+        this.results.innerHTML = '';
+        this.showResults(true);
+
+        if (results.length === 0) {
+            const empty = document.createElement('li');
+            empty.className = 'sne-search-empty';
+            empty.textContent = 'No snippets found';
+            this.results.appendChild(empty);
+            return;
+        }
+
+        results.forEach(result => {
+            const li = document.createElement('li');
+            li.className = 'sne-search-result';
+            li.title = result.path;
+
+            const title = document.createElement('div');
+            title.className = 'sne-search-title';
+            this.appendHighlighted(title, result.title, result.titleHighlights);
+            if (result.itemIndex !== undefined && result.itemIndex !== null) {
+                const step = document.createElement('span');
+                step.className = 'sne-search-step';
+                step.textContent = `Step ${result.itemIndex + 1}`;
+                title.appendChild(step);
+            }
+
+            const path = document.createElement('div');
+            path.className = 'sne-search-path';
+            path.textContent = result.path;
+
+            li.appendChild(title);
+            li.appendChild(path);
+            if (result.field !== 'title') {
+                const excerpt = document.createElement('div');
+                excerpt.className = 'sne-search-excerpt';
+                this.appendHighlighted(excerpt, result.excerpt, result.highlights);
+                li.appendChild(excerpt);
+            }
+
+            li.onclick = () => {
+                this.commandHandler.openSearchResult(result.path, result.itemUid);
+            };
+            this.results.appendChild(li);
+        });
+    }
+
+    // Build text nodes and <mark> elements (never innerHTML: notes are user content)
+    appendHighlighted(element, text, highlights) {
+        let pos = 0;
+        (highlights || []).forEach(([start, end]) => {
+            if (start > pos) {
+                element.appendChild(document.createTextNode(text.substring(pos, start)));
+            }
+            const mark = document.createElement('mark');
+            mark.textContent = text.substring(start, end);
+            element.appendChild(mark);
+            pos = end;
+        });
+        if (pos < text.length) {
+            element.appendChild(document.createTextNode(text.substring(pos)));
+        }
+    }
+}
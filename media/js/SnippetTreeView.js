@@ -3,7 +3,9 @@ class SnippetTreeView {
         this.root = document.getElementById(containerId);
         this.contextMenu = document.getElementById('sne-context-menu');
         this.nodeMap = new Map();
+        // last clicked node (anchor of Shift-click ranges) and all selected nodes
         this.selectedNode = null;
+        this.selectedNodes = new Set();
         this.expandedPaths = new Set();
 
         // Store messageManager but don't use it directly
@@ -15,6 +17,8 @@ class SnippetTreeView {
         // Initialize other handlers (they receive commandHandler)
         this.dragAndDropHandler = new DragAndDropHandler(this.commandHandler, this);
         this.contextMenuHandler = new ContextMenuHandler(this.commandHandler, this);
+        this.searchHandler = new SearchHandler(this.commandHandler, this);
+        this.tagFilterHandler = new TagFilterHandler(this.commandHandler, this);
 
         // Register message handlers via MessageManager
         this.setupMessageHandlers();
@@ -34,6 +38,22 @@ class SnippetTreeView {
         window.addEventListener('click', () => {
             this.hideContextMenu();
         }, true);
+
+        // Undo/redo of file operations (text fields keep their own undo)
+        document.addEventListener('keydown', (e) => {
+            const target = e.target;
+            if (!(e.ctrlKey || e.metaKey) || target.tagName === 'INPUT' || target.isContentEditable) {
+                return;
+            }
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                this.commandHandler.undo();
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                e.preventDefault();
+                this.commandHandler.redo();
+            }
+        });
     }
 
     setupMessageHandlers() {
@@ -57,23 +77,111 @@ class SnippetTreeView {
         });
 
         this.messageManager.onMessage('addNode', (message) => {
-            const { name, fullPath, isFolder, parentPath } = message.data;
-            if (this.expandedPaths.has(parentPath)) {
-                const parentNode = this.nodeMap.get(parentPath);
-                if (parentNode && parentNode.isFolder) {
-                    const ul = parentNode.getUl();
-                    if (ul && !this.nodeMap.has(fullPath)) {
-                        this.renderNode({
-                            name: name,
-                            fullPath: fullPath,
-                            isFolder: isFolder
-                        }, ul, false);
+            this.addNodeUI(message.data);
+        });
+
+        // Changes made outside VS Code (Git, Dropbox, ...)
+        this.messageManager.onMessage('removeNode', (message) => {
+            this.removeNodeUI(message.data.fullPath);
+        });
+
+        this.messageManager.onMessage('trashChanged', () => {
+            this.reloadTrash();
+        });
+
+        this.messageManager.onMessage('renameNode', (message) => {
+            const { oldPath, ...node } = message.data;
+            const wasSelected = this.selectedNode && this.selectedNode.fullPath === oldPath;
+            this.removeNodeUI(oldPath);
+            this.addNodeUI(node);
+            const newNode = this.nodeMap.get(node.fullPath);
+            if (wasSelected && newNode) {
+                this.selectItem(newNode);
+            }
+        });
+    }
+
+    addNodeUI({ name, fullPath, isFolder, parentPath }) {
+        if (this.expandedPaths.has(parentPath)) {
+            const parentNode = this.nodeMap.get(parentPath);
+            if (parentNode && parentNode.isFolder) {
+                const ul = parentNode.getUl();
+                if (ul && !this.nodeMap.has(fullPath)) {
+                    this.renderNode({
+                        name: name,
+                        fullPath: fullPath,
+                        isFolder: isFolder
+                    }, ul, false);
+                }
+            }
+        }
+    }
+
+    // Reload the children of the Trash node when they were loaded before
+    reloadTrash() {
+        const trashNode = Array.from(this.nodeMap.values()).find(nodeItem => nodeItem.isTrash);
+        const ul = trashNode && trashNode.getUl();
+        if (!ul) {
+            return;
+        }
+        this.commandHandler.expand(trashNode.fullPath)
+            .then((data) => {
+                for (const path of Array.from(this.nodeMap.keys())) {
+                    if (path.startsWith(trashNode.fullPath + '/')) {
+                        this.nodeMap.delete(path);
                     }
                 }
+                ul.innerHTML = '';
+                this.renderTree(data, trashNode.fullPath);
+            })
+            .catch(err => {
+                this.commandHandler.dialogManager.showErrorDialog(err);
+            });
+    }
+
+    // Put the loaded children of a folder in the order sent by the extension
+    applyChildOrder(parentPath, children) {
+        const parentNode = this.nodeMap.get(parentPath);
+        const ul = parentNode && parentNode.getUl();
+        if (!ul) {
+            return;
+        }
+        children.forEach(child => {
+            const nodeItem = this.nodeMap.get(child.fullPath);
+            if (nodeItem && nodeItem.li.parentNode === ul) {
+                ul.appendChild(nodeItem.li);
             }
         });
     }
 
+    removeNodeUI(fullPath) {
+        const node = this.nodeMap.get(fullPath);
+        if (!node) {
+            return;
+        }
+        for (const path of Array.from(this.nodeMap.keys())) {
+            if (path.startsWith(fullPath + '/')) {
+                this.nodeMap.delete(path);
+            }
+        }
+        if (this.expandedPaths.has(fullPath) ||
+            Array.from(this.expandedPaths).some(p => p.startsWith(fullPath + '/'))) {
+            this.expandedPaths = new Set(Array.from(this.expandedPaths)
+                .filter(p => p !== fullPath && !p.startsWith(fullPath + '/')));
+            this.saveTreeState();
+        }
+        if (this.selectedNode === node) {
+            this.selectedNode = null;
+        }
+        this.selectedNodes.forEach(selected => {
+            if (selected === node || selected.fullPath.startsWith(fullPath + '/')) {
+                this.selectedNodes.delete(selected);
+            }
+        });
+        node.destroy();
+        this.nodeMap.delete(fullPath);
+    }
+
     _validateRename(parentPath, newName) {
         if (!newName || newName.trim() === '') {
             return 'Name cannot be empty';
@@ -174,6 +282,11 @@ class SnippetTreeView {
             return;
         }
 
+        if (selected.isTrash || selected.trash) {
+            this.commandHandler.dialogManager.showErrorDialog("Cannot create items in the Trash.");
+            return;
+        }
+
         const selectedPath = selected.fullPath;
         const parentPath = selected.isFolder ? selectedPath : selectedPath.substring(0, selectedPath.lastIndexOf('/'));
 
@@ -351,14 +464,78 @@ class SnippetTreeView {
         this.contextMenuHandler.showContextMenu(x, y, node, li);
     }
 
-    selectItem(nodeItem) {
-        if (this.selectedNode) {
-            this.selectedNode.toggleSelect(false);
+    // mode: 'single' replaces the selection, 'toggle' (Ctrl/Cmd-click) adds or removes the node,
+    // 'range' (Shift-click) selects the visible nodes between the last clicked node and this one
+    selectItem(nodeItem, mode = 'single') {
+        const multi = mode !== 'single' && this.selectedNode && !nodeItem.isTrash && !nodeItem.trash;
+
+        if (multi && mode === 'range') {
+            const visible = this.getVisibleNodes().filter(n => !n.isTrash && !n.trash);
+            const from = visible.indexOf(this.selectedNode);
+            const to = visible.indexOf(nodeItem);
+            if (from >= 0 && to >= 0) {
+                this.clearSelection();
+                visible.slice(Math.min(from, to), Math.max(from, to) + 1).forEach(n => this.addToSelection(n));
+                return; // the anchor stays for the next Shift-click
+            }
         }
-        nodeItem.toggleSelect(true);
+
+        if (multi && mode === 'toggle') {
+            if (this.selectedNodes.has(nodeItem)) {
+                nodeItem.toggleSelect(false);
+                this.selectedNodes.delete(nodeItem);
+            } else {
+                this.addToSelection(nodeItem);
+            }
+            this.selectedNode = nodeItem;
+            return;
+        }
+
+        this.clearSelection();
+        this.addToSelection(nodeItem);
         this.selectedNode = nodeItem;
     }
 
+    addToSelection(nodeItem) {
+        nodeItem.toggleSelect(true);
+        this.selectedNodes.add(nodeItem);
+    }
+
+    clearSelection() {
+        this.selectedNodes.forEach(n => n.toggleSelect(false));
+        this.selectedNodes.clear();
+    }
+
+    // Selected nodes without the ones inside a selected folder, in tree order
+    getSelectedNodes() {
+        const nodes = this.getVisibleNodes().filter(n => this.selectedNodes.has(n));
+        return nodes.filter(n => !nodes.some(other => other.isFolder && n.fullPath.startsWith(other.fullPath + '/')));
+    }
+
+    // Nodes currently shown (not inside a collapsed folder or hidden by the tag filter), in tree order
+    getVisibleNodes() {
+        const byLi = new Map(Array.from(this.nodeMap.values(), n => [n.li, n]));
+        return Array.from(this.root.querySelectorAll('li'))
+            .filter(li => li.offsetParent !== null)
+            .map(li => byLi.get(li))
+            .filter(n => n);
+    }
+
+    // Update the tree with the per-item results of a batch move, copy or remove
+    applyBatchResults(command, results, targetPath) {
+        results.filter(result => result.success).forEach(result => {
+            const name = result.path.split('/').pop();
+            if (command !== 'copy') {
+                this.removeNodeUI(result.path);
+            }
+            if (command !== 'remove') {
+                const fullPath = targetPath + '/' + name;
+                this.removeNodeUI(fullPath); // replaced
+                this.addNodeUI({ name, fullPath, isFolder: result.isFolder, parentPath: targetPath });
+            }
+        });
+    }
+
     moveTreeNodeUI(sourcePath, targetPath) {
         const sourceNode = this.nodeMap.get(sourcePath);
         if (!sourceNode) {
@@ -464,6 +641,11 @@ class SnippetTreeView {
     findInsertionPosition(node, parentUl, excludeLi = null) {
         // Get all existing children as an array, excluding the node we're inserting
         const children = Array.from(parentUl.children).filter(li => li !== excludeLi);
+
+        // The Trash node stays last, trashed entries keep the order of the extension (newest first)
+        if (node.isTrash || node.trash) {
+            return null;
+        }
         
         // Find the position where this node should be inserted
         // Sort order: folders first, then files, both alphabetically
@@ -472,6 +654,10 @@ class SnippetTreeView {
             const childWrapper = childLi.querySelector('.sne-folder, .sne-file');
             if (!childWrapper) continue;
             
+            if (childWrapper.classList.contains('sne-trash-root')) {
+                return childLi;
+            }
+
             const childName = childWrapper.querySelector('.sne-editable')?.textContent || '';
             const childIsFolder = childWrapper.classList.contains('sne-folder');
             
@@ -493,11 +679,17 @@ class SnippetTreeView {
         return null;
     }
 
-    renderNode(node, parentUl, isTopLevel = false) {
+    renderNode(node, parentUl, isTopLevel = false, keepOrder = false) {
         // Create the node item (it will append itself to parentUl)
         const item = new NodeItem(this, node, parentUl, isTopLevel);
         this.nodeMap.set(node.fullPath, item);
+        this.tagFilterHandler.applyToNode(item);
         
+        // Children loaded from the extension come in folder order (which may be manual)
+        if (keepOrder) {
+            return;
+        }
+
         // Find the correct insertion position (excluding the node we just created)
         const insertBefore = this.findInsertionPosition(node, parentUl, item.li);
         
@@ -512,11 +704,12 @@ class SnippetTreeView {
     renderTree(data, parentPath = null) {
         const parentNode = parentPath ? this.nodeMap.get(parentPath) : null;
         const ul = parentNode?.getOrCreateUl() || this.root;
-        data.forEach(node => this.renderNode(node, ul, parentPath === null));
+        data.forEach(node => this.renderNode(node, ul, parentPath === null, true));
     }
 
     reset() {
         this.root.innerHTML = '';
         this.nodeMap.clear();
+        this.selectedNodes.clear();
     }
 }
@@ -0,0 +1,100 @@
+// ============================================================================
+// TagFilterHandler - Tag chips above the tree, hides snippets without a selected tag
+// ============================================================================
+class TagFilterHandler {
+    constructor(commandHandler, treeView) {
+        this.commandHandler = commandHandler;
+        this.treeView = treeView;
+        this.bar = document.getElementById('sne-tag-bar');
+        // mapped snippet path -> tags
+        this.snippetTags = {};
+        this.selected = new Set();
+
+        if (this.bar) {
+            this.treeView.messageManager.onMessage('tagsChanged', () => this.load());
+            this.treeView.messageManager.onMessage('refresh', () => this.load());
+            this.load();
+        }
+    }
+
+    async load() {
+        try {
+            this.snippetTags = await this.commandHandler.getTags() || {};
+        } catch (err) {
+            this.snippetTags = {};
+        }
+
+        // forget selected tags nobody uses any more
+        const allTags = this.allTags();
+        this.selected.forEach(tag => {
+            if (!allTags.includes(tag)) {
+                this.selected.delete(tag);
+            }
+        });
+
+        this.render(allTags);
+        this.apply();
+    }
+
+    allTags() {
+        const tags = new Set();
+        Object.values(this.snippetTags).forEach(list => list.forEach(tag => tags.add(tag)));
+        return Array.from(tags).sort((a, b) => a.localeCompare(b));
+    }
+
+    render(allTags) {
+        this.bar.innerHTML = '';
+        this.bar.style.display = allTags.length > 0 ? '' : 'none';
+
+        allTags.forEach(tag => {
+            const chip = document.createElement('span');
+            chip.className = 'sne-tag-chip' + (this.selected.has(tag) ? ' sne-tag-selected' : '');
+            chip.textContent = tag;
+            chip.title = this.selected.has(tag) ? 'Remove from filter' : 'Show only snippets tagged ' + tag;
+            chip.onclick = () => this.toggle(tag);
+            this.bar.appendChild(chip);
+        });
+
+        if (this.selected.size > 0) {
+            const clear = document.createElement('span');
+            clear.className = 'sne-tag-clear';
+            clear.textContent = 'Clear';
+            clear.onclick = () => {
+                this.selected.clear();
+                this.render(allTags);
+                this.apply();
+            };
+            this.bar.appendChild(clear);
+        }
+    }
+
+    toggle(tag) {
+        if (this.selected.has(tag)) {
+            this.selected.delete(tag);
+        } else {
+            this.selected.add(tag);
+        }
+        this.render(this.allTags());
+        this.apply();
+    }
+
+    // A snippet matches when it has any selected tag; a folder when it contains a match
+    isVisible(fullPath, isFolder) {
+        if (this.selected.size === 0) {
+            return true;
+        }
+        const matches = (path) => (this.snippetTags[path] || []).some(tag => this.selected.has(tag));
+        if (!isFolder) {
+            return matches(fullPath);
+        }
+        return Object.keys(this.snippetTags).some(path => path.startsWith(fullPath + '/') && matches(path));
+    }
+
+    applyToNode(nodeItem) {
+        nodeItem.li.style.display = this.isVisible(nodeItem.fullPath, nodeItem.isFolder) ? '' : 'none';
+    }
+
+    apply() {
+        this.treeView.nodeMap.forEach(nodeItem => this.applyToNode(nodeItem));
+    }
+}
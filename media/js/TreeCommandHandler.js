@@ -35,6 +35,32 @@ class TreeCommandHandler {
         });
     }
 
+    async moveItems(items, targetPath) {
+        return await this.messageManager.sendCommand('moveItems', { items, targetPath });
+    }
+
+    async copyItems(items, targetPath) {
+        return await this.messageManager.sendCommand('copyItems', { items, targetPath });
+    }
+
+    async removeItems(items) {
+        return await this.messageManager.sendCommand('removeItems', { items });
+    }
+
+    async reorder(path, siblingPath, position) {
+        return await this.messageManager.sendCommand('reorder', { path, siblingPath, position });
+    }
+
+    async reorderNode(nodeItem, siblingNodeItem, position) {
+        try {
+            const data = await this.reorder(nodeItem.fullPath, siblingNodeItem.fullPath, position);
+            const parentPath = nodeItem.fullPath.substring(0, nodeItem.fullPath.lastIndexOf('/'));
+            this.treeView.applyChildOrder(parentPath, data.children);
+        } catch (err) {
+            // the extension already showed the error
+        }
+    }
+
     async checkDestination(destinationPath) {
         return await this.messageManager.sendCommand('checkDestination', {
             destinationPath
@@ -63,10 +89,46 @@ class TreeCommandHandler {
         return await this.messageManager.sendCommand('ready', {});
     }
 
+    async search(query) {
+        return await this.messageManager.sendCommand('search', { query });
+    }
+
+    async getTags() {
+        return await this.messageManager.sendCommand('getTags');
+    }
+
+    openSearchResult(path, uid) {
+        this.messageManager.sendMessage('openSearchResult', { path, uid });
+    }
+
     saveTreeState(expandedPaths) {
         this.messageManager.sendMessage('saveTreeState', { expandedPaths });
     }
 
+    async restoreFromTrash(node) {
+        try {
+            await this.messageManager.sendCommand('restoreFromTrash', { path: node.fullPath });
+        } catch (err) {
+            // the extension already showed the error
+        }
+    }
+
+    async deleteFromTrash(node) {
+        await this.messageManager.sendCommand('deleteFromTrash', { path: node.fullPath, name: node.name });
+    }
+
+    async emptyTrash() {
+        await this.messageManager.sendCommand('emptyTrash');
+    }
+
+    undo() {
+        this.messageManager.sendMessage('undo');
+    }
+
+    redo() {
+        this.messageManager.sendMessage('redo');
+    }
+
     async executeMove(sourcePath, targetPath, isFolder, overwrite) {
         try {
             await this.move(sourcePath, targetPath, isFolder, overwrite);
@@ -145,6 +207,47 @@ class TreeCommandHandler {
         }
     }
 
+    // Items of a batch command; mount points and trashed entries cannot be moved
+    toBatchItems(nodes) {
+        return nodes
+            .filter(node => !node.isTopLevel && !node.trash)
+            .map(node => ({ path: node.fullPath, isFolder: node.isFolder }));
+    }
+
+    async removeNodes(nodes) {
+        try {
+            const data = await this.removeItems(this.toBatchItems(nodes));
+            this.treeView.applyBatchResults('remove', data.results);
+        } catch (err) {
+            // nothing was removed; the extension has already shown why
+        }
+    }
+
+    // Paste or drop several items; the extension asks once and shows a summary
+    async handleBatchPaste(command, items, dstPath, isDstFolder) {
+        const targetPath = isDstFolder ? dstPath : dstPath.substring(0, dstPath.lastIndexOf('/'));
+
+        if (items.some(item => item.isFolder && (targetPath === item.path || targetPath.startsWith(item.path + '/')))) {
+            this.dialogManager.showErrorDialog(`Cannot ${command} a parent folder into its own subfolder.`);
+            return;
+        }
+
+        // items already in the target folder stay where they are
+        const batch = items.filter(item => item.path.substring(0, item.path.lastIndexOf('/')) !== targetPath);
+        if (batch.length === 0) {
+            return;
+        }
+
+        try {
+            const data = command === 'copy'
+                ? await this.copyItems(batch, targetPath)
+                : await this.moveItems(batch, targetPath);
+            this.treeView.applyBatchResults(command, data.results, targetPath);
+        } catch (err) {
+            // nothing was moved or copied; the extension has already shown why
+        }
+    }
+
     handlePasteCommand(command, sourcePath, isMovingFolder, dstPath, isDstFolder) {
         const targetPath = isDstFolder ? dstPath : dstPath.substring(0, dstPath.lastIndexOf('/'));
 
@@ -28,6 +28,8 @@ const jsFiles = [
   'TreeCommandHandler.js',
   'DragAndDropHandler.js',
   'ContextMenuHandler.js',
+  'SearchHandler.js',
+  'TagFilterHandler.js',
   'NodeItem.js',
   'SnippetTreeView.js',
   'init.js'
@@ -83,3 +85,13 @@ for (const imageFile of imageFiles) {
     console.error(`Warning: ${imageFile} not found: ${imagePath}`);
   }
 }
+
+// Copy the Mermaid bundle used by the diagram preview (no CDN access from the webview)
+const mermaidPath = path.join(__dirname, '..', 'node_modules', 'mermaid', 'dist', 'mermaid.min.js');
+const mermaidOutputPath = path.join(outExtensionMediaDir, 'mermaid.min.js');
+if (fs.existsSync(mermaidPath)) {
+  fs.copyFileSync(mermaidPath, mermaidOutputPath);
+  console.log(`Copied mermaid.min.js to ${mermaidOutputPath}`);
+} else {
+  console.error(`Warning: mermaid.min.js not found: ${mermaidPath}`);
+}
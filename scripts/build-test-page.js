@@ -54,6 +54,8 @@ const jsFiles = [
   'TreeCommandHandler.js',
   'DragAndDropHandler.js',
   'ContextMenuHandler.js',
+  'SearchHandler.js',
+  'TagFilterHandler.js',
   'NodeItem.js',
   'SnippetTreeView.js',
   'init.js'
@@ -1,4 +1,15 @@
 import * as vscode from 'vscode';
+import { FileDiagnostic } from './ISnippetorFilesystemWrapper';
+
+export type FolderChangeKind = 'created' | 'changed' | 'deleted';
+
+/**
+ * Progress of a task started with withProgress
+ */
+export interface SnippetProgress {
+  report(message: string): void;
+  isCancelled(): boolean;
+}
 
 /**
  * Interface for VSCode API operations
@@ -6,9 +17,33 @@ import * as vscode from 'vscode';
  */
 export interface ISnippetorApiProvider {
   /**
-   * Show text document at specified line
+   * Show text document and select the given range
+   * Lines are 1-based, columns are 0-based
+   */
+  showTextDocument(fileName: string, startLine: number, endLine?: number, startColumn?: number, endColumn?: number): Promise<void>;
+
+  /**
+   * Read the lines of a workspace-relative file (including unsaved editor changes)
+   * Resolves to undefined when the file cannot be opened
    */
-  showTextDocument(fileName: string, startLine: number, endLine?: number): Promise<void>;
+  readTextDocumentLines(fileName: string): Promise<string[] | undefined>;
+
+  /**
+   * Name of the innermost symbol (e.g. "AuthService.login") enclosing a 1-based line
+   * of a workspace-relative file, undefined when no symbol provider knows one
+   */
+  getEnclosingSymbol(fileName: string, line: number): Promise<string | undefined>;
+
+  /**
+   * Show a note next to a range of a workspace-relative file (lines are 1-based)
+   * Only one note is shown at a time, a new note replaces the previous one
+   */
+  showNote(fileName: string, startLine: number, endLine: number, title: string, text: string): void;
+
+  /**
+   * Remove the note shown by showNote
+   */
+  clearNote(): void;
 
   /**
    * Internal method to show text document
@@ -53,6 +88,26 @@ export interface ISnippetorApiProvider {
    */
   onDidChangeTextEditorSelection(listener: (e: vscode.TextEditorSelectionChangeEvent) => any): vscode.Disposable;
 
+  /**
+   * Watch a folder and everything below it (absolute paths, also outside the workspace)
+   */
+  watchFolder(absolutePath: string, listener: (kind: FolderChangeKind, absolutePath: string) => void): vscode.Disposable;
+
+  /**
+   * Show the problems of a file (absolute path) in the Problems panel; an empty list clears them
+   */
+  setFileDiagnostics(filePath: string, diagnostics: FileDiagnostic[]): void;
+
+  /**
+   * Run a long task with a cancellable progress notification
+   */
+  withProgress<T>(title: string, task: (progress: SnippetProgress) => Promise<T>): Thenable<T>;
+
+  /**
+   * Execute a registered VSCode command
+   */
+  executeCommand(command: string, ...args: any[]): Thenable<unknown>;
+
   /**
    * Get a value from workspace state
    */
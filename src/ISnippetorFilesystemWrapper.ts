@@ -10,12 +10,38 @@ import * as fs from 'fs';
 export interface SnippetMapping {
   mountPoint: string;   // e.g. '/Drafts'
   absolutePath: string; // real filesystem path the mount point resolves to
+  readonly?: boolean;   // entries can be read but not changed from the explorer
+  origin?: string;      // workspace folder whose .snippetor/config.json adds it; unset for the global config
+}
+
+/**
+ * A problem at a range of a file (0-based lines and columns), shown in the Problems panel
+ */
+export interface FileDiagnostic {
+  message: string;
+  severity: 'error' | 'warning';
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
 }
 
 export interface ConfigLoadResult {
   folders: SnippetMapping[];
   isValid: boolean;
   error?: string;
+  diagnostics?: FileDiagnostic[]; // every problem of config.json, also warnings of a valid config
+  workspaceConfigs?: WorkspaceConfigResult[]; // the .snippetor/config.json of each workspace folder that has one
+}
+
+/**
+ * Result of loading the config of one workspace folder; an invalid one only loses its own mount points
+ */
+export interface WorkspaceConfigResult {
+  origin: string;      // name of the workspace folder
+  configPath: string;  // exception: needed so VS Code can open the file and show its problems
+  error?: string;
+  diagnostics: FileDiagnostic[];
 }
 
 export interface FileStats {
@@ -30,6 +56,19 @@ export interface DirectoryEntry {
   name: string;
   fullPath: string; // mapped path, e.g. '/Drafts/sub/file.txt'
   isFolder: boolean;
+  readonly?: boolean; // set on the top-level entry of a read-only mount point
+  origin?: string;    // set on the top-level entry of a workspace mount point
+}
+
+/**
+ * An entry deleted from the explorer, kept until it is restored or purged
+ */
+export interface TrashEntry {
+  id: string;
+  name: string;           // basename of the deleted entry
+  originalPath: string;   // mapped path it was deleted from
+  isFolder: boolean;
+  deletedAt: number;      // ms since epoch
 }
 
 export interface AutocompleteResult {
@@ -38,6 +77,68 @@ export interface AutocompleteResult {
   autocomplete: {name: string; isDirectory: boolean}[];
 }
 
+/**
+ * Cancellation and progress of a long operation (recursive copies)
+ */
+export interface FsOperationOptions {
+  isCancelled?: () => boolean;
+  onProgress?: (mappedPath: string) => void; // called for every copied entry
+}
+
+/**
+ * Thrown by an operation that was cancelled; partial results are already cleaned up
+ */
+export class FsOperationCancelledError extends Error {
+  constructor() {
+    super('Operation cancelled');
+    this.name = 'FsOperationCancelledError';
+  }
+}
+
+/**
+ * Thrown by a write operation on an entry of a read-only mount point
+ */
+export class ReadonlyMountError extends Error {
+  constructor(mappedPath: string) {
+    super(`"/${mappedPath.replace(/^\/+/, '').split('/')[0]}" is a read-only mount point`);
+    this.name = 'ReadonlyMountError';
+  }
+}
+
+/**
+ * Promise-based directory and file operations, so slow (network, Dropbox) mount points
+ * do not block the extension host. All paths are mapped paths.
+ */
+export interface ISnippetorFilesystemPromises {
+  getRootChildren(): Promise<DirectoryEntry[]>;
+  readDirectory(mappedPath: string): Promise<DirectoryEntry[]>;
+  mkdir(mappedPath: string, recursive?: boolean): Promise<void>;
+  getOrder(mappedPath: string): Promise<string[]>;
+  setOrder(mappedPath: string, names: string[]): Promise<void>;
+
+  exists(mappedPath: string): Promise<boolean>;
+  stat(mappedPath: string): Promise<FileStats | fs.Stats>;
+  rename(oldMappedPath: string, newMappedPath: string): Promise<void>;
+  writeFile(mappedPath: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void>; // atomic
+  readFile(mappedPath: string, encoding?: BufferEncoding): Promise<string>;
+  remove(mappedPath: string, recursive?: boolean): Promise<void>;
+  copy(srcMappedPath: string, dstMappedPath: string, options?: FsOperationOptions): Promise<void>;
+
+  // Undo stash next to config.json: entries moved out of the mount points and back
+  stashEntry(mappedPath: string, stashId: string): Promise<void>;
+  unstashEntry(stashId: string, mappedPath: string): Promise<void>;
+
+  // Trash next to config.json: deleted entries with their original mapped path
+  moveToTrash(mappedPath: string): Promise<TrashEntry>;
+  listTrash(): Promise<TrashEntry[]>;                              // newest first
+  restoreFromTrash(id: string, mappedPath: string): Promise<void>; // creates missing parent folders
+  deleteFromTrash(id: string): Promise<void>;
+
+  // Backups next to config.json: the previous version of each saved file, by mapped path
+  backupFile(mappedPath: string): Promise<void>;    // keeps the current content before a write; no-op for a missing file
+  restoreBackup(mappedPath: string): Promise<void>; // swaps the file with its previous version
+}
+
 /**
  * Filesystem abstraction using virtual mount points.
  * All path arguments and return values are mapped paths ('/MountPoint/...').
@@ -49,22 +150,41 @@ export interface ISnippetorFilesystemWrapper {
   reloadConfig(): ConfigLoadResult;
   getFolders(): SnippetMapping[];
   getConfigAbsolutePath(): string; // exception: needed so VS Code can open the config file
+  setWorkspaceFolders(absolutePaths: string[], trusted: boolean): void; // exception: folders of the open workspace; reload to apply
+
+  // Non-blocking variants of the directory and file operations below
+  readonly promises: ISnippetorFilesystemPromises;
+
+  // Extension data stored next to config.json (e.g. caches); names only, no paths
+  readStorageFile(name: string): string | undefined;
+  writeStorageFile(name: string, data: string): void;
+
+  // Undo stash and backups next to config.json (moves, trash and restores: see promises)
+  clearStash(stashId?: string): void;   // without id: the whole stash
+  backupFile(mappedPath: string): void; // sync variant for the schema upgrade of a file being read
+  hasBackup(mappedPath: string): boolean;
 
   // Mapped-path utilities
   mapPath(absoluteOrMappedPath: string): string; // converts absolute → '/MountPoint/...'
+  normalizeMappedPath(mappedPath: string): string; // 'MountPoint/sub/' → '/MountPoint/sub'
   resolve(mappedPath: string): string;            // converts '/MountPoint/...' → absolute (VS Code API only)
   isRootFolder(mappedPath: string): boolean;
+  isReadonly(mappedPath: string): boolean;        // entry of a read-only mount point; writes throw ReadonlyMountError
 
   // Directory operations (all paths are mapped)
   getRootChildren(): DirectoryEntry[];
-  readDirectory(mappedPath: string): DirectoryEntry[];
+  readDirectory(mappedPath: string): DirectoryEntry[];  // honours the folder's manual order
   mkdir(mappedPath: string, recursive?: boolean): void;
 
+  // Manual order of a folder's entries (names only); unlisted entries follow alphabetically
+  getOrder(mappedPath: string): string[];
+  setOrder(mappedPath: string, names: string[]): void; // an empty list removes the order
+
   // File operations (all paths are mapped)
   exists(mappedPath: string): boolean;
   stat(mappedPath: string): FileStats | fs.Stats;
   rename(oldMappedPath: string, newMappedPath: string): void;
-  writeFile(mappedPath: string, data: string | Buffer, encoding?: BufferEncoding): void;
+  writeFile(mappedPath: string, data: string | Buffer, encoding?: BufferEncoding): void; // atomic: temp file + rename
   readFile(mappedPath: string, encoding?: BufferEncoding): string;
   remove(mappedPath: string, recursive?: boolean): void;
   copy(srcMappedPath: string, dstMappedPath: string): void;
@@ -0,0 +1,180 @@
+// File: SnippetAnchor.ts
+// Content fingerprints that let snippet items follow their code when it moves
+
+import * as crypto from 'crypto';
+import { SnippetRange, lastCoveredLine } from './SnippetItem';
+
+/**
+ * Fingerprint of the lines a snippet item points at, plus a few lines of
+ * context around them. Lines are stored whitespace-normalized so that
+ * re-indentation does not break the anchor.
+ */
+export interface SnippetAnchor {
+  hash: string;
+  lines: string[];
+  before: string[];
+  after: string[];
+}
+
+/**
+ * 'ok'        - content found at the stored range
+ * 'changed'   - content at the stored range was edited but is still similar
+ * 'relocated' - content found somewhere else in the file
+ * 'stale'     - content (or the file) could not be found
+ */
+export type SnippetAnchorState = 'ok' | 'changed' | 'relocated' | 'stale';
+
+export interface SnippetRelocationResult {
+  state: SnippetAnchorState;
+  range: SnippetRange;
+  similarity: number;
+}
+
+// Number of context lines stored above and below the anchored lines
+export const ANCHOR_CONTEXT_LINES = 3;
+// Minimal similarity (0..1) for a fuzzy match to be accepted
+export const ANCHOR_FUZZY_THRESHOLD = 0.6;
+
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+function hashLines(lines: string[]): string {
+  return crypto.createHash('sha1').update(lines.join('\n')).digest('hex').substring(0, 16);
+}
+
+function shiftRange(range: SnippetRange, startIndex: number): SnippetRange {
+  const delta = startIndex + 1 - range.startLine;
+  return { ...range, startLine: range.startLine + delta, endLine: range.endLine + delta };
+}
+
+/**
+ * Create the anchor for a range of the given document
+ */
+export function createAnchor(documentLines: string[], range: SnippetRange,
+                             contextLines: number = ANCHOR_CONTEXT_LINES): SnippetAnchor {
+  const start = Math.max(0, range.startLine - 1);
+  const end = Math.min(documentLines.length, lastCoveredLine(range));
+  const lines = documentLines.slice(start, end).map(normalizeLine);
+  return {
+    hash: hashLines(lines),
+    lines,
+    before: documentLines.slice(Math.max(0, start - contextLines), start).map(normalizeLine),
+    after: documentLines.slice(end, end + contextLines).map(normalizeLine)
+  };
+}
+
+/**
+ * Similarity of two strings (Dice coefficient over character bigrams)
+ */
+export function lineSimilarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+  let matches = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      matches++;
+    }
+  }
+  return (2 * matches) / (a.length + b.length - 2);
+}
+
+function blockSimilarity(expected: string[], actual: string[]): number {
+  if (expected.length === 0) {
+    return 1;
+  }
+  let total = 0;
+  for (let i = 0; i < expected.length; i++) {
+    total += lineSimilarity(expected[i], actual[i] ?? '');
+  }
+  return total / expected.length;
+}
+
+function contextSimilarity(normalized: string[], index: number, count: number, anchor: SnippetAnchor): number {
+  const before = normalized.slice(Math.max(0, index - anchor.before.length), index);
+  const after = normalized.slice(index + count, index + count + anchor.after.length);
+  const parts = anchor.before.length + anchor.after.length;
+  if (parts === 0) {
+    return 1;
+  }
+  // Align "before" context on its last line, "after" context on its first line
+  const paddedBefore = new Array(anchor.before.length - before.length).fill('').concat(before);
+  return (blockSimilarity(anchor.before, paddedBefore) * anchor.before.length +
+          blockSimilarity(anchor.after, after) * anchor.after.length) / parts;
+}
+
+/**
+ * Find where the anchored content lives now.
+ * 1. Content still at the stored range -> 'ok'
+ * 2. Exact content elsewhere -> 'relocated' (context and distance break ties)
+ * 3. Best fuzzy match above the threshold -> 'relocated', or 'changed' when
+ *    the best match is the stored range itself
+ * 4. Otherwise -> 'stale', with the stored range unchanged
+ */
+export function relocateAnchor(documentLines: string[], range: SnippetRange,
+                               anchor: SnippetAnchor): SnippetRelocationResult {
+  const count = anchor.lines.length;
+  if (count === 0) {
+    return { state: 'ok', range, similarity: 1 };
+  }
+
+  const normalized = documentLines.map(normalizeLine);
+  const storedIndex = range.startLine - 1;
+  const windowAt = (index: number) => normalized.slice(index, index + count);
+
+  if (storedIndex >= 0 && storedIndex + count <= normalized.length &&
+      hashLines(windowAt(storedIndex)) === anchor.hash) {
+    return { state: 'ok', range, similarity: 1 };
+  }
+
+  let bestIndex = -1;
+  let bestScore = -1;
+  let bestSimilarity = 0;
+
+  // Exact matches first
+  for (let i = 0; i + count <= normalized.length; i++) {
+    if (normalized[i] !== anchor.lines[0] || hashLines(windowAt(i)) !== anchor.hash) {
+      continue;
+    }
+    const score = contextSimilarity(normalized, i, count, anchor) - Math.abs(i - storedIndex) / (normalized.length + 1);
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = i;
+      bestSimilarity = 1;
+    }
+  }
+
+  // Fuzzy fallback
+  if (bestIndex === -1) {
+    for (let i = 0; i + count <= normalized.length; i++) {
+      const similarity = 0.8 * blockSimilarity(anchor.lines, windowAt(i)) +
+                         0.2 * contextSimilarity(normalized, i, count, anchor);
+      const score = similarity - Math.abs(i - storedIndex) / (normalized.length + 1) / 100;
+      if (similarity >= ANCHOR_FUZZY_THRESHOLD && score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+        bestSimilarity = similarity;
+      }
+    }
+  }
+
+  if (bestIndex === -1) {
+    return { state: 'stale', range, similarity: 0 };
+  }
+  if (bestIndex === storedIndex) {
+    return { state: 'changed', range, similarity: bestSimilarity };
+  }
+  return { state: 'relocated', range: shiftRange(range, bestIndex), similarity: bestSimilarity };
+}
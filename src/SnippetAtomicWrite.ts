@@ -0,0 +1,57 @@
+// File: SnippetAtomicWrite.ts
+// Crash-safe file writes: the data goes to a temp file next to the target, which then
+// replaces the target in one rename, so readers (sync clients, watchers) never see half a file
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Suffix of the temp files; a crash can leave one behind, so they are never shown in the explorer
+export const TEMP_FILE_SUFFIX = '.snippetor-tmp';
+
+let tempCounter = 0;
+
+export function isTempFile(mappedPath: string): boolean {
+  return mappedPath.endsWith(TEMP_FILE_SUFFIX);
+}
+
+/**
+ * Temp file in the folder of the target (a rename across drives is not atomic)
+ */
+function toTempPath(absolutePath: string): string {
+  const name = `.${path.basename(absolutePath)}.${process.pid}-${++tempCounter}${TEMP_FILE_SUFFIX}`;
+  return path.join(path.dirname(absolutePath), name);
+}
+
+export function writeFileAtomicSync(absolutePath: string, data: string | Buffer, encoding?: BufferEncoding): void {
+  const tempPath = toTempPath(absolutePath);
+  try {
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeFileSync(fd, data, encoding);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tempPath, absolutePath);
+  } catch (err) {
+    fs.rmSync(tempPath, { force: true });
+    throw err;
+  }
+}
+
+export async function writeFileAtomic(absolutePath: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void> {
+  const tempPath = toTempPath(absolutePath);
+  try {
+    const handle = await fs.promises.open(tempPath, 'w');
+    try {
+      await handle.writeFile(data, encoding);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.promises.rename(tempPath, absolutePath);
+  } catch (err) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw err;
+  }
+}
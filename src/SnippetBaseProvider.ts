@@ -2,7 +2,21 @@ import * as fs from 'fs';
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { ISnippetorWebViewHandler } from './ISnippetorWebViewHandler';
-import { ISnippetorApiProvider } from './ISnippetorApiProvider';
+import { FolderChangeKind, ISnippetorApiProvider, SnippetProgress } from './ISnippetorApiProvider';
+import { FileDiagnostic } from './ISnippetorFilesystemWrapper';
+
+// Symbols that make sense as a diagram participant
+const ENCLOSING_SYMBOL_KINDS = new Set<vscode.SymbolKind>([
+  vscode.SymbolKind.Class,
+  vscode.SymbolKind.Interface,
+  vscode.SymbolKind.Struct,
+  vscode.SymbolKind.Enum,
+  vscode.SymbolKind.Module,
+  vscode.SymbolKind.Namespace,
+  vscode.SymbolKind.Function,
+  vscode.SymbolKind.Method,
+  vscode.SymbolKind.Constructor
+]);
 
 /**
  * Base class for snippet providers with common webview functionality
@@ -12,6 +26,11 @@ export class SnippetBaseProvider implements vscode.WebviewViewProvider, ISnippet
   protected _view?: vscode.WebviewView;
   protected context: vscode.ExtensionContext;
   private handler: ISnippetorWebViewHandler;
+  // Created on first showNote
+  private noteController?: vscode.CommentController;
+  private noteThread?: vscode.CommentThread;
+  // Created on first setFileDiagnostics
+  private diagnostics?: vscode.DiagnosticCollection;
 
   constructor(context: vscode.ExtensionContext, handler: ISnippetorWebViewHandler) {
     this.context = context;
@@ -55,25 +74,115 @@ export class SnippetBaseProvider implements vscode.WebviewViewProvider, ISnippet
   // ============================================================================
 
   /**
-   * Show text document at specified line
+   * Show text document and select the given range (lines are 1-based, columns 0-based)
+   * Without an end line the whole start line is selected
    */
-  public async showTextDocument(fileName: string, startLine: number, endLine?: number): Promise<void> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
+  public async showTextDocument(fileName: string, startLine: number, endLine?: number, startColumn?: number, endColumn?: number): Promise<void> {
+    const fileUri = this.resolveWorkspaceFile(fileName);
+    if (!fileUri) {
       this.showErrorMessage('No workspace folder is open.');
       return;
     }
 
-    const rootPath = workspaceFolders[0].uri.fsPath;
-    const absPath = path.join(rootPath, fileName);
-    const fileUri = vscode.Uri.file(absPath);
-
     const end = endLine !== undefined ? endLine - 1 : startLine;
     await this.showTextDocumentInternal(fileUri, {
-      selection: new vscode.Range(startLine - 1, 0, end, 0)
+      selection: new vscode.Range(startLine - 1, startColumn ?? 0, end, endColumn ?? 0)
     });
   }
 
+  /**
+   * Read the lines of a workspace-relative file, open editors win over disk content
+   */
+  public async readTextDocumentLines(fileName: string): Promise<string[] | undefined> {
+    const fileUri = this.resolveWorkspaceFile(fileName);
+    if (!fileUri) {
+      return undefined;
+    }
+    try {
+      const document = await vscode.workspace.openTextDocument(fileUri);
+      return document.getText().split(/\r?\n/);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve the enclosing symbol through the document symbol providers of the language
+   */
+  public async getEnclosingSymbol(fileName: string, line: number): Promise<string | undefined> {
+    const fileUri = this.resolveWorkspaceFile(fileName);
+    if (!fileUri) {
+      return undefined;
+    }
+    let symbols: (vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined;
+    try {
+      symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[]>(
+        'vscode.executeDocumentSymbolProvider', fileUri);
+    } catch {
+      return undefined;
+    }
+    if (!symbols || symbols.length === 0) {
+      return undefined;
+    }
+
+    const position = new vscode.Position(line - 1, 0);
+    if ('children' in symbols[0]) {
+      // Hierarchical symbols - walk down to the innermost one
+      const names: string[] = [];
+      let level = symbols as vscode.DocumentSymbol[];
+      for (;;) {
+        const match = level.find(symbol => symbol.range.contains(position) && ENCLOSING_SYMBOL_KINDS.has(symbol.kind));
+        if (!match) {
+          break;
+        }
+        names.push(match.name);
+        level = match.children;
+      }
+      return names.length > 0 ? names.join('.') : undefined;
+    }
+
+    // Flat symbols - pick the smallest range containing the line
+    const containing = (symbols as vscode.SymbolInformation[])
+      .filter(symbol => symbol.location.range.contains(position) && ENCLOSING_SYMBOL_KINDS.has(symbol.kind))
+      .sort((a, b) => (a.location.range.end.line - a.location.range.start.line)
+        - (b.location.range.end.line - b.location.range.start.line));
+    if (containing.length === 0) {
+      return undefined;
+    }
+    const symbol = containing[0];
+    return symbol.containerName ? `${symbol.containerName}.${symbol.name}` : symbol.name;
+  }
+
+  /**
+   * Show a note as a read-only comment thread below the given lines
+   */
+  public showNote(fileName: string, startLine: number, endLine: number, title: string, text: string): void {
+    const fileUri = this.resolveWorkspaceFile(fileName);
+    if (!fileUri) {
+      return;
+    }
+    this.clearNote();
+    if (!this.noteController) {
+      this.noteController = vscode.comments.createCommentController('snippetorNotes', 'Snippet Notes');
+      this.context.subscriptions.push(this.noteController);
+    }
+
+    const comment: vscode.Comment = {
+      body: new vscode.MarkdownString(text || '_No note_'),
+      mode: vscode.CommentMode.Preview,
+      author: { name: title }
+    };
+    this.noteThread = this.noteController.createCommentThread(
+      fileUri, new vscode.Range(startLine - 1, 0, Math.max(startLine, endLine) - 1, 0), [comment]);
+    this.noteThread.canReply = false;
+    this.noteThread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+  }
+
+  public clearNote(): void {
+    this.noteThread?.dispose();
+    this.noteThread = undefined;
+  }
+
   /**
    * Internal method to show text document - can be overridden for testing
    */
@@ -154,6 +263,47 @@ export class SnippetBaseProvider implements vscode.WebviewViewProvider, ISnippet
     return vscode.window.onDidChangeTextEditorSelection(listener);
   }
 
+  public watchFolder(absolutePath: string, listener: (kind: FolderChangeKind, absolutePath: string) => void): vscode.Disposable {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(absolutePath), '**/*'));
+    return vscode.Disposable.from(
+      watcher,
+      watcher.onDidCreate(uri => listener('created', uri.fsPath)),
+      watcher.onDidChange(uri => listener('changed', uri.fsPath)),
+      watcher.onDidDelete(uri => listener('deleted', uri.fsPath))
+    );
+  }
+
+  public setFileDiagnostics(filePath: string, diagnostics: FileDiagnostic[]): void {
+    if (!this.diagnostics) {
+      this.diagnostics = vscode.languages.createDiagnosticCollection('snippetor');
+      this.context.subscriptions.push(this.diagnostics);
+    }
+    this.diagnostics.set(vscode.Uri.file(filePath), diagnostics.map(d => {
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(d.line, d.column, d.endLine, d.endColumn),
+        d.message,
+        d.severity === 'warning' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
+      );
+      diagnostic.source = 'Snippetor';
+      return diagnostic;
+    }));
+  }
+
+  public withProgress<T>(title: string, task: (progress: SnippetProgress) => Promise<T>): Thenable<T> {
+    return vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title, cancellable: true },
+      (progress, token) => task({
+        report: message => progress.report({ message }),
+        isCancelled: () => token.isCancellationRequested
+      })
+    );
+  }
+
+  public executeCommand(command: string, ...args: any[]): Thenable<unknown> {
+    return vscode.commands.executeCommand(command, ...args);
+  }
+
   public getWorkspaceState<T>(key: string, defaultValue: T): T {
     return this.context.workspaceState.get<T>(key, defaultValue);
   }
@@ -166,6 +316,18 @@ export class SnippetBaseProvider implements vscode.WebviewViewProvider, ISnippet
   // Helper methods
   // ============================================================================
 
+  /**
+   * Resolve a workspace-relative file name against the first workspace folder
+   */
+  private resolveWorkspaceFile(fileName: string): vscode.Uri | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+      return undefined;
+    }
+    const rootPath = workspaceFolders[0].uri.fsPath;
+    return vscode.Uri.file(path.join(rootPath, fileName));
+  }
+
   /**
    * Get HTML content for the webview
    */
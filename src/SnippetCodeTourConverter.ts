@@ -0,0 +1,157 @@
+// File: SnippetCodeTourConverter.ts
+// Conversion between `.snippet` files and CodeTour `.tour` files
+
+import { SnippetItem, SnippetRange, formatSnippetLine, generateUID, getSnippetItemRange, lastCoveredLine } from './SnippetItem';
+import { SnippetFileContent, SNIPPET_EXTENSION } from './SnippetFileReader';
+
+export const CODETOUR_EXTENSION = '.tour';
+export const CODETOUR_SCHEMA = 'https://aka.ms/codetour-schema';
+
+/**
+ * Position in a CodeTour selection, both line and character are 1-based
+ */
+export interface CodeTourPosition {
+  line: number;
+  character: number;
+}
+
+/**
+ * A CodeTour step; steps without `file` are content-only steps
+ */
+export interface CodeTourStep {
+  file?: string;
+  line?: number;
+  selection?: { start: CodeTourPosition; end: CodeTourPosition };
+  title?: string;
+  description: string;
+}
+
+export interface CodeTour {
+  $schema?: string;
+  title: string;
+  description?: string;
+  steps: CodeTourStep[];
+}
+
+function basename(filePath: string): string {
+  return filePath.split(/[\\/]/).pop() ?? filePath;
+}
+
+/**
+ * Parse the JSON text of a `.tour` file
+ * Throws when the text is not valid JSON or has no steps
+ */
+export function parseCodeTour(text: string): CodeTour {
+  const json = JSON.parse(text);
+  if (!json || !Array.isArray(json.steps)) {
+    throw new Error('Not a CodeTour file: "steps" is missing');
+  }
+  return {
+    title: typeof json.title === 'string' ? json.title : '',
+    description: typeof json.description === 'string' ? json.description : undefined,
+    steps: json.steps.filter((step: any) => step && typeof step === 'object')
+  };
+}
+
+/**
+ * A `.tour` position: 1-based line and character
+ */
+function isTourPosition(position: CodeTourPosition | undefined): position is CodeTourPosition {
+  return Number.isInteger(position?.line) && position!.line >= 1
+    && Number.isInteger(position?.character) && position!.character >= 0;
+}
+
+/**
+ * Range of a CodeTour step, undefined for steps without a line.
+ * A selection that is not a valid forward range falls back to the step line.
+ */
+function stepRange(step: CodeTourStep): SnippetRange | undefined {
+  const start = step.selection?.start;
+  const end = step.selection?.end;
+  if (isTourPosition(start) && isTourPosition(end)
+    && (end.line > start.line || (end.line === start.line && end.character >= start.character))) {
+    return {
+      startLine: start.line,
+      startColumn: Math.max(0, start.character - 1),
+      endLine: end.line,
+      endColumn: Math.max(0, end.character - 1)
+    };
+  }
+  const line = step.line;
+  if (typeof line === 'number' && Number.isInteger(line) && line >= 1) {
+    return { startLine: line, startColumn: 0, endLine: line + 1, endColumn: 0 };
+  }
+  return undefined;
+}
+
+/**
+ * Convert a CodeTour into snippet content (step titles are kept as the first note line)
+ */
+export function codeTourToSnippet(tour: CodeTour): SnippetFileContent {
+  const snippets = tour.steps.map((step): SnippetItem => {
+    const range = stepRange(step);
+    const filePath = typeof step.file === 'string' ? step.file.replace(/\\/g, '/') : '';
+    const description = typeof step.description === 'string' ? step.description : '';
+    const item: SnippetItem = {
+      uid: generateUID(),
+      text: step.title ? `**${step.title}**\n\n${description}` : description,
+      filePath,
+      line: filePath && range ? formatSnippetLine(basename(filePath), range) : ''
+    };
+    if (filePath && range) {
+      item.range = range;
+    }
+    return item;
+  });
+
+  return {
+    title: tour.title,
+    description: tour.description ?? '',
+    snippets
+  };
+}
+
+/**
+ * Convert snippet content into a CodeTour; the step line is the last line covered
+ * by the item so that the tour comment shows up below the referenced code
+ */
+export function snippetToCodeTour(content: SnippetFileContent): CodeTour {
+  const steps = content.snippets.map((item): CodeTourStep => {
+    const range = getSnippetItemRange(item);
+    if (!item.filePath || !range) {
+      return { description: item.text };
+    }
+    const step: CodeTourStep = {
+      file: item.filePath,
+      line: lastCoveredLine(range),
+      description: item.text
+    };
+    // a caret or a single whole line is shown by the step line alone
+    const empty = range.endLine === range.startLine && range.endColumn === range.startColumn;
+    const wholeLine = range.startColumn === 0 && range.endColumn === 0 && lastCoveredLine(range) === range.startLine;
+    if (!empty && !wholeLine) {
+      step.selection = {
+        start: { line: range.startLine, character: range.startColumn + 1 },
+        end: { line: range.endLine, character: range.endColumn + 1 }
+      };
+    }
+    return step;
+  });
+
+  const tour: CodeTour = { $schema: CODETOUR_SCHEMA, title: content.title, steps };
+  if (content.description) {
+    tour.description = content.description;
+  }
+  return tour;
+}
+
+/**
+ * `auth.tour` → `auth.snippet` and back
+ */
+export function tourToSnippetFileName(tourName: string): string {
+  return tourName.replace(/\.tour$/i, '') + SNIPPET_EXTENSION;
+}
+
+export function snippetToTourFileName(snippetName: string): string {
+  return snippetName.replace(/\.snippet$/, '') + CODETOUR_EXTENSION;
+}
@@ -0,0 +1,392 @@
+// File: SnippetConfigValidator.ts
+// Validation of the archsnippets config.json with the position of every problem,
+// so they can be shown in the Problems panel next to the offending text
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileDiagnostic } from './ISnippetorFilesystemWrapper';
+
+/**
+ * Parsed JSON value with its location in the text
+ */
+interface JsonNode {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+  value?: unknown;                                                     // primitives only
+  offset: number;
+  length: number;
+  items?: JsonNode[];                                                  // arrays
+  properties?: { key: string; keyOffset: number; keyLength: number; value: JsonNode }[]; // objects
+}
+
+class JsonSyntaxError extends Error {
+  public readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.offset = offset;
+  }
+}
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const STRING_PATTERN = /"(?:[^"\\\u0000-\u001f]|\\(?:["\\/bfnrt]|u[0-9a-fA-F]{4}))*"/y;
+
+/**
+ * Minimal JSON parser that keeps offsets (JSON.parse only reports the first syntax error)
+ */
+class JsonTreeParser {
+  private text: string;
+  private pos = 0;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  public parse(): JsonNode {
+    const node = this.parseValue();
+    this.skipWhitespace();
+    if (this.pos < this.text.length) {
+      throw new JsonSyntaxError('Unexpected text after the end of the JSON value', this.pos);
+    }
+    return node;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length && ' \t\r\n\uFEFF'.includes(this.text[this.pos])) {
+      this.pos++;
+    }
+  }
+
+  private parseValue(): JsonNode {
+    this.skipWhitespace();
+    const start = this.pos;
+    const ch = this.text[this.pos];
+    if (ch === '{') {
+      return this.parseObject();
+    }
+    if (ch === '[') {
+      return this.parseArray();
+    }
+    if (ch === '"') {
+      return { type: 'string', value: this.parseString(), offset: start, length: this.pos - start };
+    }
+    for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+      if (this.text.startsWith(literal, this.pos)) {
+        this.pos += literal.length;
+        return { type: value === null ? 'null' : 'boolean', value, offset: start, length: literal.length };
+      }
+    }
+    NUMBER_PATTERN.lastIndex = this.pos;
+    const number = NUMBER_PATTERN.exec(this.text);
+    if (number) {
+      this.pos += number[0].length;
+      return { type: 'number', value: Number(number[0]), offset: start, length: number[0].length };
+    }
+    throw new JsonSyntaxError(ch === undefined ? 'Unexpected end of file' : 'Value expected', this.pos);
+  }
+
+  private parseString(): string {
+    STRING_PATTERN.lastIndex = this.pos;
+    const match = STRING_PATTERN.exec(this.text);
+    if (!match) {
+      throw new JsonSyntaxError('Unterminated or invalid string', this.pos);
+    }
+    this.pos += match[0].length;
+    return JSON.parse(match[0]);
+  }
+
+  private expect(ch: string, message: string): void {
+    this.skipWhitespace();
+    if (this.text[this.pos] !== ch) {
+      throw new JsonSyntaxError(message, this.pos);
+    }
+    this.pos++;
+  }
+
+  private parseObject(): JsonNode {
+    const node: JsonNode = { type: 'object', offset: this.pos, length: 0, properties: [] };
+    this.pos++; // '{'
+    this.skipWhitespace();
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+    } else {
+      for (;;) {
+        this.skipWhitespace();
+        if (this.text[this.pos] !== '"') {
+          throw new JsonSyntaxError('Property name in double quotes expected', this.pos);
+        }
+        const keyOffset = this.pos;
+        const key = this.parseString();
+        const keyLength = this.pos - keyOffset;
+        this.expect(':', 'Colon expected');
+        node.properties!.push({ key, keyOffset, keyLength, value: this.parseValue() });
+        this.skipWhitespace();
+        if (this.text[this.pos] === ',') {
+          this.pos++;
+          continue;
+        }
+        this.expect('}', 'Comma or closing brace expected');
+        break;
+      }
+    }
+    node.length = this.pos - node.offset;
+    return node;
+  }
+
+  private parseArray(): JsonNode {
+    const node: JsonNode = { type: 'array', offset: this.pos, length: 0, items: [] };
+    this.pos++; // '['
+    this.skipWhitespace();
+    if (this.text[this.pos] === ']') {
+      this.pos++;
+    } else {
+      for (;;) {
+        node.items!.push(this.parseValue());
+        this.skipWhitespace();
+        if (this.text[this.pos] === ',') {
+          this.pos++;
+          continue;
+        }
+        this.expect(']', 'Comma or closing bracket expected');
+        break;
+      }
+    }
+    node.length = this.pos - node.offset;
+    return node;
+  }
+}
+
+/**
+ * A valid `{folder, mapping}` item of the config
+ */
+export interface ConfigEntry {
+  folder: string;       // mount name without the leading '/'
+  mapping: string;      // folder on disk as written in the config
+  absolutePath: string; // mapping with `~` and `${...}` placeholders expanded
+  readonly?: boolean;   // snippets can be browsed and opened but not changed
+}
+
+/**
+ * Values of the placeholders a mapping may use
+ */
+export interface ConfigVariables {
+  workspaceFolder?: string;  // `${workspaceFolder}`: the first folder of the open workspace
+  env: { [name: string]: string | undefined }; // `${env:NAME}`
+  homedir: string;           // a leading `~`
+  relativeTo?: string;       // folder relative mappings are resolved against (workspace configs)
+  confineTo?: string;        // folder every mapping must stay inside (workspace configs come with a repository)
+}
+
+export function defaultConfigVariables(workspaceFolder?: string, relativeTo?: string, confineTo?: string): ConfigVariables {
+  return { workspaceFolder, env: process.env, homedir: os.homedir(), relativeTo, confineTo };
+}
+
+const VARIABLE_PATTERN = /\$\{([^}]*)\}/g;
+
+/**
+ * Expand `~`, `${env:NAME}` and `${workspaceFolder}` in a mapping.
+ * `unavailable` is set when a placeholder has no value here (no workspace open, variable not set):
+ * the mount point is skipped on this machine but the config stays valid
+ */
+export function expandMapping(mapping: string, variables: ConfigVariables): { path?: string; unavailable?: string; error?: string } {
+  let unavailable: string | undefined;
+  let error: string | undefined;
+  let expanded = mapping.replace(VARIABLE_PATTERN, (placeholder, name: string) => {
+    if (name === 'workspaceFolder') {
+      if (variables.workspaceFolder === undefined) {
+        unavailable = unavailable ?? `${placeholder} needs an open workspace folder`;
+        return '';
+      }
+      return variables.workspaceFolder;
+    }
+    if (name.startsWith('env:') && name.length > 'env:'.length) {
+      const value = variables.env[name.substring('env:'.length)];
+      if (value === undefined || value === '') {
+        unavailable = unavailable ?? `Environment variable "${name.substring('env:'.length)}" is not set`;
+        return '';
+      }
+      return value;
+    }
+    error = error ?? `Unknown placeholder ${placeholder}; use \${workspaceFolder} or \${env:NAME}`;
+    return '';
+  });
+  if (error || unavailable) {
+    return { error, unavailable };
+  }
+  if (expanded === '~' || expanded.startsWith('~/') || expanded.startsWith('~\\')) {
+    expanded = variables.homedir + expanded.substring(1);
+  }
+  return { path: variables.relativeTo ? path.resolve(variables.relativeTo, expanded) : path.normalize(expanded) };
+}
+
+export interface ConfigValidationResult {
+  entries: ConfigEntry[];          // items without errors, in file order
+  diagnostics: FileDiagnostic[];   // errors make the whole config invalid, warnings do not
+}
+
+const KNOWN_PROPERTIES = ['folder', 'mapping', 'readonly'];
+
+/**
+ * Folder on disk in a comparable form
+ */
+function comparablePath(mapping: string): string {
+  const resolved = path.resolve(mapping);
+  return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+}
+
+/**
+ * Folder on disk with symbolic links resolved, so a link cannot lead out of a confining folder
+ */
+function realComparablePath(mapping: string): string {
+  let resolved = path.resolve(mapping);
+  const missing: string[] = [];
+  while (!fs.existsSync(resolved) && path.dirname(resolved) !== resolved) {
+    missing.unshift(path.basename(resolved));
+    resolved = path.dirname(resolved);
+  }
+  return comparablePath(path.join(fs.realpathSync(resolved), ...missing));
+}
+
+function isInside(child: string, parent: string): boolean {
+  return child === parent || child.startsWith(parent.endsWith(path.sep) ? parent : parent + path.sep);
+}
+
+/**
+ * Check the text of config.json: JSON syntax, the `{folder, mapping}` item shape, placeholders
+ * in mappings, duplicate mount names and mappings that overlap each other.
+ * `existing` are the entries of configs loaded before this one: a mount name they already use
+ * only skips the item (a warning), since the other config is valid on its own
+ */
+export function validateConfigText(
+  text: string,
+  variables: ConfigVariables = defaultConfigVariables(),
+  existing: ConfigEntry[] = []
+): ConfigValidationResult {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  const toPosition = (offset: number) => {
+    let line = lineStarts.length - 1;
+    while (lineStarts[line] > offset) {
+      line--;
+    }
+    return { line, column: offset - lineStarts[line] };
+  };
+  const diagnostics: FileDiagnostic[] = [];
+  const report = (offset: number, length: number, message: string, severity: FileDiagnostic['severity'] = 'error') => {
+    const start = toPosition(offset);
+    const end = toPosition(offset + Math.max(length, 1));
+    diagnostics.push({ message, severity, line: start.line, column: start.column, endLine: end.line, endColumn: end.column });
+  };
+
+  let root: JsonNode;
+  try {
+    root = new JsonTreeParser(text).parse();
+  } catch (err: any) {
+    report(err instanceof JsonSyntaxError ? err.offset : 0, 1, err.message);
+    return { entries: [], diagnostics };
+  }
+  if (root.type !== 'array') {
+    report(root.offset, root.length, 'The config must be an array of {"folder", "mapping"} objects');
+    return { entries: [], diagnostics };
+  }
+
+  const entries: ConfigEntry[] = [];
+  const placed: { entry: ConfigEntry; mapping: string }[] = [];
+  const loadedBefore = existing.map(entry => ({ entry, mapping: comparablePath(entry.absolutePath) }));
+  for (const item of root.items!) {
+    if (item.type !== 'object') {
+      report(item.offset, item.length, 'Each config item must be an object with "folder" and "mapping" properties');
+      continue;
+    }
+    const property = (key: string) => item.properties!.find(p => p.key === key);
+    for (const p of item.properties!) {
+      if (!KNOWN_PROPERTIES.includes(p.key)) {
+        report(p.keyOffset, p.keyLength, `Unknown property "${p.key}"`, 'warning');
+      }
+    }
+
+    let valid = true;
+    const folder = property('folder');
+    if (!folder) {
+      report(item.offset, 1, 'Missing property "folder" (the name of the mount point)');
+      valid = false;
+    } else if (folder.value.type !== 'string' || (folder.value.value as string).trim() === '') {
+      report(folder.value.offset, folder.value.length, '"folder" must be a non-empty string');
+      valid = false;
+    } else if (/[\\/]/.test(folder.value.value as string)) {
+      report(folder.value.offset, folder.value.length, '"folder" is a single name and cannot contain "/" or "\\"');
+      valid = false;
+    }
+    const mapping = property('mapping');
+    if (!mapping) {
+      report(item.offset, 1, 'Missing property "mapping" (the folder on disk)');
+      valid = false;
+    } else if (mapping.value.type !== 'string' || (mapping.value.value as string).trim() === '') {
+      report(mapping.value.offset, mapping.value.length, '"mapping" must be a non-empty string');
+      valid = false;
+    }
+    const readonly = property('readonly');
+    if (readonly && readonly.value.type !== 'boolean') {
+      report(readonly.value.offset, readonly.value.length, '"readonly" must be true or false');
+      valid = false;
+    }
+    if (!valid) {
+      continue;
+    }
+
+    const folderName = folder!.value.value as string;
+    const expanded = expandMapping(mapping!.value.value as string, variables);
+    if (expanded.error) {
+      report(mapping!.value.offset, mapping!.value.length, expanded.error);
+      continue;
+    }
+    if (expanded.unavailable) {
+      report(mapping!.value.offset, mapping!.value.length,
+        `${expanded.unavailable}; mount point "${folderName}" is not available`, 'warning');
+      continue;
+    }
+    if (variables.confineTo && !isInside(realComparablePath(expanded.path!), realComparablePath(variables.confineTo))) {
+      report(mapping!.value.offset, mapping!.value.length, `Mapping must stay inside the workspace folder "${variables.confineTo}"`);
+      continue;
+    }
+    const entry: ConfigEntry = { folder: folderName, mapping: mapping!.value.value as string, absolutePath: expanded.path! };
+    if (readonly?.value.value === true) {
+      entry.readonly = true;
+    }
+    const duplicate = placed.find(p => p.entry.folder === entry.folder);
+    if (duplicate) {
+      report(folder!.value.offset, folder!.value.length,
+        `Duplicate mount name "${entry.folder}", already used for "${duplicate.entry.mapping}"`);
+      continue;
+    }
+    const taken = loadedBefore.find(p => p.entry.folder === entry.folder);
+    if (taken) {
+      report(folder!.value.offset, folder!.value.length,
+        `Mount name "${entry.folder}" is already used for "${taken.entry.mapping}"; this mount point is skipped`, 'warning');
+      continue;
+    }
+    const comparable = comparablePath(entry.absolutePath);
+    const overlap = [...loadedBefore, ...placed].find(p => isInside(comparable, p.mapping) || isInside(p.mapping, comparable));
+    if (overlap) {
+      const relation = comparable === overlap.mapping ? 'is the same folder as'
+        : isInside(comparable, overlap.mapping) ? 'is inside' : 'contains';
+      report(mapping!.value.offset, mapping!.value.length,
+        `Mapping ${relation} the mapping of "${overlap.entry.folder}"; its snippets would appear under two mount points`,
+        'warning');
+    }
+    placed.push({ entry, mapping: comparable });
+    entries.push(entry);
+  }
+  return { entries, diagnostics };
+}
+
+/**
+ * "Line 3, column 14: message" (1-based, as shown in the editor)
+ */
+export function formatDiagnostic(diagnostic: FileDiagnostic): string {
+  return `Line ${diagnostic.line + 1}, column ${diagnostic.column + 1}: ${diagnostic.message}`;
+}
@@ -0,0 +1,75 @@
+// File: SnippetDiagram.ts
+// Mermaid diagrams generated from the items of a snippet
+
+export type SnippetDiagramKind = 'sequence' | 'flowchart';
+
+/**
+ * One snippet item in the diagram: where it lives and what its note says
+ */
+export interface SnippetDiagramStep {
+  participant: string;  // file or enclosing symbol
+  label: string;        // short note summary
+}
+
+// Longest arrow label before it gets truncated
+export const DIAGRAM_LABEL_LENGTH = 60;
+
+const MERMAID_ENTITIES: Record<string, string> = { '#': '#35;', ';': '#59;', '"': '#quot;' };
+
+/**
+ * Escape characters that end a Mermaid statement or a quoted label
+ */
+function escapeMermaid(text: string): string {
+  return text.replace(/[#;"]/g, c => MERMAID_ENTITIES[c]);
+}
+
+/**
+ * First non-empty line of a note without Markdown decoration, truncated for an arrow label
+ */
+export function noteSummary(text: string, maxLength: number = DIAGRAM_LABEL_LENGTH): string {
+  const line = (text || '').split(/\r?\n/).map(l => l.trim()).find(l => l.length > 0) ?? '';
+  const plain = line
+    .replace(/^(#+|[-*+>]|\d+\.)\s+/, '')
+    .replace(/[*_`]/g, '')
+    .trim();
+  return plain.length > maxLength ? plain.substring(0, maxLength - 1).trimEnd() + '…' : plain;
+}
+
+/**
+ * Build the Mermaid source for the steps of a snippet.
+ * Participants are the distinct step locations in order of appearance;
+ * each arrow is the transition to the next step, labelled with that step's note.
+ */
+export function buildSnippetDiagram(kind: SnippetDiagramKind, steps: SnippetDiagramStep[]): string {
+  const ids = new Map<string, string>();
+  for (const step of steps) {
+    if (!ids.has(step.participant)) {
+      ids.set(step.participant, `P${ids.size + 1}`);
+    }
+  }
+
+  const out: string[] = [];
+  if (kind === 'sequence') {
+    out.push('sequenceDiagram');
+    ids.forEach((id, participant) => out.push(`  participant ${id} as ${escapeMermaid(participant)}`));
+    steps.forEach((step, index) => {
+      const id = ids.get(step.participant)!;
+      const label = escapeMermaid(`${index + 1}. ${step.label}`.trim());
+      if (index === 0) {
+        out.push(`  Note over ${id}: ${label}`);
+      } else {
+        out.push(`  ${ids.get(steps[index - 1].participant)}->>${id}: ${label}`);
+      }
+    });
+  } else {
+    out.push('flowchart TD');
+    ids.forEach((id, participant) => out.push(`  ${id}["${escapeMermaid(participant)}"]`));
+    steps.forEach((step, index) => {
+      if (index > 0) {
+        const label = escapeMermaid(`${index + 1}. ${step.label}`.trim());
+        out.push(`  ${ids.get(steps[index - 1].participant)} -->|"${label}"| ${ids.get(step.participant)}`);
+      }
+    });
+  }
+  return out.join('\n') + '\n';
+}
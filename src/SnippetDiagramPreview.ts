@@ -0,0 +1,148 @@
+import * as vscode from 'vscode';
+import { SnippetDiagramKind } from './SnippetDiagram';
+
+// Mermaid is copied next to the webview pages by the build; if it fails to render the raw source is shown instead
+const MEDIA_PATH = 'out/extension/media';
+const MERMAID_SCRIPT = 'mermaid.min.js';
+
+/**
+ * Callbacks into the Working Snippet
+ */
+export interface SnippetDiagramSource {
+  generate(kind: SnippetDiagramKind): Promise<string>;
+  embed(source: string): void;
+}
+
+/**
+ * Webview panel next to the editor that renders the Mermaid diagram of the working snippet.
+ * The panel can switch between sequence and flowchart, copy the source
+ * and embed it into the snippet (`diagram` field).
+ */
+export class SnippetDiagramPreview {
+  public static readonly viewType = 'snippetDiagramPreview';
+
+  private panel?: vscode.WebviewPanel;
+  private extensionUri: vscode.Uri;
+  private source: SnippetDiagramSource;
+  private current = '';
+  private title = '';
+
+  constructor(extensionUri: vscode.Uri, source: SnippetDiagramSource) {
+    this.extensionUri = extensionUri;
+    this.source = source;
+  }
+
+  /**
+   * Show the given Mermaid source (create the panel on first use)
+   */
+  public show(title: string, mermaidSource: string, embedded: boolean): void {
+    this.current = mermaidSource;
+    this.title = title;
+    if (!this.panel) {
+      this.panel = vscode.window.createWebviewPanel(
+        SnippetDiagramPreview.viewType, 'Snippet Diagram', vscode.ViewColumn.Beside, {
+          enableScripts: true,
+          localResourceRoots: [vscode.Uri.joinPath(this.extensionUri, MEDIA_PATH)]
+        });
+      this.panel.onDidDispose(() => {
+        this.panel = undefined;
+      });
+      this.panel.webview.onDidReceiveMessage(message => this.onDidReceiveMessage(message));
+    }
+    this.panel.title = `Diagram: ${title || 'Working Snippet'}`;
+    this.panel.webview.html = this.getHtml(this.panel.webview, mermaidSource, embedded);
+    this.panel.reveal(vscode.ViewColumn.Beside, true);
+  }
+
+  private async onDidReceiveMessage(message: any): Promise<void> {
+    switch (message.command) {
+      case 'generate': {
+        const kind: SnippetDiagramKind = message.kind === 'flowchart' ? 'flowchart' : 'sequence';
+        const mermaidSource = await this.source.generate(kind);
+        this.show(this.title, mermaidSource, false);
+        break;
+      }
+      case 'embed':
+        this.source.embed(this.current);
+        vscode.window.showInformationMessage('Diagram embedded. Save the snippet to keep it.');
+        break;
+      case 'copy':
+        await vscode.env.clipboard.writeText(this.current);
+        vscode.window.showInformationMessage('Mermaid source copied to clipboard.');
+        break;
+    }
+  }
+
+  private getHtml(webview: vscode.Webview, mermaidSource: string, embedded: boolean): string {
+    const nonce = getNonce();
+    const mermaidUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, MEDIA_PATH, MERMAID_SCRIPT));
+    // Keep "</script>" and friends inside the source from closing the script tag
+    const sourceJson = JSON.stringify(mermaidSource).replace(/</g, '\\u003c');
+    const escaped = mermaidSource.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} data:; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; script-src 'nonce-${nonce}';">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 8px 16px; }
+    .toolbar { display: flex; gap: 6px; margin-bottom: 12px; align-items: center; }
+    .toolbar .state { margin-left: auto; opacity: 0.7; font-size: 0.9em; }
+    button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); border: none; padding: 4px 10px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+    button.primary { background: var(--vscode-button-background); color: var(--vscode-button-foreground); }
+    pre { background: var(--vscode-textCodeBlock-background); padding: 8px; overflow: auto; }
+    .error { color: var(--vscode-errorForeground); }
+  </style>
+</head>
+<body>
+  <div class="toolbar">
+    <button data-command="generate" data-kind="sequence">Sequence</button>
+    <button data-command="generate" data-kind="flowchart">Flowchart</button>
+    <button data-command="copy">Copy Source</button>
+    <button data-command="embed" class="primary">Embed in Snippet</button>
+    <span class="state">${embedded ? 'Embedded in snippet' : 'Generated'}</span>
+  </div>
+  <div id="diagram"></div>
+  <div id="message"></div>
+  <pre id="source">${escaped}</pre>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll('button[data-command]').forEach(button => {
+      button.addEventListener('click', () => {
+        vscode.postMessage({ command: button.dataset.command, kind: button.dataset.kind });
+      });
+    });
+  </script>
+  <script nonce="${nonce}" src="${mermaidUri}"></script>
+  <script type="module" nonce="${nonce}">
+    const source = ${sourceJson};
+    try {
+      if (typeof mermaid === 'undefined') {
+        throw new Error('Mermaid is not available');
+      }
+      const dark = document.body.classList.contains('vscode-dark') || document.body.classList.contains('vscode-high-contrast');
+      mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: dark ? 'dark' : 'default' });
+      const { svg } = await mermaid.render('snippet-diagram', source);
+      document.getElementById('diagram').innerHTML = svg;
+      document.getElementById('source').style.display = 'none';
+    } catch (err) {
+      const message = document.getElementById('message');
+      message.className = 'error';
+      message.textContent = 'Cannot render the diagram (' + (err && err.message ? err.message : err) + '). Showing the Mermaid source.';
+    }
+  </script>
+</body>
+</html>`;
+  }
+}
+
+function getNonce(): string {
+  let text = '';
+  const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  for (let i = 0; i < 32; i++) {
+    text += possible.charAt(Math.floor(Math.random() * possible.length));
+  }
+  return text;
+}
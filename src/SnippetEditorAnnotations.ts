@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import { SnippetIndex, SnippetIndexEntry } from './SnippetIndex';
+import { lastCoveredLine } from './SnippetItem';
+
+/**
+ * Opens a snippet in the Working Snippet view at one of its items
+ */
+export type SnippetItemOpener = (snippetPath: string, uid: string) => Promise<void>;
+
+/**
+ * Shows lines referenced by snippet items in source editors:
+ * a gutter icon on the first line of each item, a CodeLens listing the snippets
+ * and a hover with the notes of all items covering the hovered line.
+ */
+export class SnippetEditorAnnotations implements vscode.CodeLensProvider, vscode.HoverProvider {
+  public static readonly openEntriesCommand = 'snippetIndex.openEntries';
+
+  private index: SnippetIndex;
+  private openItem: SnippetItemOpener;
+  private decorationType: vscode.TextEditorDecorationType;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor(context: vscode.ExtensionContext, index: SnippetIndex, openItem: SnippetItemOpener) {
+    this.index = index;
+    this.openItem = openItem;
+    this.decorationType = vscode.window.createTextEditorDecorationType({
+      gutterIconPath: context.asAbsolutePath('media/icon.svg'),
+      gutterIconSize: 'contain',
+      overviewRulerColor: new vscode.ThemeColor('editorInfo.foreground'),
+      overviewRulerLane: vscode.OverviewRulerLane.Left
+    });
+  }
+
+  public register(): vscode.Disposable {
+    return vscode.Disposable.from(
+      this.decorationType,
+      this.changeEmitter,
+      vscode.languages.registerCodeLensProvider({ scheme: 'file' }, this),
+      vscode.languages.registerHoverProvider({ scheme: 'file' }, this),
+      vscode.commands.registerCommand(SnippetEditorAnnotations.openEntriesCommand,
+        (entries: SnippetIndexEntry[]) => this.openEntries(entries)),
+      vscode.window.onDidChangeVisibleTextEditors(() => this.updateDecorations()),
+      this.index.onDidChange(() => {
+        this.updateDecorations();
+        this.changeEmitter.fire();
+      })
+    );
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const byLine = new Map<number, SnippetIndexEntry[]>();
+    for (const entry of this.getEntries(document)) {
+      const line = Math.min(entry.range.startLine, document.lineCount) - 1;
+      byLine.set(line, [...(byLine.get(line) ?? []), entry]);
+    }
+
+    return Array.from(byLine.entries()).map(([line, entries]) => {
+      const titles = Array.from(new Set(entries.map(e => e.snippetTitle)));
+      const noun = entries.length === 1 ? 'snippet note' : 'snippet notes';
+      return new vscode.CodeLens(new vscode.Range(line, 0, line, 0), {
+        title: `${entries.length} ${noun}: ${titles.join(', ')}`,
+        command: SnippetEditorAnnotations.openEntriesCommand,
+        arguments: [entries]
+      });
+    });
+  }
+
+  provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+    const line = position.line + 1;
+    const entries = this.getEntries(document)
+      .filter(e => e.range.startLine <= line && line <= lastCoveredLine(e.range));
+    if (entries.length === 0) {
+      return undefined;
+    }
+
+    const markdown = new vscode.MarkdownString();
+    markdown.isTrusted = { enabledCommands: [SnippetEditorAnnotations.openEntriesCommand] };
+    entries.forEach((entry, i) => {
+      if (i > 0) {
+        markdown.appendMarkdown('\n\n---\n\n');
+      }
+      // parentheses are left alone by encodeURIComponent and would end the link early
+      const args = encodeURIComponent(JSON.stringify([[entry]])).replace(/\(/g, '%28').replace(/\)/g, '%29');
+      markdown.appendMarkdown('**');
+      markdown.appendText(entry.snippetTitle);
+      markdown.appendMarkdown(`** · [go to step ${entry.index + 1} of ${entry.count}]`
+        + `(command:${SnippetEditorAnnotations.openEntriesCommand}?${args})\n\n`);
+      markdown.appendMarkdown(entry.text || '_No note_');
+    });
+    return new vscode.Hover(markdown);
+  }
+
+  /**
+   * Re-apply gutter icons on all visible editors
+   */
+  public updateDecorations(): void {
+    for (const editor of vscode.window.visibleTextEditors) {
+      const lines = new Set(this.getEntries(editor.document)
+        .map(e => Math.min(e.range.startLine, editor.document.lineCount) - 1));
+      editor.setDecorations(this.decorationType,
+        Array.from(lines).map(line => new vscode.Range(line, 0, line, 0)));
+    }
+  }
+
+  private getEntries(document: vscode.TextDocument): SnippetIndexEntry[] {
+    if (document.uri.scheme !== 'file' || !vscode.workspace.getWorkspaceFolder(document.uri)) {
+      return [];
+    }
+    return this.index.getEntries(vscode.workspace.asRelativePath(document.uri, false));
+  }
+
+  /**
+   * Open the single referenced item, or let the user pick one when several snippets share the line
+   */
+  private async openEntries(entries: SnippetIndexEntry[]): Promise<void> {
+    let entry: SnippetIndexEntry | undefined = entries[0];
+    if (entries.length > 1) {
+      const picked = await vscode.window.showQuickPick(
+        entries.map(e => ({
+          label: e.snippetTitle,
+          description: `Step ${e.index + 1} of ${e.count}`,
+          detail: e.snippetPath,
+          entry: e
+        })),
+        { placeHolder: 'Select a snippet to open' }
+      );
+      entry = picked?.entry;
+    }
+    if (entry) {
+      await this.openItem(entry.snippetPath, entry.uid);
+    }
+  }
+}
@@ -1,7 +1,9 @@
 // File: SnippetExplorerCommandHandler.ts
 import { SnippetExplorerListener } from './SnippetExplorerHandler';
-import { ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
-import { ISnippetorApiProvider } from './ISnippetorApiProvider';
+import { FsOperationCancelledError, FsOperationOptions, ISnippetorFilesystemWrapper, ReadonlyMountError } from './ISnippetorFilesystemWrapper';
+import { ISnippetorApiProvider, SnippetProgress } from './ISnippetorApiProvider';
+import { JournalStep, SnippetOperationJournal } from './SnippetOperationJournal';
+import { moveInOrder } from './SnippetFolderOrder';
 
 /**
  * Common interface for command handlers
@@ -22,6 +24,10 @@ export interface BaseCommandParams {
   callbackId: string;
   listener?: SnippetExplorerListener;
   sendCallback: (success: boolean, error: string, callbackId: string, data?: any) => void;
+  // Part of a batch: no messages, the batch shows one summary
+  quiet?: boolean;
+  // Progress of the batch; a single command shows its own progress when needed
+  progress?: SnippetProgress;
 }
 
 /**
@@ -41,12 +47,58 @@ export interface RemoveCommandParams extends BaseCommandParams {
   fullPath: string;
   name: string;
   isFolder: boolean;
+  confirmed?: boolean;  // skip the confirmation (e.g. asked once for a batch)
+}
+
+/**
+ * An item of a batch command
+ */
+export interface BatchItem {
+  path: string;
+  isFolder: boolean;
+}
+
+/**
+ * Outcome of one batch item
+ */
+export interface BatchItemResult extends BatchItem {
+  success: boolean;
+  skipped: boolean;   // destination existed and the user chose to skip it
+  error: string;
+}
+
+/**
+ * Parameters for batch move, copy and remove commands
+ */
+export interface BatchCommandParams extends BaseCommandParams {
+  operation: 'move' | 'copy' | 'remove';
+  items: BatchItem[];
+  targetPath?: string;  // move and copy only
+}
+
+/**
+ * Parameters for reorder command: place a snippet before or after a sibling
+ */
+export interface ReorderCommandParams extends BaseCommandParams {
+  path: string;
+  siblingPath: string;
+  position: 'before' | 'after';
 }
 
 /**
  * Union type for all command parameters
  */
-export type CommandParams = MoveCopyCommandParams | RemoveCommandParams;
+export type CommandParams = MoveCopyCommandParams | RemoveCommandParams | BatchCommandParams | ReorderCommandParams;
+
+/**
+ * Report every copied entry and stop when the user cancels
+ */
+function progressOptions(fsWrapper: ISnippetorFilesystemWrapper, progress: SnippetProgress): FsOperationOptions {
+  return {
+    isCancelled: () => progress.isCancelled(),
+    onProgress: mappedPath => progress.report(fsWrapper.basename(mappedPath))
+  };
+}
 
 /**
  * Base class for command handlers with common functionality
@@ -56,23 +108,63 @@ export abstract class BaseCommandHandler implements ICommandHandler {
   protected listener?: SnippetExplorerListener;
   protected sendCallback: (success: boolean, error: string, callbackId: string, data?: any) => void;
   protected apiProvider: ISnippetorApiProvider;
+  // Records operations for undo/redo (optional)
+  protected journal?: SnippetOperationJournal;
 
   constructor(
     fsWrapper: ISnippetorFilesystemWrapper,
     listener: SnippetExplorerListener | undefined,
     sendCallback: (success: boolean, error: string, callbackId: string, data?: any) => void,
-    apiProvider: ISnippetorApiProvider
+    apiProvider: ISnippetorApiProvider,
+    journal?: SnippetOperationJournal
   ) {
     this.fsWrapper = fsWrapper;
     this.listener = listener;
     this.sendCallback = sendCallback;
     this.apiProvider = apiProvider;
+    this.journal = journal;
   }
 
   abstract execute(params: CommandParams): Promise<void>;
 
+  /**
+   * Show a message to the user unless the command runs quietly
+   */
+  protected notify(params: BaseCommandParams, kind: 'info' | 'warning' | 'error', message: string): void {
+    if (params.quiet) {
+      return;
+    }
+    if (kind === 'info') {
+      this.apiProvider.showInformationMessage(message);
+    } else if (kind === 'warning') {
+      this.apiProvider.showWarningMessage(message);
+    } else {
+      this.apiProvider.showErrorMessage(message);
+    }
+  }
+
+  /**
+   * Move an entry into the trash; with a journal the step is recorded for undo
+   */
+  protected async removeEntry(mappedPath: string, isFolder: boolean, steps: JournalStep[]): Promise<void> {
+    if (this.journal) {
+      steps.push(await this.journal.trash(mappedPath, isFolder));
+    } else {
+      await this.fsWrapper.promises.moveToTrash(mappedPath);
+    }
+  }
+
+  /**
+   * Checks that none of the paths is inside a read-only mount point
+   */
+  protected checkWritable(...mappedPaths: string[]): string | null {
+    const readonlyPath = mappedPaths.find(p => this.fsWrapper.isReadonly(p));
+    return readonlyPath === undefined ? null : new ReadonlyMountError(readonlyPath).message;
+  }
+
   /**
    * Checks that source is not a top-level folder and destination is not root path
+   * and that neither is inside a read-only mount point
    * source and destinationFolder are relative paths
    */
   protected checkSourceAndDestinationPaths(
@@ -86,7 +178,7 @@ export abstract class BaseCommandHandler implements ICommandHandler {
       return `Cannot move top-level folder: ${baseName}`;
     }
 
-    return null;
+    return this.checkWritable(source, destinationFolder);
   }
 
   /**
@@ -105,7 +197,7 @@ export abstract class BaseCommandHandler implements ICommandHandler {
     } else {
       const baseDir = this.fsWrapper.dirname(source);
       if (baseDir === destination) {
-        return `There is no file sort operation support.`;
+        return `The file is already in this folder. Drop it onto a snippet to change the order.`;
       }
     }
 
@@ -116,12 +208,12 @@ export abstract class BaseCommandHandler implements ICommandHandler {
    * Checks that destination exists and is a directory
    * destinationFolder is relative path
    */
-  protected checkDestinationExistsAndIsDir(destinationFolder: string): string | null {
-    if (!this.fsWrapper.exists(destinationFolder)) {
+  protected async checkDestinationExistsAndIsDir(destinationFolder: string): Promise<string | null> {
+    if (!(await this.fsWrapper.promises.exists(destinationFolder))) {
       return `Destination does not exist.`;
     }
 
-    const destStats = this.fsWrapper.stat(destinationFolder);
+    const destStats = await this.fsWrapper.promises.stat(destinationFolder);
     if (!destStats.isDirectory()) {
       return `Destination is not a directory.`;
     }
@@ -154,7 +246,7 @@ export class MoveCommandHandler extends BaseCommandHandler {
       params.isFolder
     );
     if (pathCheckError) {
-      this.apiProvider.showWarningMessage(pathCheckError);
+      this.notify(params, 'warning', pathCheckError);
       this.sendCallback(false, pathCheckError, params.callbackId);
       return;
     }
@@ -166,15 +258,15 @@ export class MoveCommandHandler extends BaseCommandHandler {
       params.isFolder
     );
     if (equalityCheckError) {
-      this.apiProvider.showWarningMessage(equalityCheckError);
+      this.notify(params, 'warning', equalityCheckError);
       this.sendCallback(false, equalityCheckError, params.callbackId);
       return;
     }
 
     // Check 3: Destination exists and is a directory
-    const destExistsError = this.checkDestinationExistsAndIsDir(destinationFolder);
+    const destExistsError = await this.checkDestinationExistsAndIsDir(destinationFolder);
     if (destExistsError) {
-      this.apiProvider.showWarningMessage(`Failed to drop: ${destExistsError}`);
+      this.notify(params, 'warning', `Failed to drop: ${destExistsError}`);
       this.sendCallback(false, `Failed to drop: ${destExistsError}`, params.callbackId);
       return;
     }
@@ -182,26 +274,27 @@ export class MoveCommandHandler extends BaseCommandHandler {
     // Check 4 & 5: Overwrite validation based on source type
     let overwriteCheckError: string | null = null;
     if (params.isFolder) {
-      overwriteCheckError = this.checkFolderMoveOverwrite(destination, baseName, overwrite);
+      overwriteCheckError = await this.checkFolderMoveOverwrite(destination, baseName, overwrite);
     } else {
-      overwriteCheckError = this.checkFileMoveOverwrite(destination, baseName, overwrite);
+      overwriteCheckError = await this.checkFileMoveOverwrite(destination, baseName, overwrite);
     }
 
     if (overwriteCheckError) {
-      this.apiProvider.showErrorMessage(overwriteCheckError);
+      this.notify(params, 'error', overwriteCheckError);
       this.sendCallback(false, overwriteCheckError, params.callbackId);
       return;
     }
 
     // Handle overwrite removal if needed
-    if (this.fsWrapper.exists(destination) && overwrite) {
-      const destStats = this.fsWrapper.stat(destination);
+    const steps: JournalStep[] = [];
+    if (overwrite && await this.fsWrapper.promises.exists(destination)) {
+      const destStats = await this.fsWrapper.promises.stat(destination);
       const destIsFolder = destStats.isDirectory();
 
       try {
-        this.fsWrapper.remove(destination, true);
+        await this.removeEntry(destination, destIsFolder, steps);
       } catch (err: any) {
-        this.apiProvider.showErrorMessage(`Failed to remove existing item: ${err.message}`);
+        this.notify(params, 'error', `Failed to remove existing item: ${err.message}`);
         this.sendCallback(false, `Failed to remove existing item: ${err.message}`, params.callbackId);
         return;
       }
@@ -209,16 +302,18 @@ export class MoveCommandHandler extends BaseCommandHandler {
 
     // Perform the move
     try {
-      this.fsWrapper.rename(source, destination);
+      await this.fsWrapper.promises.rename(source, destination);
+      steps.push({ type: 'rename', from: source, to: destination, isFolder: params.isFolder });
+      this.journal?.record(`Move "${baseName}"`, steps);
       const destFolderName = this.fsWrapper.basename(destinationFolder);
-      this.apiProvider.showInformationMessage(
+      this.notify(params, 'info',
         `Moved "${baseName}" to "${destFolderName}"`
       );
 
       // Notify listener with mapped paths
       if (this.listener) {
         if (overwrite) {
-          if (this.fsWrapper.exists(destination)) {
+          if (await this.fsWrapper.promises.exists(destination)) {
             this.listener.onNodeOverwrite(destination, params.isFolder);
           } else {
             this.listener.onNodeRemoved(destination, params.isFolder);
@@ -230,22 +325,24 @@ export class MoveCommandHandler extends BaseCommandHandler {
 
       this.sendCallback(true, '', params.callbackId);
     } catch (err: any) {
-      this.apiProvider.showErrorMessage(`Move failed: ${err.message}`);
+      // a replaced destination can still be restored
+      this.journal?.record(`Move "${baseName}"`, steps);
+      this.notify(params, 'error', `Move failed: ${err.message}`);
       this.sendCallback(false, `Move failed: ${err.message}`, params.callbackId);
     }
   }
 
-  private checkFileMoveOverwrite(
+  private async checkFileMoveOverwrite(
     destination: string,
     baseName: string,
     overwrite: boolean
-  ): string | null {
+  ): Promise<string | null> {
     // destination is relative path
-    if (!this.fsWrapper.exists(destination)) {
+    if (!(await this.fsWrapper.promises.exists(destination))) {
       return null;
     }
 
-    const destStats = this.fsWrapper.stat(destination);
+    const destStats = await this.fsWrapper.promises.stat(destination);
     const destIsFolder = destStats.isDirectory();
 
     if (destIsFolder) {
@@ -259,17 +356,17 @@ export class MoveCommandHandler extends BaseCommandHandler {
     return null;
   }
 
-  private checkFolderMoveOverwrite(
+  private async checkFolderMoveOverwrite(
     destination: string,
     baseName: string,
     overwrite: boolean
-  ): string | null {
+  ): Promise<string | null> {
     // destination is relative path
-    if (!this.fsWrapper.exists(destination)) {
+    if (!(await this.fsWrapper.promises.exists(destination))) {
       return null;
     }
 
-    const destStats = this.fsWrapper.stat(destination);
+    const destStats = await this.fsWrapper.promises.stat(destination);
     const destIsFolder = destStats.isDirectory();
 
     if (!destIsFolder) {
@@ -306,28 +403,36 @@ export class CopyCommandHandler extends BaseCommandHandler {
 
     // Check if source is a root folder (top-level)
     if (this.fsWrapper.isRootFolder(source)) {
-      this.apiProvider.showWarningMessage(`Cannot copy top-level folder: ${baseName}`);
+      this.notify(params, 'warning', `Cannot copy top-level folder: ${baseName}`);
       this.sendCallback(false, `Cannot copy top-level folder: ${baseName}`, params.callbackId);
       return;
     }
 
+    const readonlyError = this.checkWritable(destinationFolder);
+    if (readonlyError) {
+      this.notify(params, 'warning', readonlyError);
+      this.sendCallback(false, readonlyError, params.callbackId);
+      return;
+    }
+
     if (params.isFolder) {
       if (source === destination || destination.startsWith(source + '/')) {
-        this.apiProvider.showWarningMessage(`Failed to copy folder.`);
+        this.notify(params, 'warning', `Failed to copy folder.`);
         this.sendCallback(false, `Failed to copy folder.`, params.callbackId);
         return;
       }
     }
 
     // Check if destination exists
-    if (this.fsWrapper.exists(destination)) {
-      const destStats = this.fsWrapper.stat(destination);
+    const steps: JournalStep[] = [];
+    if (await this.fsWrapper.promises.exists(destination)) {
+      const destStats = await this.fsWrapper.promises.stat(destination);
       const destIsFolder = destStats.isDirectory();
 
       if (destIsFolder !== params.isFolder) {
         const sourceType = params.isFolder ? 'folder' : 'file';
         const destType = destIsFolder ? 'folder' : 'file';
-        this.apiProvider.showErrorMessage(
+        this.notify(params, 'error',
           `Cannot overwrite ${destType} "${baseName}" with ${sourceType}.`
         );
         this.sendCallback(
@@ -339,49 +444,73 @@ export class CopyCommandHandler extends BaseCommandHandler {
       }
 
       if (!overwrite) {
-        this.apiProvider.showErrorMessage(`Destination "${baseName}" already exists.`);
+        this.notify(params, 'error', `Destination "${baseName}" already exists.`);
         this.sendCallback(false, `Destination already exists.`, params.callbackId);
         return;
       }
 
       // Remove existing item before copying
       try {
-        this.fsWrapper.remove(destination, true);
+        await this.removeEntry(destination, destIsFolder, steps);
       } catch (err: any) {
-        this.apiProvider.showErrorMessage(`Failed to remove existing item: ${err.message}`);
+        this.notify(params, 'error', `Failed to remove existing item: ${err.message}`);
         this.sendCallback(false, `Failed to remove existing item: ${err.message}`, params.callbackId);
         return;
       }
     }
 
     try {
-      this.fsWrapper.copy(source, destination);
+      await this.copyWithProgress(params, source, destination, baseName);
+      if (this.journal) {
+        steps.push(this.journal.created(destination, params.isFolder));
+      }
+      this.journal?.record(`Copy "${baseName}"`, steps);
       const destFolderName = this.fsWrapper.basename(destinationFolder);
       
       if (params.isFolder) {
-        this.apiProvider.showInformationMessage(
+        this.notify(params, 'info',
           `Copied folder "${baseName}" to "${destFolderName}"`
         );
       } else {
-        this.apiProvider.showInformationMessage(
+        this.notify(params, 'info',
           `Copied file "${baseName}" to "${destFolderName}"`
         );
       }
       
       // Notify listener with mapped path
       if (this.listener) {
-        if (overwrite && this.fsWrapper.exists(destination)) {
+        if (overwrite && await this.fsWrapper.promises.exists(destination)) {
           this.listener.onNodeOverwrite(destination, params.isFolder);
         }
       }
       
       this.sendCallback(true, '', params.callbackId);
     } catch (err: any) {
-      this.apiProvider.showErrorMessage(`Copy failed: ${err.message}`);
+      this.journal?.record(`Copy "${baseName}"`, steps);
+      if (err instanceof FsOperationCancelledError) {
+        this.notify(params, 'info', `Copy of "${baseName}" was cancelled`);
+        this.sendCallback(false, `Copy cancelled`, params.callbackId);
+        return;
+      }
+      this.notify(params, 'error', `Copy failed: ${err.message}`);
       this.sendCallback(false, `Copy failed: ${err.message}`, params.callbackId);
     }
   }
 
+  /**
+   * Copying a folder shows a progress notification the copy can be cancelled from
+   */
+  private copyWithProgress(params: MoveCopyCommandParams, source: string, destination: string, baseName: string): Promise<void> {
+    if (params.progress) {
+      return this.fsWrapper.promises.copy(source, destination, progressOptions(this.fsWrapper, params.progress));
+    }
+    if (!params.isFolder) {
+      return this.fsWrapper.promises.copy(source, destination);
+    }
+    return Promise.resolve(this.apiProvider.withProgress(`Copying "${baseName}"`,
+      progress => this.fsWrapper.promises.copy(source, destination, progressOptions(this.fsWrapper, progress))));
+  }
+
   private isMoveCopyParams(params: CommandParams): params is MoveCopyCommandParams {
     return 'sourcePath' in params && 'targetPath' in params;
   }
@@ -396,14 +525,21 @@ export class RemoveCommandHandler extends BaseCommandHandler {
       throw new Error('Invalid parameters for RemoveCommandHandler');
     }
 
+    const readonlyError = this.checkWritable(params.fullPath);
+    if (readonlyError) {
+      this.notify(params, 'warning', readonlyError);
+      this.sendCallback(false, readonlyError, params.callbackId);
+      return;
+    }
+
     return new Promise((resolve) => {
-      const confirmed = this.apiProvider.showWarningMessage(
-        `Delete "${params.name}"?`,
+      const confirmed = params.confirmed ? Promise.resolve('Yes') : this.apiProvider.showWarningMessage(
+        `Move "${params.name}" to the Trash?`,
         true, // modal
         'Yes'
       );
 
-      confirmed.then((data) => {
+      confirmed.then(async (data) => {
         if (data === 'Yes') {
           try {
             // Notify listener with mapped path
@@ -411,12 +547,14 @@ export class RemoveCommandHandler extends BaseCommandHandler {
               this.listener.onNodeRemoved(params.fullPath, params.isFolder);
             }
 
-            this.fsWrapper.remove(params.fullPath, true);
+            const steps: JournalStep[] = [];
+            await this.removeEntry(params.fullPath, params.isFolder, steps);
+            this.journal?.record(`Delete "${params.name}"`, steps);
 
             this.sendCallback(true, '', params.callbackId, { path: params.fullPath });
             resolve();
           } catch (err: any) {
-            this.apiProvider.showErrorMessage(`Delete failed: ${err.message}`);
+            this.notify(params, 'error', `Delete failed: ${err.message}`);
             this.sendCallback(false, `Delete failed: ${err.message}`, params.callbackId);
             resolve();
           }
@@ -432,3 +570,215 @@ export class RemoveCommandHandler extends BaseCommandHandler {
     return 'fullPath' in params && 'name' in params && !('sourcePath' in params);
   }
 }
+
+/**
+ * Handler for move, copy and remove of several items: one confirmation,
+ * one undo entry and one summary message for the whole batch
+ */
+export class BatchCommandHandler extends BaseCommandHandler {
+  async execute(params: CommandParams): Promise<void> {
+    if (!this.isBatchParams(params)) {
+      throw new Error('Invalid parameters for BatchCommandHandler');
+    }
+
+    // items inside a selected folder go with their folder
+    const items = params.items.filter(item =>
+      !params.items.some(other => other.isFolder && item.path.startsWith(other.path + '/')));
+    if (items.length === 0) {
+      this.sendCallback(true, '', params.callbackId, { results: [] });
+      return;
+    }
+    const readonlyError = params.operation === 'copy'
+      ? this.checkWritable(params.targetPath!)
+      : this.checkWritable(...items.map(item => item.path), ...(params.targetPath ? [params.targetPath] : []));
+    if (readonlyError) {
+      this.apiProvider.showWarningMessage(readonlyError);
+      this.sendCallback(false, readonlyError, params.callbackId);
+      return;
+    }
+    const skipped = new Set<string>();
+    const replaced = new Set<string>();
+
+    // one confirmation for the whole batch
+    let question: string;
+    let choices: string[] = ['Yes'];
+    if (params.operation === 'remove') {
+      question = `Move ${this.describe(items)} to the Trash?`;
+    } else {
+      const targetName = this.fsWrapper.basename(params.targetPath!);
+      question = `${this.operationLabel(params.operation)} ${this.describe(items)} to "${targetName}"?`;
+      const conflicts: BatchItem[] = [];
+      for (const item of items) {
+        const destination = this.destinationOf(item, params.targetPath!);
+        if (destination !== item.path && await this.fsWrapper.promises.exists(destination)) {
+          conflicts.push(item);
+        }
+      }
+      if (conflicts.length > 0) {
+        question += ` ${conflicts.length === 1 ? '1 item already exists' : `${conflicts.length} items already exist`} there.`;
+        choices = ['Replace', 'Skip'];
+      }
+      conflicts.forEach(item => replaced.add(item.path));
+    }
+    const answer = await this.apiProvider.showWarningMessage(question, true, ...choices);
+    if (answer === undefined) {
+      this.sendCallback(true, '', params.callbackId, { results: [], cancelled: true });
+      return;
+    }
+    if (answer === 'Skip') {
+      replaced.forEach(path => skipped.add(path));
+      replaced.clear();
+    }
+
+    const results: BatchItemResult[] = [];
+    this.journal?.beginGroup();
+    try {
+      await this.apiProvider.withProgress(`${this.progressLabel(params.operation)} ${this.describe(items)}`, async progress => {
+        for (const item of items) {
+          if (skipped.has(item.path)) {
+            results.push({ ...item, success: false, skipped: true, error: '' });
+          } else if (progress.isCancelled()) {
+            results.push({ ...item, success: false, skipped: false, error: 'cancelled' });
+          } else {
+            progress.report(this.fsWrapper.basename(item.path));
+            results.push(await this.executeItem(params, item, replaced.has(item.path), progress));
+          }
+        }
+      });
+    } finally {
+      this.journal?.endGroup(`${this.operationLabel(params.operation)} ${this.describe(items)}`);
+    }
+
+    this.showSummary(params, results);
+    // nothing done: the whole batch failed, like a single failed command
+    const failed = results.filter(r => !r.success && !r.skipped);
+    if (failed.length > 0 && !results.some(r => r.success)) {
+      this.sendCallback(false, this.describeFailures(failed), params.callbackId, { results });
+      return;
+    }
+    this.sendCallback(true, '', params.callbackId, { results });
+  }
+
+  private async executeItem(
+    params: BatchCommandParams, item: BatchItem, overwrite: boolean, progress: SnippetProgress
+  ): Promise<BatchItemResult> {
+    const result: BatchItemResult = { ...item, success: false, skipped: false, error: '' };
+    const capture = (success: boolean, error: string) => {
+      result.success = success;
+      result.error = error;
+    };
+    const common = { callbackId: params.callbackId, listener: this.listener, sendCallback: capture, quiet: true, progress };
+
+    if (params.operation === 'remove') {
+      await new RemoveCommandHandler(this.fsWrapper, this.listener, capture, this.apiProvider, this.journal)
+        .execute({ ...common, fullPath: item.path, name: this.fsWrapper.basename(item.path), isFolder: item.isFolder, confirmed: true });
+    } else {
+      const Handler = params.operation === 'move' ? MoveCommandHandler : CopyCommandHandler;
+      await new Handler(this.fsWrapper, this.listener, capture, this.apiProvider, this.journal)
+        .execute({ ...common, sourcePath: item.path, targetPath: params.targetPath!, isFolder: item.isFolder, overwrite });
+    }
+    return result;
+  }
+
+  private showSummary(params: BatchCommandParams, results: BatchItemResult[]): void {
+    const done = results.filter(r => r.success);
+    const failed = results.filter(r => !r.success && !r.skipped);
+    const skippedCount = results.length - done.length - failed.length;
+
+    const destination = params.operation === 'remove'
+      ? 'to the Trash'
+      : `to "${this.fsWrapper.basename(params.targetPath!)}"`;
+    const verb = params.operation === 'copy' ? 'Copied' : 'Moved';
+    const count = done.length === results.length ? this.describe(results) : `${done.length} of ${results.length} items`;
+    let message = `${verb} ${count} ${destination}`;
+    if (skippedCount > 0) {
+      message += `, skipped ${skippedCount} existing`;
+    }
+    if (failed.length === 0) {
+      this.apiProvider.showInformationMessage(message);
+      return;
+    }
+    this.apiProvider.showWarningMessage(`${message}. Failed: ${this.describeFailures(failed)}`);
+  }
+
+  private describeFailures(failed: BatchItemResult[]): string {
+    return failed.map(r => `${this.fsWrapper.basename(r.path)} (${r.error})`).join('; ');
+  }
+
+  private destinationOf(item: BatchItem, targetPath: string): string {
+    return this.fsWrapper.join(targetPath, this.fsWrapper.basename(item.path));
+  }
+
+  private describe(items: BatchItem[]): string {
+    return items.length === 1 ? `"${this.fsWrapper.basename(items[0].path)}"` : `${items.length} items`;
+  }
+
+  private operationLabel(operation: BatchCommandParams['operation']): string {
+    return operation === 'move' ? 'Move' : operation === 'copy' ? 'Copy' : 'Delete';
+  }
+
+  private progressLabel(operation: BatchCommandParams['operation']): string {
+    return operation === 'move' ? 'Moving' : operation === 'copy' ? 'Copying' : 'Deleting';
+  }
+
+  private isBatchParams(params: CommandParams): params is BatchCommandParams {
+    return 'operation' in params && 'items' in params;
+  }
+}
+
+/**
+ * Handler for reordering the snippets of a folder.
+ * The new order is written to the folder's order file; folders stay sorted by name.
+ */
+export class ReorderCommandHandler extends BaseCommandHandler {
+  async execute(params: CommandParams): Promise<void> {
+    if (!this.isReorderParams(params)) {
+      throw new Error('Invalid parameters for ReorderCommandHandler');
+    }
+
+    const folder = this.fsWrapper.dirname(params.path);
+    const error = await this.checkReorder(params.path, params.siblingPath, folder);
+    if (error) {
+      this.notify(params, 'warning', error);
+      this.sendCallback(false, error, params.callbackId);
+      return;
+    }
+
+    try {
+      const names = (await this.fsWrapper.promises.readDirectory(folder))
+        .filter(entry => !entry.isFolder)
+        .map(entry => entry.name);
+      await this.fsWrapper.promises.setOrder(folder, moveInOrder(names,
+        this.fsWrapper.basename(params.path), this.fsWrapper.basename(params.siblingPath), params.position));
+      this.sendCallback(true, '', params.callbackId, { children: await this.fsWrapper.promises.readDirectory(folder) });
+    } catch (err: any) {
+      this.notify(params, 'error', `Reorder failed: ${err.message}`);
+      this.sendCallback(false, `Reorder failed: ${err.message}`, params.callbackId);
+    }
+  }
+
+  private async checkReorder(path: string, siblingPath: string, folder: string): Promise<string | null> {
+    if (path === siblingPath) {
+      return null;
+    }
+    const readonlyError = this.checkWritable(folder);
+    if (readonlyError) {
+      return readonlyError;
+    }
+    if (this.fsWrapper.dirname(siblingPath) !== folder) {
+      return `Snippets can only be reordered within their folder.`;
+    }
+    if (!(await this.fsWrapper.promises.exists(path)) || !(await this.fsWrapper.promises.exists(siblingPath))) {
+      return `Failed to reorder: the file does not exist.`;
+    }
+    if ((await this.fsWrapper.promises.stat(path)).isDirectory() ||
+        (await this.fsWrapper.promises.stat(siblingPath)).isDirectory()) {
+      return `Folders are always sorted by name.`;
+    }
+    return null;
+  }
+
+  private isReorderParams(params: CommandParams): params is ReorderCommandParams {
+    return 'path' in params && 'siblingPath' in params && 'position' in params;
+  }
+}
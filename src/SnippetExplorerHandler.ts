@@ -3,25 +3,41 @@ import {
   MoveCommandHandler,
   CopyCommandHandler,
   RemoveCommandHandler,
+  BatchCommandHandler,
+  ReorderCommandHandler,
   MoveCopyCommandParams,
-  RemoveCommandParams
+  RemoveCommandParams,
+  BatchCommandParams,
+  ReorderCommandParams
 } from './SnippetExplorerCommandHandler';
-import { ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
+import { ConfigLoadResult, ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
 import { ISnippetorWebViewHandler } from './ISnippetorWebViewHandler';
 import { ISnippetorApiProvider } from './ISnippetorApiProvider';
+import { SnippetSearchIndex } from './SnippetSearchIndex';
+import { serializeSnippetContent } from './SnippetFileReader';
+import { SnippetFolderChange } from './SnippetFolderWatcher';
+import { SnippetOperationJournal } from './SnippetOperationJournal';
+import { DEFAULT_TRASH_RETENTION_DAYS, SnippetTrash, TRASH_PATH, isTrashPath, trashIdOf } from './SnippetTrash';
 
 export interface SnippetExplorerListener {
   onNodeRenamed(oldNode: string, newNode: string, isFolder: boolean): void;
   onNodeMoved(oldNode: string, newNode: string, isFolder: boolean): void;
   onNodeRemoved(node: string, isFolder: boolean): void;
   onNodeOverwrite(node: string, isFolder: boolean): void;
-  onNodeActivate(nodePath: string, isFolder: boolean): void;
+  // itemUid: item to scroll to in the Working Snippet view (e.g. a search hit)
+  onNodeActivate(nodePath: string, isFolder: boolean, itemUid?: string): void;
 }
 
 export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
   public static readonly viewType = 'snippetExplorer.webview';
-  private listener?: SnippetExplorerListener;
+  private listener: SnippetExplorerListenerGroup;
+  private searchIndex: SnippetSearchIndex;
+  private journal: SnippetOperationJournal;
+  private trash: SnippetTrash;
+  private trashRetentionDays = DEFAULT_TRASH_RETENTION_DAYS;
   private readonly treeStateKey = 'snippetExplorer.treeState';
+  // Workspace configs whose problems are shown, cleared when their folder leaves the workspace
+  private workspaceConfigPaths = new Set<string>();
   private fsWrapper: ISnippetorFilesystemWrapper;
   // API provider for VSCode operations (set via setApiProvider)
   private apiProvider!: ISnippetorApiProvider;
@@ -30,6 +46,12 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
     fsWrapper: ISnippetorFilesystemWrapper
   ) {
     this.fsWrapper = fsWrapper;
+    this.searchIndex = new SnippetSearchIndex(fsWrapper);
+    this.listener = new SnippetExplorerListenerGroup([this.searchIndex]);
+    this.journal = new SnippetOperationJournal(fsWrapper);
+    this.trash = new SnippetTrash(fsWrapper);
+    // deletions and their undo move entries into and out of the trash
+    this.journal.onDidChange(() => this.notifyTrashChanged());
   }
 
   public setApiProvider(apiProvider: ISnippetorApiProvider): void {
@@ -39,7 +61,24 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
   }
 
   public setListener(listener: SnippetExplorerListener): void {
-    this.listener = listener;
+    // the search index always follows explorer operations
+    this.listener = new SnippetExplorerListenerGroup([listener, this.searchIndex]);
+  }
+
+  public getSearchIndex(): SnippetSearchIndex {
+    return this.searchIndex;
+  }
+
+  public getJournal(): SnippetOperationJournal {
+    return this.journal;
+  }
+
+  /**
+   * Set the retention period of trashed entries (days, 0 = forever) and purge older ones
+   */
+  public setTrashRetentionDays(days: number): void {
+    this.trashRetentionDays = days;
+    this.purgeTrash();
   }
 
   // Implement ISnippetorWebViewHandler interface
@@ -59,13 +98,15 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
   async onDidReceiveMessage(message: any): Promise<void> {
       switch (message.type) {
         case 'ready': {
-          const children = this.getRootChildren();
+          const children = await this.getRootChildren();
           const treeState = this.getTreeState();
           this.sendCallback(true, '', message.callbackId, {children, treeState});
           break;
         }
         case 'expand': {
-          const children = this.readDirectory(this.toMappedPath(message.path));
+          const children = isTrashPath(message.path)
+            ? await this.trash.getNodes()
+            : await this.readDirectory(this.toMappedPath(message.path));
           this.sendCallback(true, '', message.callbackId, children);
           break;
         }
@@ -74,8 +115,15 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
           const parentDir = this.fsWrapper.dirname(oldMappedPath);
           const newMappedPath = `${parentDir}/${message.newName}`;
           try {
-            const isDir = this.fsWrapper.stat(oldMappedPath).isDirectory();
-            this.fsWrapper.rename(oldMappedPath, newMappedPath);
+            const isDir = (await this.fsWrapper.promises.stat(oldMappedPath)).isDirectory();
+            // rename would replace the sibling, and undo could not bring it back (case-only renames are fine)
+            if (newMappedPath.toLowerCase() !== oldMappedPath.toLowerCase()
+              && await this.fsWrapper.promises.exists(newMappedPath)) {
+              throw new Error(`"${message.newName}" already exists`);
+            }
+            await this.fsWrapper.promises.rename(oldMappedPath, newMappedPath);
+            this.journal.record(`Rename "${this.fsWrapper.basename(oldMappedPath)}"`,
+              [{ type: 'rename', from: oldMappedPath, to: newMappedPath, isFolder: isDir }]);
             if (this.listener) {
               this.listener.onNodeRenamed(oldMappedPath, newMappedPath, isDir);
             }
@@ -88,7 +136,7 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
         }
         case 'move': {
           const handler = new MoveCommandHandler(
-            this.fsWrapper, this.listener, this.sendCallback.bind(this), this.apiProvider
+            this.fsWrapper, this.listener, this.sendCallback.bind(this), this.apiProvider, this.journal
           );
           const params: MoveCopyCommandParams = {
             sourcePath: this.toMappedPath(message.sourcePath),
@@ -106,7 +154,7 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
         }
         case 'copy': {
           const handler = new CopyCommandHandler(
-            this.fsWrapper, this.listener, this.sendCallback.bind(this), this.apiProvider
+            this.fsWrapper, this.listener, this.sendCallback.bind(this), this.apiProvider, this.journal
           );
           const params: MoveCopyCommandParams = {
             sourcePath: this.toMappedPath(message.sourcePath),
@@ -123,12 +171,12 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
           break;
         }
         case 'checkDestination': {
-          this.checkDestination(this.toMappedPath(message.destinationPath), message.callbackId);
+          await this.checkDestination(this.toMappedPath(message.destinationPath), message.callbackId);
           break;
         }
         case 'remove': {
           const handler = new RemoveCommandHandler(
-            this.fsWrapper, this.listener, this.sendCallback.bind(this), this.apiProvider
+            this.fsWrapper, this.listener, this.sendCallback.bind(this), this.apiProvider, this.journal
           );
           const params: RemoveCommandParams = {
             fullPath: this.toMappedPath(message.fullPath),
@@ -143,12 +191,107 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
           });
           break;
         }
+        case 'moveItems':
+        case 'copyItems':
+        case 'removeItems': {
+          const handler = new BatchCommandHandler(
+            this.fsWrapper, this.listener, this.sendCallback.bind(this), this.apiProvider, this.journal
+          );
+          const params: BatchCommandParams = {
+            operation: message.type === 'moveItems' ? 'move' : message.type === 'copyItems' ? 'copy' : 'remove',
+            items: (message.items || []).map((item: any) => ({
+              path: this.toMappedPath(item.path),
+              isFolder: !!item.isFolder
+            })),
+            targetPath: message.targetPath ? this.toMappedPath(message.targetPath) : undefined,
+            callbackId: message.callbackId,
+            listener: this.listener,
+            sendCallback: this.sendCallback.bind(this)
+          };
+          handler.execute(params).catch(err => {
+            this.apiProvider.showErrorMessage(`Operation failed: ${err}`);
+          });
+          break;
+        }
+        case 'reorder': {
+          const handler = new ReorderCommandHandler(
+            this.fsWrapper, this.listener, this.sendCallback.bind(this), this.apiProvider, this.journal
+          );
+          const params: ReorderCommandParams = {
+            path: this.toMappedPath(message.path),
+            siblingPath: this.toMappedPath(message.siblingPath),
+            position: message.position === 'after' ? 'after' : 'before',
+            callbackId: message.callbackId,
+            listener: this.listener,
+            sendCallback: this.sendCallback.bind(this)
+          };
+          handler.execute(params).catch(err => {
+            this.apiProvider.showErrorMessage(`Reorder operation failed: ${err}`);
+          });
+          break;
+        }
+        case 'restorePreviousVersion': {
+          await this.restorePreviousVersion(this.toMappedPath(message.path));
+          break;
+        }
+        case 'restoreFromTrash': {
+          try {
+            this.applyFileChanges([await this.trash.restore(trashIdOf(message.path))]);
+            this.notifyTrashChanged();
+            this.sendCallback(true, '', message.callbackId, {});
+          } catch (err: any) {
+            this.apiProvider.showErrorMessage(`Restore failed: ${err.message}`);
+            this.sendCallback(false, `Restore failed: ${err.message}`, message.callbackId, {});
+          }
+          break;
+        }
+        case 'deleteFromTrash': {
+          await this.deleteFromTrash(message.path, message.name);
+          this.sendCallback(true, '', message.callbackId, {});
+          break;
+        }
+        case 'emptyTrash': {
+          await this.emptyTrash();
+          this.sendCallback(true, '', message.callbackId, {});
+          break;
+        }
+        case 'undo': {
+          await this.undo();
+          break;
+        }
+        case 'redo': {
+          await this.redo();
+          break;
+        }
         case 'createFolder': {
-          this.createFolder(message.path, message.callbackId);
+          await this.createFolder(message.path, message.callbackId);
           break;
         }
         case 'createSnippet': {
-          this.createSnippet(message.path, message.callbackId);
+          await this.createSnippet(message.path, message.callbackId);
+          break;
+        }
+        case 'search': {
+          try {
+            const results = await this.searchIndex.search(message.query || '');
+            this.sendCallback(true, '', message.callbackId, results);
+          } catch (err: any) {
+            this.sendCallback(false, `Search failed: ${err.message}`, message.callbackId, []);
+          }
+          break;
+        }
+        case 'getTags': {
+          try {
+            this.sendCallback(true, '', message.callbackId, await this.searchIndex.getSnippetTags());
+          } catch (err: any) {
+            this.sendCallback(false, `Failed to read tags: ${err.message}`, message.callbackId, {});
+          }
+          break;
+        }
+        case 'openSearchResult': {
+          if (this.listener) {
+            this.listener.onNodeActivate(this.toMappedPath(message.path), false, message.uid || undefined);
+          }
           break;
         }
         case 'openFile': {
@@ -163,6 +306,20 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
           await this.apiProvider.openFile(this.fsWrapper.resolve(mappedPath), 0);
           break;
         }
+        case 'checkStaleness': {
+          await this.apiProvider.executeCommand('snippetExplorer.checkStaleness', this.toMappedPath(message.path));
+          break;
+        }
+        case 'importCodeTour':
+        case 'exportCodeTour': {
+          await this.apiProvider.executeCommand(`snippetExplorer.${message.type}`, this.toMappedPath(message.path));
+          break;
+        }
+        case 'exportMarkdown': {
+          await this.apiProvider.executeCommand(
+            'snippetExplorer.exportMarkdown', this.toMappedPath(message.path), message.isFolder === true);
+          break;
+        }
         case 'saveTreeState': {
           this.saveTreeState(message.expandedPaths || []);
           break;
@@ -199,11 +356,11 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
     return this.fsWrapper.mapPath(pathInput);
   }
 
-  private checkDestination(destinationPath: string, callbackId: string) {
+  private async checkDestination(destinationPath: string, callbackId: string): Promise<void> {
     // destinationPath is relative path
     try {
-      if (this.fsWrapper.exists(destinationPath)) {
-        const stats = this.fsWrapper.stat(destinationPath);
+      if (await this.fsWrapper.promises.exists(destinationPath)) {
+        const stats = await this.fsWrapper.promises.stat(destinationPath);
         this.sendCallback(true, '', callbackId, {
           exists: true,
           isFolder: stats.isDirectory()
@@ -221,26 +378,32 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
 
 
 
-  private getRootChildren(): {name: string; fullPath: string; isFolder: boolean}[] {
-    return this.fsWrapper.getRootChildren(); // fullPath is already a mapped path
+  private async getRootChildren(): Promise<{name: string; fullPath: string; isFolder: boolean; isTrash?: boolean; readonly?: boolean; origin?: string}[]> {
+    // fullPath is already a mapped path; the Trash node always comes last
+    return [
+      ...await this.fsWrapper.promises.getRootChildren(),
+      { name: 'Trash', fullPath: TRASH_PATH, isFolder: true, isTrash: true }
+    ];
   }
 
-  private readDirectory(mappedPath: string): {name: string; fullPath: string; isFolder: boolean}[] {
-    return this.fsWrapper.readDirectory(mappedPath); // fullPath is already a mapped path
+  private readDirectory(mappedPath: string): Promise<{name: string; fullPath: string; isFolder: boolean}[]> {
+    return this.fsWrapper.promises.readDirectory(mappedPath); // fullPath is already a mapped path
   }
 
 
   async refresh(): Promise<void> {
     // Reload config on refresh
     const result = this.fsWrapper.reloadConfig();
-    
+    this.showConfigDiagnostics(result);
+
     if (!result.isValid && result.error) {
       const defaultFolders = this.fsWrapper.getFolders();
       const defaultFoldersExist = defaultFolders.length > 0;
       await this.showInvalidConfigDialog(result.error, defaultFoldersExist);
     }
+    this.showInvalidWorkspaceConfigs(result);
 
-    const children = this.getRootChildren();
+    const children = await this.getRootChildren();
     const treeState = this.getTreeState();
     this.apiProvider.postMessage({
       type: 'refresh',
@@ -248,6 +411,181 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
     });
   }
 
+  /**
+   * Replace a snippet with its previous version (after confirmation); the replaced
+   * content becomes the previous version, so a restore can be reverted the same way
+   */
+  private async restorePreviousVersion(relativePath: string): Promise<void> {
+    const name = this.fsWrapper.basename(relativePath);
+    if (!this.fsWrapper.hasBackup(relativePath)) {
+      this.apiProvider.showInformationMessage(`No previous version of "${name}"`);
+      return;
+    }
+    const answer = await this.apiProvider.showWarningMessage(
+      `Replace "${name}" with its previous version?`, true, 'Restore'
+    );
+    if (answer !== 'Restore') {
+      return;
+    }
+    try {
+      await this.fsWrapper.promises.restoreBackup(relativePath);
+    } catch (err: any) {
+      this.apiProvider.showErrorMessage(`Restore failed: ${err.message}`);
+      return;
+    }
+    await this.searchIndex.updateSnippet(relativePath);
+    // an open snippet offers to reload
+    this.applyFileChanges([{ type: 'changed', path: relativePath }]);
+  }
+
+  /**
+   * Delete a single trashed entry permanently (after confirmation)
+   */
+  private async deleteFromTrash(trashPath: string, name: string): Promise<void> {
+    const answer = await this.apiProvider.showWarningMessage(
+      `Permanently delete "${name}"? This cannot be undone.`, true, 'Delete'
+    );
+    if (answer !== 'Delete') {
+      return;
+    }
+    try {
+      await this.trash.delete(trashIdOf(trashPath));
+    } catch (err: any) {
+      this.apiProvider.showErrorMessage(`Delete failed: ${err.message}`);
+    }
+    this.notifyTrashChanged();
+  }
+
+  /**
+   * Delete everything in the trash permanently (after confirmation)
+   */
+  public async emptyTrash(): Promise<void> {
+    const answer = await this.apiProvider.showWarningMessage(
+      'Permanently delete all items in the Trash? This cannot be undone.', true, 'Empty Trash'
+    );
+    if (answer !== 'Empty Trash') {
+      return;
+    }
+    try {
+      await this.trash.empty();
+    } catch (err: any) {
+      this.apiProvider.showErrorMessage(`Empty Trash failed: ${err.message}`);
+    }
+    this.notifyTrashChanged();
+  }
+
+  /**
+   * Delete trashed entries older than the retention period
+   */
+  public async purgeTrash(): Promise<void> {
+    try {
+      if (await this.trash.purge(this.trashRetentionDays) > 0) {
+        this.notifyTrashChanged();
+      }
+    } catch {
+      // retried on next refresh
+    }
+  }
+
+  /**
+   * Ask the explorer to reload the children of the Trash node
+   */
+  public notifyTrashChanged(): void {
+    this.apiProvider?.postMessage({type: 'trashChanged', data: {}});
+  }
+
+  /**
+   * Revert the last explorer file operation
+   */
+  public async undo(): Promise<void> {
+    const label = this.journal.getUndoLabel();
+    if (!label) {
+      this.apiProvider.showInformationMessage('Nothing to undo');
+      return;
+    }
+    try {
+      this.applyFileChanges(await this.journal.undo());
+    } catch (err: any) {
+      this.apiProvider.showErrorMessage(`Undo ${label} failed: ${err.message}`);
+      // some steps may have been applied
+      await this.refresh();
+    }
+  }
+
+  /**
+   * Repeat the last undone explorer file operation
+   */
+  public async redo(): Promise<void> {
+    const label = this.journal.getRedoLabel();
+    if (!label) {
+      this.apiProvider.showInformationMessage('Nothing to redo');
+      return;
+    }
+    try {
+      this.applyFileChanges(await this.journal.redo());
+    } catch (err: any) {
+      this.apiProvider.showErrorMessage(`Redo ${label} failed: ${err.message}`);
+      // some steps may have been applied
+      await this.refresh();
+    }
+  }
+
+  /**
+   * Show file changes (made outside the extension, or by undo/redo) in the tree
+   * without a full refresh and pass them to the listeners, so an open snippet can be reloaded
+   */
+  public applyFileChanges(changes: SnippetFolderChange[]): void {
+    for (const change of changes) {
+      switch (change.type) {
+        case 'added': {
+          this.apiProvider.postMessage({
+            type: 'addNode',
+            data: {
+              name: this.fsWrapper.basename(change.path),
+              fullPath: change.path,
+              isFolder: change.isFolder,
+              parentPath: this.fsWrapper.dirname(change.path)
+            }
+          });
+          // new content for the search index, like a copy onto a free path
+          this.searchIndex.onNodeOverwrite(change.path, change.isFolder);
+          break;
+        }
+        case 'removed': {
+          this.apiProvider.postMessage({type: 'removeNode', data: {fullPath: change.path}});
+          this.listener.onNodeRemoved(change.path, change.isFolder);
+          break;
+        }
+        case 'renamed': {
+          this.apiProvider.postMessage({
+            type: 'renameNode',
+            data: {
+              oldPath: change.oldPath,
+              name: this.fsWrapper.basename(change.newPath),
+              fullPath: change.newPath,
+              isFolder: change.isFolder,
+              parentPath: this.fsWrapper.dirname(change.newPath)
+            }
+          });
+          this.listener.onNodeRenamed(change.oldPath, change.newPath, change.isFolder);
+          break;
+        }
+        case 'changed': {
+          this.listener.onNodeOverwrite(change.path, false);
+          break;
+        }
+      }
+    }
+    this.notifyTagsChanged();
+  }
+
+  /**
+   * Ask the explorer to reload the tag filter (tags of a snippet were saved)
+   */
+  public notifyTagsChanged(): void {
+    this.apiProvider.postMessage({type: 'tagsChanged', data: {}});
+  }
+
   public notifyNewSnippetCreated(relativePath: string, parentDir: string): void {
     const fileName = this.fsWrapper.basename(relativePath);
     this.apiProvider.postMessage({
@@ -270,9 +608,46 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
   }
 
   public async openConfig(): Promise<void> {
+    this.showConfigDiagnostics(this.fsWrapper.loadFoldersFromConfig());
     await this.apiProvider.openFile(this.fsWrapper.getConfigAbsolutePath(), 0);
   }
 
+  /**
+   * Problems of config.json and of the workspace configs in the Problems panel (cleared once the config is fixed)
+   */
+  private showConfigDiagnostics(result: ConfigLoadResult): void {
+    this.apiProvider.setFileDiagnostics(this.fsWrapper.getConfigAbsolutePath(), result.diagnostics ?? []);
+    const shown = new Set<string>();
+    for (const config of result.workspaceConfigs ?? []) {
+      this.apiProvider.setFileDiagnostics(config.configPath, config.diagnostics);
+      shown.add(config.configPath);
+    }
+    this.workspaceConfigPaths.forEach(configPath => {
+      if (!shown.has(configPath)) {
+        this.apiProvider.setFileDiagnostics(configPath, []);
+      }
+    });
+    this.workspaceConfigPaths = shown;
+  }
+
+  /**
+   * An invalid workspace config only hides its own mount points, so it gets a warning, not a dialog
+   */
+  private showInvalidWorkspaceConfigs(result: ConfigLoadResult): void {
+    for (const config of result.workspaceConfigs ?? []) {
+      if (!config.error) {
+        continue;
+      }
+      Promise.resolve(this.apiProvider.showWarningMessage(
+        `Invalid .snippetor/config.json in "${config.origin}": ${config.error}`, 'Open Config'
+      )).then(answer => {
+        if (answer === 'Open Config') {
+          this.apiProvider.openFile(config.configPath, 0);
+        }
+      }).catch(() => {});
+    }
+  }
+
   private async showInvalidConfigDialog(error: string, defaultFoldersExist: boolean): Promise<void> {
     const message = `Invalid config.json: ${error}`;
     const options: string[] = ['Open Config'];
@@ -298,16 +673,18 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
 
   private initializeStorage() {
     const result = this.fsWrapper.loadFoldersFromConfig();
-    
+    this.showConfigDiagnostics(result);
+
     if (!result.isValid && result.error) {
       const defaultFolders = this.fsWrapper.getFolders();
       const defaultFoldersExist = defaultFolders.length > 0;
       // Fire and forget - can't await in constructor
       this.showInvalidConfigDialog(result.error, defaultFoldersExist).catch(() => {});
     }
+    this.showInvalidWorkspaceConfigs(result);
   }
 
-  public saveSnippetToFile(payload: any) {
+  public async saveSnippetToFile(payload: any): Promise<void> {
     if (!payload?.path || typeof payload.path !== 'string') {
       this.apiProvider.showErrorMessage('Invalid snippet path.');
       return;
@@ -317,17 +694,23 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
     const relativePath = payload.path;
     const parentDir = this.fsWrapper.dirname(relativePath);
 
-    if (!this.fsWrapper.exists(parentDir)) {
+    if (!(await this.fsWrapper.promises.exists(parentDir))) {
       this.apiProvider.showErrorMessage(`Directory does not exist: ${parentDir}`);
       return;
     }
 
-    // Exclude path from payload
-    const {path: _ignored, ...content} = payload;
-    const jsonData = JSON.stringify(content, null, 2);
+    const jsonData = serializeSnippetContent({
+      title: payload.title ?? '',
+      description: payload.description ?? '',
+      tags: payload.tags,
+      snippets: payload.snippets || [],
+      diagram: payload.diagram
+    });
 
     try {
-      this.fsWrapper.writeFile(relativePath, jsonData, 'utf-8');
+      // the replaced version stays available as "Restore Previous Version"
+      await this.fsWrapper.promises.backupFile(relativePath);
+      await this.fsWrapper.promises.writeFile(relativePath, jsonData, 'utf-8');
       this.apiProvider.showInformationMessage(`Snippet saved to: ${this.fsWrapper.resolve(relativePath)}`);
       // Notify explorer view to add the new snippet if parent folder is expanded
       this.notifyNewSnippetCreated(relativePath, parentDir);
@@ -376,8 +759,9 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
     const relativePath = newPath.endsWith('.snippet') ? newPath : newPath + '.snippet';
     
     try {
-      this.fsWrapper.writeFile(
-          relativePath, JSON.stringify({title: '', description: '', snippets: []}), 'utf-8');
+      await this.fsWrapper.promises.writeFile(
+          relativePath, serializeSnippetContent({title: '', description: '', snippets: []}), 'utf-8');
+      await this.searchIndex.updateSnippet(relativePath);
       this.sendCallback(true, '', callbackId);
     } catch (err: any) {
       this.apiProvider.showErrorMessage(
@@ -395,13 +779,13 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
     }
     
     try {
-      if (this.fsWrapper.exists(relativePath)) {
+      if (await this.fsWrapper.promises.exists(relativePath)) {
         const folderName = this.fsWrapper.basename(relativePath);
         this.sendCallback(
             false, `Folder already exists: ${folderName}`, callbackId);
         return;
       }
-      this.fsWrapper.mkdir(relativePath, false);
+      await this.fsWrapper.promises.mkdir(relativePath, false);
       this.sendCallback(true, '', callbackId);
     } catch (err: any) {
       this.apiProvider.showErrorMessage(`Failed to create folder: ${err.message}`);
@@ -410,3 +794,34 @@ export class SnippetExplorerHandler implements ISnippetorWebViewHandler {
     }
   }
 }
+
+/**
+ * Forwards explorer events to several listeners (Working Snippet view, search index)
+ */
+class SnippetExplorerListenerGroup implements SnippetExplorerListener {
+  private listeners: SnippetExplorerListener[];
+
+  constructor(listeners: SnippetExplorerListener[]) {
+    this.listeners = listeners;
+  }
+
+  onNodeRenamed(oldNode: string, newNode: string, isFolder: boolean): void {
+    this.listeners.forEach(l => l.onNodeRenamed(oldNode, newNode, isFolder));
+  }
+
+  onNodeMoved(oldNode: string, newNode: string, isFolder: boolean): void {
+    this.listeners.forEach(l => l.onNodeMoved(oldNode, newNode, isFolder));
+  }
+
+  onNodeRemoved(node: string, isFolder: boolean): void {
+    this.listeners.forEach(l => l.onNodeRemoved(node, isFolder));
+  }
+
+  onNodeOverwrite(node: string, isFolder: boolean): void {
+    this.listeners.forEach(l => l.onNodeOverwrite(node, isFolder));
+  }
+
+  onNodeActivate(nodePath: string, isFolder: boolean, itemUid?: string): void {
+    this.listeners.forEach(l => l.onNodeActivate(nodePath, isFolder, itemUid));
+  }
+}
@@ -0,0 +1,122 @@
+// File: SnippetFileReader.ts
+// Helpers to find and parse `.snippet` files through the filesystem wrapper
+
+import { ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
+import { SnippetItem, normalizeSnippetItem, toStoredSnippetItem } from './SnippetItem';
+import { SNIPPET_SCHEMA_VERSION, upgradeSnippetJson } from './SnippetSchema';
+
+export const SNIPPET_EXTENSION = '.snippet';
+
+/**
+ * Parsed content of a `.snippet` file
+ */
+export interface SnippetFileContent {
+  title: string;
+  description: string;
+  tags?: string[];      // optional categories ("onboarding", "security", ...)
+  snippets: SnippetItem[];
+  diagram?: string;     // optional embedded Mermaid source
+}
+
+export function isSnippetFile(name: string): boolean {
+  return name.endsWith(SNIPPET_EXTENSION);
+}
+
+/**
+ * Trimmed, unique, non-empty tags from an array or a comma separated string
+ */
+export function normalizeTags(value: unknown): string[] {
+  const list = typeof value === 'string' ? value.split(',') : Array.isArray(value) ? value : [];
+  const tags = list
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map(tag => tag.trim())
+    .filter(tag => tag.length > 0);
+  return Array.from(new Set(tags));
+}
+
+/**
+ * Parse the JSON text of a `.snippet` file; files of older schema versions are upgraded in memory
+ * Throws when the text is not valid JSON or does not match the schema (SnippetSchemaError)
+ */
+export function parseSnippetContent(content: string): SnippetFileContent {
+  const { json } = upgradeSnippetJson(JSON.parse(content));
+  const result: SnippetFileContent = {
+    title: json.title,
+    description: json.description,
+    snippets: json.snippets.map(normalizeSnippetItem)
+  };
+  const tags = normalizeTags(json.tags);
+  if (tags.length > 0) {
+    result.tags = tags;
+  }
+  if (typeof json.diagram === 'string' && json.diagram.trim() !== '') {
+    result.diagram = json.diagram;
+  }
+  return result;
+}
+
+/**
+ * JSON text of a `.snippet` file in the current schema version; every writer uses this layout
+ */
+export function serializeSnippetContent(content: SnippetFileContent): string {
+  const tags = normalizeTags(content.tags);
+  return JSON.stringify({
+    schemaVersion: SNIPPET_SCHEMA_VERSION,
+    title: content.title,
+    description: content.description,
+    ...(tags.length > 0 ? { tags } : {}),
+    snippets: content.snippets.map(toStoredSnippetItem),
+    ...(content.diagram && content.diagram.trim() !== '' ? { diagram: content.diagram } : {})
+  }, null, 2);
+}
+
+/**
+ * Read and parse a `.snippet` file (mapped path)
+ * Throws when the file cannot be read or parsed
+ */
+export function readSnippetFile(fsWrapper: ISnippetorFilesystemWrapper, mappedPath: string): SnippetFileContent {
+  return parseSnippetContent(fsWrapper.readFile(mappedPath, 'utf-8'));
+}
+
+/**
+ * Rewrite a `.snippet` file of an older schema version in the current layout; the old
+ * file stays available as its previous version. Returns false for an up-to-date file.
+ * Throws when the file cannot be read, parsed or upgraded
+ */
+export function upgradeSnippetFile(fsWrapper: ISnippetorFilesystemWrapper, mappedPath: string): boolean {
+  const text = fsWrapper.readFile(mappedPath, 'utf-8');
+  const { fromVersion } = upgradeSnippetJson(JSON.parse(text));
+  if (fromVersion === SNIPPET_SCHEMA_VERSION) {
+    return false;
+  }
+  const data = serializeSnippetContent(parseSnippetContent(text));
+  fsWrapper.backupFile(mappedPath);
+  fsWrapper.writeFile(mappedPath, data, 'utf-8');
+  return true;
+}
+
+/**
+ * Recursively collect mapped paths of all `.snippet` files under a mapped folder
+ */
+export function collectSnippetFiles(fsWrapper: ISnippetorFilesystemWrapper, mappedPath: string): string[] {
+  const result: string[] = [];
+  for (const entry of fsWrapper.readDirectory(mappedPath)) {
+    if (entry.isFolder) {
+      result.push(...collectSnippetFiles(fsWrapper, entry.fullPath));
+    } else if (isSnippetFile(entry.name)) {
+      result.push(entry.fullPath);
+    }
+  }
+  return result;
+}
+
+/**
+ * Collect `.snippet` files of every configured mount point
+ */
+export function collectAllSnippetFiles(fsWrapper: ISnippetorFilesystemWrapper): string[] {
+  const result: string[] = [];
+  for (const root of fsWrapper.getRootChildren()) {
+    result.push(...collectSnippetFiles(fsWrapper, root.fullPath));
+  }
+  return result;
+}
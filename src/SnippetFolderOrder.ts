@@ -0,0 +1,64 @@
+// File: SnippetFolderOrder.ts
+// Manual reading order of the snippets in a folder, kept in the folder's order file
+
+import { DirectoryEntry } from './ISnippetorFilesystemWrapper';
+
+// JSON array of entry names in reading order; never shown in the explorer
+export const ORDER_FILE_NAME = '.order.json';
+
+export function isOrderFile(mappedPath: string): boolean {
+  return mappedPath.substring(mappedPath.lastIndexOf('/') + 1) === ORDER_FILE_NAME;
+}
+
+/**
+ * Parse the content of an order file; anything unreadable counts as no order
+ */
+export function parseOrder(content: string | undefined): string[] {
+  if (!content) {
+    return [];
+  }
+  try {
+    const names = JSON.parse(content);
+    return Array.isArray(names) ? names.filter((name): name is string => typeof name === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Sort the entries of a folder: folders first, then the entries listed in the order,
+ * then the unlisted ones alphabetically
+ */
+export function sortDirectoryEntries<T extends DirectoryEntry>(entries: T[], order: string[] = []): T[] {
+  const rank = new Map(order.map((name, index) => [name, index]));
+  return entries.sort((a, b) => {
+    if (a.isFolder && !b.isFolder) return -1;
+    if (!a.isFolder && b.isFolder) return 1;
+    const rankA = rank.get(a.name) ?? order.length;
+    const rankB = rank.get(b.name) ?? order.length;
+    if (rankA !== rankB) return rankA - rankB;
+    return a.name.localeCompare(b.name);
+  });
+}
+
+/**
+ * Move `name` right before or after `target` in a list of names
+ */
+export function moveInOrder(names: string[], name: string, target: string, position: 'before' | 'after'): string[] {
+  const result = names.filter(n => n !== name);
+  const index = result.indexOf(target);
+  if (index === -1) {
+    return [...result, name];
+  }
+  result.splice(position === 'before' ? index : index + 1, 0, name);
+  return result;
+}
+
+/**
+ * Keep the position of a renamed entry; an entry moved to another folder leaves the order
+ */
+export function renameInOrder(order: string[], oldName: string, newName?: string): string[] {
+  return newName === undefined
+    ? order.filter(name => name !== oldName)
+    : order.map(name => name === oldName ? newName : name);
+}
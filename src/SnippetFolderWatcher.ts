@@ -0,0 +1,173 @@
+// File: SnippetFolderWatcher.ts
+// Watches the folders of all mount points and reports changes made outside the extension
+// (Git checkouts, Dropbox sync, other editors)
+
+import { FolderChangeKind, ISnippetorApiProvider } from './ISnippetorApiProvider';
+import { ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
+import { isSnippetFile } from './SnippetFileReader';
+import { isOrderFile } from './SnippetFolderOrder';
+import { isTempFile } from './SnippetAtomicWrite';
+
+// Events arriving within this time are handled together (a checkout touches many files)
+export const WATCH_DEBOUNCE_MS = 300;
+
+/**
+ * Raw watcher event on a mapped path
+ */
+export interface SnippetWatchEvent {
+  kind: FolderChangeKind;
+  path: string;
+}
+
+/**
+ * Change of the snippet tree; paths are mapped paths
+ */
+export type SnippetFolderChange =
+  | { type: 'added'; path: string; isFolder: boolean }
+  | { type: 'removed'; path: string; isFolder: boolean }
+  | { type: 'renamed'; oldPath: string; newPath: string; isFolder: boolean }
+  | { type: 'changed'; path: string };          // content of a `.snippet` file
+
+function parentOf(mappedPath: string): string {
+  return mappedPath.substring(0, mappedPath.lastIndexOf('/'));
+}
+
+function baseNameOf(mappedPath: string): string {
+  return mappedPath.substring(mappedPath.lastIndexOf('/') + 1);
+}
+
+function isBelow(mappedPath: string, folders: string[]): boolean {
+  return folders.some(folder => mappedPath.startsWith(folder + '/'));
+}
+
+/**
+ * Turn a batch of watcher events into tree changes.
+ * The disk decides the final state of each path; nested additions and removals are
+ * reported for the topmost path only, and a single removal plus addition in the same
+ * folder (or of the same name) is reported as a rename.
+ */
+export function collapseWatchEvents(events: SnippetWatchEvent[], fsWrapper: ISnippetorFilesystemWrapper): SnippetFolderChange[] {
+  const firstKind = new Map<string, FolderChangeKind>();
+  for (const event of events) {
+    if (!firstKind.has(event.path)) {
+      firstKind.set(event.path, event.kind);
+    }
+  }
+
+  const added: { path: string; isFolder: boolean }[] = [];
+  const removed: { path: string; isFolder: boolean }[] = [];
+  const changed: string[] = [];
+  firstKind.forEach((kind, path) => {
+    const existedBefore = kind !== 'created';
+    const existsNow = fsWrapper.exists(path);
+    if (!existedBefore && existsNow) {
+      added.push({ path, isFolder: fsWrapper.stat(path).isDirectory() });
+    } else if (existedBefore && !existsNow) {
+      // the entry is gone, so guess the kind from the name
+      removed.push({ path, isFolder: !baseNameOf(path).includes('.') });
+    } else if (existedBefore && existsNow && isSnippetFile(path)) {
+      changed.push(path);
+    }
+  });
+
+  const addedFolders = added.filter(a => a.isFolder).map(a => a.path);
+  const removedFolders = removed.filter(r => r.isFolder).map(r => r.path);
+  const topAdded = added.filter(a => !isBelow(a.path, addedFolders));
+  const topRemoved = removed.filter(r => !isBelow(r.path, removedFolders));
+
+  const result: SnippetFolderChange[] = [];
+  const [from] = topRemoved;
+  const [to] = topAdded;
+  if (topRemoved.length === 1 && topAdded.length === 1 && from.isFolder === to.isFolder &&
+      (parentOf(from.path) === parentOf(to.path) || baseNameOf(from.path) === baseNameOf(to.path))) {
+    result.push({ type: 'renamed', oldPath: from.path, newPath: to.path, isFolder: to.isFolder });
+  } else {
+    topRemoved.forEach(r => result.push({ type: 'removed', path: r.path, isFolder: r.isFolder }));
+    topAdded.forEach(a => result.push({ type: 'added', path: a.path, isFolder: a.isFolder }));
+  }
+  changed
+    .filter(path => !isBelow(path, addedFolders))
+    .forEach(path => result.push({ type: 'changed', path }));
+  return result;
+}
+
+/**
+ * Watches the absolute path of every mount point and reports batched tree changes
+ */
+export class SnippetFolderWatcher {
+  private fsWrapper: ISnippetorFilesystemWrapper;
+  private apiProvider: ISnippetorApiProvider;
+  private watchers: { dispose(): any }[] = [];
+  private pending: SnippetWatchEvent[] = [];
+  private flushTimer?: ReturnType<typeof setTimeout>;
+  private listeners: ((changes: SnippetFolderChange[]) => void)[] = [];
+
+  constructor(fsWrapper: ISnippetorFilesystemWrapper, apiProvider: ISnippetorApiProvider) {
+    this.fsWrapper = fsWrapper;
+    this.apiProvider = apiProvider;
+  }
+
+  /**
+   * (Re)start watching the current mount points, e.g. after config.json was reloaded
+   */
+  public start(): void {
+    this.stop();
+    for (const folder of this.fsWrapper.getFolders()) {
+      this.watchers.push(this.apiProvider.watchFolder(folder.absolutePath,
+        (kind, absolutePath) => this.onEvent(kind, absolutePath)));
+    }
+  }
+
+  public stop(): void {
+    this.watchers.forEach(w => w.dispose());
+    this.watchers = [];
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.pending = [];
+  }
+
+  public onDidChange(listener: (changes: SnippetFolderChange[]) => void): { dispose(): void } {
+    this.listeners.push(listener);
+    return {
+      dispose: () => {
+        this.listeners = this.listeners.filter(l => l !== listener);
+      }
+    };
+  }
+
+  public dispose(): void {
+    this.stop();
+    this.listeners = [];
+  }
+
+  private onEvent(kind: FolderChangeKind, absolutePath: string): void {
+    const mappedPath = this.fsWrapper.mapPath(absolutePath);
+    if (!this.fsWrapper.getFolders().some(f => mappedPath.startsWith(f.mountPoint + '/'))) {
+      return; // mount point itself or outside of all mount points
+    }
+    if (/\/\.git(\/|$)/.test(mappedPath)) {
+      return; // repository internals change on every fetch
+    }
+    if (isOrderFile(mappedPath) || isTempFile(mappedPath)) {
+      return; // not a node of the tree
+    }
+
+    this.pending.push({ kind, path: mappedPath });
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), WATCH_DEBOUNCE_MS);
+    }
+  }
+
+  private flush(): void {
+    this.flushTimer = undefined;
+    const events = this.pending;
+    this.pending = [];
+
+    const changes = collapseWatchEvents(events, this.fsWrapper);
+    if (changes.length > 0) {
+      this.listeners.forEach(listener => listener(changes));
+    }
+  }
+}
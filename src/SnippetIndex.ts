@@ -0,0 +1,160 @@
+// File: SnippetIndex.ts
+// In-memory index of snippet items across all mount points, keyed by source file
+
+import { ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
+import { SnippetRange, getSnippetItemRange, lastCoveredLine } from './SnippetItem';
+import { collectAllSnippetFiles, readSnippetFile } from './SnippetFileReader';
+
+/**
+ * A snippet item that references a source file
+ */
+export interface SnippetIndexEntry {
+  snippetPath: string;   // mapped path of the `.snippet` file
+  snippetTitle: string;
+  uid: string;
+  index: number;         // 0-based position of the item in the snippet
+  count: number;         // number of items in the snippet
+  filePath: string;      // workspace-relative source file
+  range: SnippetRange;
+  text: string;
+}
+
+/**
+ * Normalize a workspace-relative path so that lookups do not depend on separators
+ */
+export function normalizeIndexPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+export class SnippetIndex {
+  private fsWrapper: ISnippetorFilesystemWrapper;
+  // source file → entries
+  private entriesByFile = new Map<string, SnippetIndexEntry[]>();
+  // snippet file → source files it references
+  private filesBySnippet = new Map<string, Set<string>>();
+  private listeners: (() => void)[] = [];
+
+  constructor(fsWrapper: ISnippetorFilesystemWrapper) {
+    this.fsWrapper = fsWrapper;
+  }
+
+  /**
+   * Re-read every `.snippet` file of every mount point
+   */
+  public rebuild(): void {
+    this.entriesByFile.clear();
+    this.filesBySnippet.clear();
+    for (const snippetPath of collectAllSnippetFiles(this.fsWrapper)) {
+      this.addSnippet(snippetPath);
+    }
+    this.fireChange();
+  }
+
+  /**
+   * Re-read a single `.snippet` file (after save); removes it when it no longer exists
+   */
+  public updateSnippet(snippetPath: string): void {
+    snippetPath = this.fsWrapper.normalizeMappedPath(snippetPath);
+    this.removeEntries(snippetPath);
+    if (this.fsWrapper.exists(snippetPath)) {
+      this.addSnippet(snippetPath);
+    }
+    this.fireChange();
+  }
+
+  /**
+   * Forget a `.snippet` file (or every snippet under a removed folder)
+   */
+  public removeSnippet(snippetPath: string): void {
+    snippetPath = this.fsWrapper.normalizeMappedPath(snippetPath);
+    for (const known of Array.from(this.filesBySnippet.keys())) {
+      if (known === snippetPath || known.startsWith(snippetPath + '/')) {
+        this.removeEntries(known);
+      }
+    }
+    this.fireChange();
+  }
+
+  /**
+   * All entries referencing a workspace-relative source file, ordered by line
+   */
+  public getEntries(filePath: string): SnippetIndexEntry[] {
+    return this.entriesByFile.get(normalizeIndexPath(filePath)) ?? [];
+  }
+
+  /**
+   * Entries whose range covers the given 1-based line
+   */
+  public getEntriesAtLine(filePath: string, line: number): SnippetIndexEntry[] {
+    return this.getEntries(filePath).filter(e => e.range.startLine <= line && line <= lastCoveredLine(e.range));
+  }
+
+  public getIndexedFiles(): string[] {
+    return Array.from(this.entriesByFile.keys());
+  }
+
+  /**
+   * Register a listener called whenever the index content changes
+   */
+  public onDidChange(listener: () => void): { dispose(): void } {
+    this.listeners.push(listener);
+    return {
+      dispose: () => {
+        this.listeners = this.listeners.filter(l => l !== listener);
+      }
+    };
+  }
+
+  private addSnippet(snippetPath: string): void {
+    let content;
+    try {
+      content = readSnippetFile(this.fsWrapper, snippetPath);
+    } catch {
+      return; // unreadable snippets are reported by the staleness check, not indexed
+    }
+
+    const files = new Set<string>();
+    content.snippets.forEach((item, index) => {
+      const range = getSnippetItemRange(item);
+      if (!item.filePath || !range) {
+        return;
+      }
+      const filePath = normalizeIndexPath(item.filePath);
+      const entries = this.entriesByFile.get(filePath) ?? [];
+      entries.push({
+        snippetPath,
+        snippetTitle: content.title || this.fsWrapper.basename(snippetPath),
+        uid: item.uid,
+        index,
+        count: content.snippets.length,
+        filePath,
+        range,
+        text: item.text
+      });
+      entries.sort((a, b) => a.range.startLine - b.range.startLine);
+      this.entriesByFile.set(filePath, entries);
+      files.add(filePath);
+    });
+    this.filesBySnippet.set(snippetPath, files);
+  }
+
+  private removeEntries(snippetPath: string): void {
+    const files = this.filesBySnippet.get(snippetPath);
+    if (!files) {
+      return;
+    }
+    for (const filePath of files) {
+      const remaining = (this.entriesByFile.get(filePath) ?? []).filter(e => e.snippetPath !== snippetPath);
+      if (remaining.length > 0) {
+        this.entriesByFile.set(filePath, remaining);
+      } else {
+        this.entriesByFile.delete(filePath);
+      }
+    }
+    this.filesBySnippet.delete(snippetPath);
+  }
+
+  private fireChange(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
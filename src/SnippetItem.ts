@@ -0,0 +1,134 @@
+// File: SnippetItem.ts
+// Snippet item model shared by the snippet handlers
+
+import { SnippetAnchor, SnippetAnchorState } from './SnippetAnchor';
+
+/**
+ * Range of source code a snippet item points at.
+ * Lines are 1-based (as shown in the editor gutter), columns are 0-based.
+ */
+export interface SnippetRange {
+  startLine: number;
+  startColumn: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/**
+ * A single snippet item as stored in the `.snippet` file.
+ * `line` is the display label ("name.ts:42"); it is the only location
+ * information in files written before `range` was introduced.
+ * `anchorState` is runtime-only and never written to disk.
+ */
+export interface SnippetItem {
+  uid: string;
+  text: string;
+  filePath: string;
+  line: string;
+  range?: SnippetRange;
+  anchor?: SnippetAnchor;
+  anchorState?: SnippetAnchorState;
+}
+
+export function generateUID(): string {
+  return 'uid-' + Math.random().toString(36).substring(2, 10);
+}
+
+/**
+ * Last line (1-based) really covered by the range: a selection that ends at
+ * column 0 does not include any character of its last line.
+ */
+export function lastCoveredLine(range: SnippetRange): number {
+  return range.endColumn === 0 && range.endLine > range.startLine ? range.endLine - 1 : range.endLine;
+}
+
+/**
+ * Build the display label for a range: "name.ts:42" or "name.ts:42-50"
+ */
+export function formatSnippetLine(fileName: string, range: SnippetRange): string {
+  const endLine = lastCoveredLine(range);
+  if (endLine > range.startLine) {
+    return `${fileName}:${range.startLine}-${endLine}`;
+  }
+  return `${fileName}:${range.startLine}`;
+}
+
+/**
+ * Parse a legacy "name.ts:42" (or "name.ts:42-50") label into a range.
+ * The labelled lines are covered entirely: the range ends at the start of the next line.
+ * Returns undefined when the label carries no line number.
+ */
+export function parseLegacyLine(line: string): SnippetRange | undefined {
+  const match = /:(\d+)(?:-(\d+))?\s*$/.exec(line || '');
+  if (!match) {
+    return undefined;
+  }
+  const startLine = parseInt(match[1], 10);
+  const endLine = match[2] !== undefined ? parseInt(match[2], 10) : startLine;
+  if (startLine < 1) {
+    return undefined;
+  }
+  return { startLine, startColumn: 0, endLine: Math.max(startLine, endLine) + 1, endColumn: 0 };
+}
+
+function isValidRange(range: any): range is SnippetRange {
+  return !!range &&
+    Number.isInteger(range.startLine) && range.startLine >= 1 &&
+    Number.isInteger(range.endLine) && range.endLine >= range.startLine &&
+    Number.isInteger(range.startColumn) && range.startColumn >= 0 &&
+    Number.isInteger(range.endColumn) && range.endColumn >= 0;
+}
+
+/**
+ * Get the range of an item, falling back to the legacy line label
+ */
+export function getSnippetItemRange(item: { line: string; range?: SnippetRange }): SnippetRange | undefined {
+  return isValidRange(item.range) ? item.range : parseLegacyLine(item.line);
+}
+
+/**
+ * Convert a raw item read from a `.snippet` file into a SnippetItem.
+ * Old files only have the `line` label, so the range is derived from it.
+ */
+export function normalizeSnippetItem(raw: any): SnippetItem {
+  const item: SnippetItem = {
+    ...raw,
+    uid: typeof raw?.uid === 'string' && raw.uid !== '' ? raw.uid : generateUID(),
+    text: typeof raw?.text === 'string' ? raw.text : '',
+    filePath: typeof raw?.filePath === 'string' ? raw.filePath : '',
+    line: typeof raw?.line === 'string' ? raw.line : ''
+  };
+  delete item.anchorState;
+  const range = getSnippetItemRange(item);
+  if (range) {
+    item.range = range;
+  } else {
+    delete item.range;
+  }
+  return item;
+}
+
+/**
+ * Strip runtime-only fields before an item is written to disk
+ */
+export function toStoredSnippetItem(item: SnippetItem): SnippetItem {
+  const { anchorState: _state, ...stored } = item;
+  return stored;
+}
+
+/**
+ * Order items by the given uids. Unknown uids are ignored and items
+ * missing from the list keep their relative order at the end.
+ */
+export function reorderSnippetItems(items: SnippetItem[], uids: string[]): SnippetItem[] {
+  const byUid = new Map(items.map(item => [item.uid, item]));
+  const ordered: SnippetItem[] = [];
+  uids.forEach(uid => {
+    const item = byUid.get(uid);
+    if (item) {
+      ordered.push(item);
+      byUid.delete(uid);
+    }
+  });
+  return [...ordered, ...byUid.values()];
+}
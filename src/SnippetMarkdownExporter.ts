@@ -0,0 +1,179 @@
+// File: SnippetMarkdownExporter.ts
+// Renders snippets as Markdown documents with the referenced code embedded
+
+import { ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
+import { SnippetRange, getSnippetItemRange, lastCoveredLine } from './SnippetItem';
+import { SnippetFileContent, SNIPPET_EXTENSION, collectSnippetFiles, readSnippetFile } from './SnippetFileReader';
+import { WorkspaceFileReader } from './SnippetStalenessChecker';
+
+/**
+ * A rendered Markdown document, fileName is relative to the export folder
+ */
+export interface MarkdownDocument {
+  fileName: string;
+  content: string;
+}
+
+export const MARKDOWN_INDEX_FILE = 'index.md';
+
+// File extension → fenced code block language
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'typescript', tsx: 'tsx', js: 'javascript', jsx: 'jsx', mjs: 'javascript', cjs: 'javascript',
+  json: 'json', py: 'python', rb: 'ruby', go: 'go', rs: 'rust', java: 'java', kt: 'kotlin',
+  cs: 'csharp', c: 'c', h: 'c', cpp: 'cpp', cc: 'cpp', hpp: 'cpp', swift: 'swift', php: 'php',
+  sh: 'bash', ps1: 'powershell', sql: 'sql', html: 'html', css: 'css', scss: 'scss',
+  md: 'markdown', yml: 'yaml', yaml: 'yaml', xml: 'xml', vue: 'vue', dart: 'dart', scala: 'scala'
+};
+
+/**
+ * Language tag for a fenced code block, empty when the extension is unknown
+ */
+export function languageForFile(filePath: string): string {
+  const match = /\.([^./\\]+)$/.exec(filePath);
+  return match ? LANGUAGE_BY_EXTENSION[match[1].toLowerCase()] ?? '' : '';
+}
+
+/**
+ * Fence long enough not to be closed by backticks inside the code
+ */
+function fenceFor(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) ?? []).map(m => m.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+/**
+ * File name of the exported document for a snippet file name
+ */
+export function markdownFileName(snippetName: string): string {
+  const base = snippetName.endsWith(SNIPPET_EXTENSION)
+    ? snippetName.slice(0, -SNIPPET_EXTENSION.length)
+    : snippetName;
+  return `${base}.md`;
+}
+
+/**
+ * "src/a.ts:42" or "src/a.ts:10-20" (workspace-relative path, lines really covered)
+ */
+function formatLocation(filePath: string, range?: SnippetRange): string {
+  if (!range) {
+    return filePath;
+  }
+  const last = lastCoveredLine(range);
+  return last === range.startLine ? `${filePath}:${range.startLine}` : `${filePath}:${range.startLine}-${last}`;
+}
+
+/**
+ * Render a snippet: title, description, tags and one section per item
+ * with its location, note and the referenced lines
+ */
+export async function renderSnippetMarkdown(content: SnippetFileContent, readLines: WorkspaceFileReader): Promise<string> {
+  const out: string[] = [`# ${content.title || 'Untitled snippet'}`, ''];
+  if (content.description) {
+    out.push(content.description, '');
+  }
+  if (content.tags && content.tags.length > 0) {
+    out.push(`Tags: ${content.tags.map(tag => `\`${tag}\``).join(', ')}`, '');
+  }
+
+  for (let index = 0; index < content.snippets.length; index++) {
+    const item = content.snippets[index];
+    const range = getSnippetItemRange(item);
+    const location = item.filePath ? formatLocation(item.filePath, range) : item.line;
+    out.push(`## ${index + 1}. \`${location || 'No location'}\``, '');
+    if (item.text) {
+      out.push(item.text, '');
+    }
+
+    if (!item.filePath || !range) {
+      continue;
+    }
+    const lines = await readLines(item.filePath);
+    if (!lines) {
+      out.push(`> File not found: \`${item.filePath}\``, '');
+      continue;
+    }
+    const code = lines.slice(range.startLine - 1, lastCoveredLine(range)).join('\n');
+    const fence = fenceFor(code);
+    out.push(fence + languageForFile(item.filePath), code, fence, '');
+  }
+
+  return out.join('\n');
+}
+
+/**
+ * Render the index of an exported folder: one link per snippet document
+ */
+export function renderMarkdownIndex(title: string, entries: { title: string; description: string; fileName: string }[]): string {
+  const out: string[] = [`# ${title}`, ''];
+  for (const entry of entries) {
+    const link = entry.fileName.split('/').map(encodeURIComponent).join('/');
+    const title = entry.title.replace(/[\\[\]]/g, '\\$&');
+    out.push(`- [${title}](${link})${entry.description ? ` — ${entry.description.split('\n')[0]}` : ''}`);
+  }
+  out.push('');
+  return out.join('\n');
+}
+
+export class SnippetMarkdownExporter {
+  private fsWrapper: ISnippetorFilesystemWrapper;
+  private readLines: WorkspaceFileReader;
+
+  constructor(fsWrapper: ISnippetorFilesystemWrapper, readLines: WorkspaceFileReader) {
+    this.fsWrapper = fsWrapper;
+    this.readLines = readLines;
+  }
+
+  /**
+   * Render a single `.snippet` file (mapped path)
+   */
+  public async exportSnippet(snippetPath: string): Promise<MarkdownDocument> {
+    const content = readSnippetFile(this.fsWrapper, snippetPath);
+    return {
+      fileName: markdownFileName(this.fsWrapper.basename(snippetPath)),
+      content: await renderSnippetMarkdown(content, this.readLines)
+    };
+  }
+
+  /**
+   * Render every `.snippet` file under a mapped folder, keeping the sub-folder layout,
+   * plus an index document. Unreadable snippets are skipped and returned as errors.
+   */
+  public async exportFolder(mappedPath: string): Promise<{ documents: MarkdownDocument[]; errors: string[] }> {
+    const folder = this.fsWrapper.normalizeMappedPath(mappedPath);
+    const documents: MarkdownDocument[] = [];
+    const entries: { title: string; description: string; fileName: string }[] = [];
+    const errors: string[] = [];
+
+    for (const snippetPath of collectSnippetFiles(this.fsWrapper, folder)) {
+      let content;
+      try {
+        content = readSnippetFile(this.fsWrapper, snippetPath);
+      } catch (err: any) {
+        errors.push(`${snippetPath}: ${err.message}`);
+        continue;
+      }
+      const fileName = markdownFileName(snippetPath.substring(folder.length + 1));
+      documents.push({ fileName, content: await renderSnippetMarkdown(content, this.readLines) });
+      entries.push({ title: content.title || this.fsWrapper.basename(snippetPath), description: content.description, fileName });
+    }
+
+    // a root-level index.snippet must not be overwritten by the generated index
+    const clash = documents.find(d => d.fileName.toLowerCase() === MARKDOWN_INDEX_FILE);
+    if (clash) {
+      const taken = new Set(documents.map(d => d.fileName.toLowerCase()));
+      let n = 1;
+      while (taken.has(`index-${n}.md`)) {
+        n++;
+      }
+      const renamed = `index-${n}.md`;
+      entries.filter(e => e.fileName === clash.fileName).forEach(e => e.fileName = renamed);
+      clash.fileName = renamed;
+    }
+
+    documents.push({
+      fileName: MARKDOWN_INDEX_FILE,
+      content: renderMarkdownIndex(this.fsWrapper.basename(folder) || folder, entries)
+    });
+    return { documents, errors };
+  }
+}
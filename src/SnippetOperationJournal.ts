@@ -0,0 +1,213 @@
+// File: SnippetOperationJournal.ts
+// Undo/redo journal for explorer file operations (rename, move, copy, overwrite, remove)
+
+import { ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
+import { SnippetFolderChange } from './SnippetFolderWatcher';
+
+/**
+ * One invertible filesystem step; paths are mapped paths.
+ * Deleted entries are in the trash, undone copies are kept in the undo stash for redo.
+ */
+export type JournalStep =
+  | { type: 'rename'; from: string; to: string; isFolder: boolean }
+  | { type: 'create'; path: string; isFolder: boolean; stashId: string }   // undo moves it into the stash
+  | { type: 'trash'; path: string; isFolder: boolean; trashId: string };   // redo trashes it again (new id)
+
+/**
+ * A user operation, undone and redone as a whole
+ */
+export interface JournalEntry {
+  label: string;          // e.g. 'Move "a.snippet"'
+  steps: JournalStep[];
+}
+
+// Older operations are forgotten (and their stashed entries deleted; trashed ones stay in the trash)
+export const MAX_JOURNAL_ENTRIES = 50;
+
+export class SnippetOperationJournal {
+  private fsWrapper: ISnippetorFilesystemWrapper;
+  private undoStack: JournalEntry[] = [];
+  private redoStack: JournalEntry[] = [];
+  private stashCounter = 0;
+  // Steps collected between beginGroup and endGroup
+  private group?: JournalStep[];
+  private listeners: (() => void)[] = [];
+
+  constructor(fsWrapper: ISnippetorFilesystemWrapper) {
+    this.fsWrapper = fsWrapper;
+    // the journal lives in memory, entries stashed by an earlier session cannot be restored
+    try {
+      this.fsWrapper.clearStash();
+    } catch {
+      // nothing stashed
+    }
+  }
+
+  /**
+   * Move an entry into the trash instead of deleting it
+   */
+  public async trash(mappedPath: string, isFolder: boolean): Promise<JournalStep> {
+    const entry = await this.fsWrapper.promises.moveToTrash(mappedPath);
+    return { type: 'trash', path: mappedPath, isFolder, trashId: entry.id };
+  }
+
+  /**
+   * Step for an entry that was created (e.g. copied) at a path
+   */
+  public created(mappedPath: string, isFolder: boolean): JournalStep {
+    return { type: 'create', path: mappedPath, isFolder, stashId: this.newStashId() };
+  }
+
+  /**
+   * Add a finished operation; it invalidates everything that could be redone
+   */
+  public record(label: string, steps: JournalStep[]): void {
+    if (this.group) {
+      this.group.push(...steps);
+      return;
+    }
+    if (steps.length === 0) {
+      return;
+    }
+    this.forget(this.redoStack);
+    this.redoStack = [];
+    this.undoStack.push({ label, steps });
+    if (this.undoStack.length > MAX_JOURNAL_ENTRIES) {
+      this.forget(this.undoStack.splice(0, this.undoStack.length - MAX_JOURNAL_ENTRIES));
+    }
+    this.fireChange();
+  }
+
+  /**
+   * Collect the steps of the following records into one operation (e.g. a batch move)
+   */
+  public beginGroup(): void {
+    this.group = [];
+  }
+
+  /**
+   * Record the steps collected since beginGroup as one operation
+   */
+  public endGroup(label: string): void {
+    const steps = this.group ?? [];
+    this.group = undefined;
+    this.record(label, steps);
+  }
+
+  public getUndoLabel(): string | undefined {
+    return this.undoStack[this.undoStack.length - 1]?.label;
+  }
+
+  public getRedoLabel(): string | undefined {
+    return this.redoStack[this.redoStack.length - 1]?.label;
+  }
+
+  /**
+   * Revert the last operation; returns the resulting tree changes.
+   * Throws when the files changed meanwhile - the operation is dropped then.
+   */
+  public async undo(): Promise<SnippetFolderChange[]> {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      return [];
+    }
+    try {
+      const changes: SnippetFolderChange[] = [];
+      for (const step of entry.steps.slice().reverse()) {
+        changes.push(await this.applyStep(step, false));
+      }
+      this.redoStack.push(entry);
+      return changes;
+    } catch (err) {
+      this.forget([entry]);
+      throw err;
+    } finally {
+      this.fireChange();
+    }
+  }
+
+  /**
+   * Repeat the last undone operation; returns the resulting tree changes
+   */
+  public async redo(): Promise<SnippetFolderChange[]> {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      return [];
+    }
+    try {
+      const changes: SnippetFolderChange[] = [];
+      for (const step of entry.steps) {
+        changes.push(await this.applyStep(step, true));
+      }
+      this.undoStack.push(entry);
+      return changes;
+    } catch (err) {
+      this.forget([entry]);
+      throw err;
+    } finally {
+      this.fireChange();
+    }
+  }
+
+  public onDidChange(listener: () => void): { dispose(): void } {
+    this.listeners.push(listener);
+    return {
+      dispose: () => {
+        this.listeners = this.listeners.filter(l => l !== listener);
+      }
+    };
+  }
+
+  private async applyStep(step: JournalStep, forward: boolean): Promise<SnippetFolderChange> {
+    if (step.type === 'rename') {
+      const [from, to] = forward ? [step.from, step.to] : [step.to, step.from];
+      if (await this.fsWrapper.promises.exists(to)) {
+        throw new Error(`"${this.fsWrapper.basename(to)}" already exists`);
+      }
+      await this.fsWrapper.promises.rename(from, to);
+      return { type: 'renamed', oldPath: from, newPath: to, isFolder: step.isFolder };
+    }
+
+    // 'create' forward and 'trash' backward bring the entry back
+    const restore = (step.type === 'create') === forward;
+    if (restore) {
+      if (step.type === 'create') {
+        await this.fsWrapper.promises.unstashEntry(step.stashId, step.path);
+      } else {
+        await this.fsWrapper.promises.restoreFromTrash(step.trashId, step.path);
+      }
+      return { type: 'added', path: step.path, isFolder: step.isFolder };
+    }
+    if (!(await this.fsWrapper.promises.exists(step.path))) {
+      throw new Error(`"${this.fsWrapper.basename(step.path)}" no longer exists`);
+    }
+    if (step.type === 'create') {
+      await this.fsWrapper.promises.stashEntry(step.path, step.stashId);
+    } else {
+      step.trashId = (await this.fsWrapper.promises.moveToTrash(step.path)).id;
+    }
+    return { type: 'removed', path: step.path, isFolder: step.isFolder };
+  }
+
+  private forget(entries: JournalEntry[]): void {
+    for (const entry of entries) {
+      for (const step of entry.steps) {
+        if (step.type === 'create') {
+          try {
+            this.fsWrapper.clearStash(step.stashId);
+          } catch {
+            // already gone
+          }
+        }
+      }
+    }
+  }
+
+  private newStashId(): string {
+    return `${Date.now()}-${++this.stashCounter}`;
+  }
+
+  private fireChange(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
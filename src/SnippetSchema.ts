@@ -0,0 +1,182 @@
+// File: SnippetSchema.ts
+// Versioned layout of `.snippet` files: validation with precise error locations and the
+// migrations that upgrade files written by older versions of the extension
+
+import { generateUID, getSnippetItemRange } from './SnippetItem';
+
+/**
+ * Version written into every saved `.snippet` file.
+ * 1 - files without `schemaVersion`: items may only have the legacy `line` label
+ * 2 - `schemaVersion` field, `title` and `description` always present, items with a `range`
+ *     whenever their label carries a line number
+ */
+export const SNIPPET_SCHEMA_VERSION = 2;
+
+/**
+ * Thrown for a `.snippet` file that does not match the schema, one entry per problem
+ * ("snippets[2].filePath: expected a string")
+ */
+export class SnippetSchemaError extends Error {
+  public readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid snippet file: ${errors.join('; ')}`);
+    this.name = 'SnippetSchemaError';
+    this.errors = errors;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Version 1 → 2: fill in missing fields the old reader defaulted silently
+ * and derive ranges from the legacy line labels
+ */
+function migrateFromVersion1(json: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {
+    ...json,
+    schemaVersion: 2,
+    title: json.title ?? '',
+    description: json.description ?? ''
+  };
+  if (typeof json.tags === 'string') {
+    result.tags = json.tags.split(',');
+  } else if (Array.isArray(json.tags)) {
+    result.tags = json.tags.filter((tag: unknown) => typeof tag === 'string');
+  } else {
+    delete result.tags;
+  }
+  if (Array.isArray(json.snippets)) {
+    result.snippets = json.snippets.map((raw: unknown) => {
+      if (!isObject(raw)) {
+        return raw; // reported by the validator
+      }
+      const item: Record<string, any> = {
+        ...raw,
+        uid: raw.uid || generateUID(),
+        text: raw.text ?? '',
+        filePath: raw.filePath ?? '',
+        line: raw.line ?? ''
+      };
+      const range = typeof item.line === 'string' ? getSnippetItemRange(item as { line: string; range?: any }) : undefined;
+      if (range) {
+        item.range = range;
+      } else {
+        delete item.range;
+      }
+      return item;
+    });
+  }
+  return result;
+}
+
+// Migration from each older version to the next one
+const MIGRATIONS: { [fromVersion: number]: (json: Record<string, any>) => Record<string, any> } = {
+  1: migrateFromVersion1
+};
+
+/**
+ * Schema version of parsed file content; files without the field are version 1
+ */
+export function getSchemaVersion(json: Record<string, any>): number {
+  return json.schemaVersion === undefined ? 1 : json.schemaVersion;
+}
+
+/**
+ * Upgrade parsed file content to the current version and validate it.
+ * Throws SnippetSchemaError when the content cannot be upgraded or does not match the schema
+ */
+export function upgradeSnippetJson(json: unknown): { json: Record<string, any>; fromVersion: number } {
+  if (!isObject(json)) {
+    throw new SnippetSchemaError(['expected a JSON object']);
+  }
+  const fromVersion = getSchemaVersion(json);
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new SnippetSchemaError([`schemaVersion: expected a positive integer, got ${JSON.stringify(json.schemaVersion)}`]);
+  }
+  if (fromVersion > SNIPPET_SCHEMA_VERSION) {
+    throw new SnippetSchemaError([
+      `schemaVersion: ${fromVersion} is newer than this extension supports (${SNIPPET_SCHEMA_VERSION}), please update the extension`
+    ]);
+  }
+  let current = json;
+  for (let version = fromVersion; version < SNIPPET_SCHEMA_VERSION; version++) {
+    current = MIGRATIONS[version](current);
+  }
+  const errors = validateSnippetJson(current);
+  if (errors.length > 0) {
+    throw new SnippetSchemaError(errors);
+  }
+  return { json: current, fromVersion };
+}
+
+/**
+ * Check content of the current version; returns one message per problem, empty when valid
+ */
+export function validateSnippetJson(json: unknown): string[] {
+  if (!isObject(json)) {
+    return ['expected a JSON object'];
+  }
+  const errors: string[] = [];
+  const expectString = (value: unknown, location: string) => {
+    if (typeof value !== 'string') {
+      errors.push(`${location}: expected a string`);
+    }
+  };
+
+  if (json.schemaVersion !== SNIPPET_SCHEMA_VERSION) {
+    errors.push(`schemaVersion: expected ${SNIPPET_SCHEMA_VERSION}`);
+  }
+  expectString(json.title, 'title');
+  expectString(json.description, 'description');
+  if (json.diagram !== undefined) {
+    expectString(json.diagram, 'diagram');
+  }
+  if (json.tags !== undefined) {
+    if (Array.isArray(json.tags)) {
+      json.tags.forEach((tag: unknown, index: number) => expectString(tag, `tags[${index}]`));
+    } else {
+      errors.push('tags: expected an array of strings');
+    }
+  }
+
+  if (!Array.isArray(json.snippets)) {
+    errors.push('snippets: expected an array');
+    return errors;
+  }
+  json.snippets.forEach((item: unknown, index: number) => {
+    const location = `snippets[${index}]`;
+    if (!isObject(item)) {
+      errors.push(`${location}: expected an object`);
+      return;
+    }
+    ['uid', 'text', 'filePath', 'line'].forEach(field => expectString(item[field], `${location}.${field}`));
+    if (item.range !== undefined) {
+      errors.push(...validateRange(item.range, `${location}.range`));
+    }
+    if (item.anchor !== undefined && !isObject(item.anchor)) {
+      errors.push(`${location}.anchor: expected an object`);
+    }
+  });
+  return errors;
+}
+
+function validateRange(range: unknown, location: string): string[] {
+  if (!isObject(range)) {
+    return [`${location}: expected an object`];
+  }
+  const errors: string[] = [];
+  const expectInteger = (field: string, min: number, minLabel: string) => {
+    const value = range[field];
+    if (!Number.isInteger(value) || value < min) {
+      errors.push(`${location}.${field}: expected an integer >= ${minLabel}`);
+    }
+  };
+  expectInteger('startLine', 1, '1');
+  expectInteger('startColumn', 0, '0');
+  expectInteger('endLine', Number.isInteger(range.startLine) ? range.startLine : 1, 'startLine');
+  expectInteger('endColumn', 0, '0');
+  return errors;
+}
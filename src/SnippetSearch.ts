@@ -0,0 +1,216 @@
+// File: SnippetSearch.ts
+// Full-text search over titles, descriptions, notes and file paths of all snippets
+
+import { ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
+import { SnippetFileContent } from './SnippetFileReader';
+
+/**
+ * Searchable content of a single `.snippet` file
+ */
+export interface SnippetSearchDocument {
+  path: string;          // mapped path of the `.snippet` file
+  title: string;
+  description: string;
+  tags?: string[];
+  items: { uid: string; text: string; filePath: string }[];
+}
+
+export type SnippetSearchField = 'title' | 'tag' | 'description' | 'note' | 'filePath';
+
+/**
+ * Character ranges [start, end) to highlight in a text
+ */
+export type SnippetSearchHighlight = [number, number];
+
+export interface SnippetSearchResult {
+  path: string;
+  title: string;
+  titleHighlights: SnippetSearchHighlight[];
+  score: number;
+  field: SnippetSearchField;          // field shown as excerpt
+  excerpt: string;
+  highlights: SnippetSearchHighlight[];
+  itemUid?: string;                   // best matching item, if any
+  itemIndex?: number;
+}
+
+// Relative importance of a match in each field
+const FIELD_WEIGHTS: Record<SnippetSearchField, number> = {
+  title: 10,
+  tag: 5,
+  filePath: 4,
+  description: 3,
+  note: 2
+};
+
+// Characters shown around the first match of an excerpt
+export const EXCERPT_RADIUS = 60;
+
+/**
+ * Lower-cased unique search terms of a query
+ */
+export function tokenizeQuery(query: string): string[] {
+  return Array.from(new Set((query || '').toLowerCase().split(/\s+/).filter(t => t.length > 0)));
+}
+
+/**
+ * Ranges of all term occurrences (case-insensitive), merged and sorted
+ */
+export function findHighlights(text: string, terms: string[]): SnippetSearchHighlight[] {
+  const lower = text.toLowerCase();
+  const ranges: SnippetSearchHighlight[] = [];
+  for (const term of terms) {
+    for (let pos = lower.indexOf(term); pos !== -1; pos = lower.indexOf(term, pos + term.length)) {
+      ranges.push([pos, pos + term.length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const merged: SnippetSearchHighlight[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Single-line excerpt around the first match
+ */
+export function makeExcerpt(text: string, terms: string[], radius: number = EXCERPT_RADIUS): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const first = findHighlights(flat, terms)[0];
+  const center = first ? first[0] : 0;
+  const start = Math.max(0, center - radius);
+  const end = Math.min(flat.length, center + radius * 2);
+  return (start > 0 ? '…' : '') + flat.substring(start, end) + (end < flat.length ? '…' : '');
+}
+
+/**
+ * Score of a term in a text: 0 when absent, more for matches at a word start or whole words
+ */
+function termScore(text: string, term: string, weight: number): number {
+  const lower = text.toLowerCase();
+  let best = 0;
+  for (let pos = lower.indexOf(term); pos !== -1; pos = lower.indexOf(term, pos + 1)) {
+    const wordStart = pos === 0 || !/[a-z0-9]/.test(lower[pos - 1]);
+    const wordEnd = pos + term.length === lower.length || !/[a-z0-9]/.test(lower[pos + term.length]);
+    best = Math.max(best, 1 + (wordStart ? 0.5 : 0) + (wordStart && wordEnd ? 0.5 : 0));
+  }
+  return best * weight;
+}
+
+interface FieldMatch {
+  field: SnippetSearchField;
+  text: string;
+  itemIndex?: number;
+  scores: number[];      // per term
+}
+
+/**
+ * Score a document; undefined when some term matches nowhere
+ */
+export function scoreDocument(doc: SnippetSearchDocument, terms: string[]): SnippetSearchResult | undefined {
+  if (terms.length === 0) {
+    return undefined;
+  }
+
+  const fields: FieldMatch[] = [];
+  const addField = (field: SnippetSearchField, text: string, itemIndex?: number) => {
+    if (!text) {
+      return;
+    }
+    const scores = terms.map(term => termScore(text, term, FIELD_WEIGHTS[field]));
+    if (scores.some(s => s > 0)) {
+      fields.push({ field, text, itemIndex, scores });
+    }
+  };
+  addField('title', doc.title);
+  addField('tag', (doc.tags || []).join(', '));
+  addField('description', doc.description);
+  doc.items.forEach((item, index) => {
+    addField('note', item.text, index);
+    addField('filePath', item.filePath, index);
+  });
+
+  // every term must match somewhere in the snippet
+  const best = terms.map((_, t) => Math.max(0, ...fields.map(f => f.scores[t])));
+  if (best.some(s => s === 0)) {
+    return undefined;
+  }
+  const score = best.reduce((sum, s) => sum + s, 0) + 0.1 * fields.length;
+
+  // item covering most terms wins, then the highest scoring one
+  const itemScores = new Map<number, number[]>();
+  for (const f of fields.filter(f => f.itemIndex !== undefined)) {
+    const current = itemScores.get(f.itemIndex!) ?? terms.map(() => 0);
+    itemScores.set(f.itemIndex!, current.map((s, t) => Math.max(s, f.scores[t])));
+  }
+  let bestItem: number | undefined;
+  let bestKey = [-1, -1];
+  itemScores.forEach((scores, index) => {
+    const key = [scores.filter(s => s > 0).length, scores.reduce((a, b) => a + b, 0)];
+    if (key[0] > bestKey[0] || (key[0] === bestKey[0] && key[1] > bestKey[1])) {
+      bestItem = index;
+      bestKey = key;
+    }
+  });
+
+  // excerpt: best item note (or its file), otherwise description, tags or title
+  const pick = (bestItem !== undefined
+    ? fields.find(f => f.itemIndex === bestItem && f.field === 'note') ?? fields.find(f => f.itemIndex === bestItem)
+    : undefined)
+    ?? fields.find(f => f.field === 'description')
+    ?? fields.find(f => f.field === 'tag')
+    ?? fields.find(f => f.field === 'title')!;
+  const excerpt = makeExcerpt(pick.text, terms);
+
+  return {
+    path: doc.path,
+    title: doc.title,
+    titleHighlights: findHighlights(doc.title, terms),
+    score,
+    field: pick.field,
+    excerpt,
+    highlights: findHighlights(excerpt, terms),
+    itemUid: bestItem !== undefined ? doc.items[bestItem].uid : undefined,
+    itemIndex: bestItem
+  };
+}
+
+/**
+ * Rank documents for a query, best first
+ */
+export function searchSnippetDocuments(docs: SnippetSearchDocument[], query: string, limit: number = 50): SnippetSearchResult[] {
+  const terms = tokenizeQuery(query);
+  const results: SnippetSearchResult[] = [];
+  for (const doc of docs) {
+    const result = scoreDocument(doc, terms);
+    if (result) {
+      results.push(result);
+    }
+  }
+  results.sort((a, b) => b.score - a.score || a.title.localeCompare(b.title) || a.path.localeCompare(b.path));
+  return results.slice(0, limit);
+}
+
+/**
+ * Searchable content of a parsed `.snippet` file
+ */
+export function toSearchDocument(
+  fsWrapper: ISnippetorFilesystemWrapper,
+  snippetPath: string,
+  content: SnippetFileContent
+): SnippetSearchDocument {
+  return {
+    path: snippetPath,
+    title: content.title || fsWrapper.basename(snippetPath),
+    description: content.description,
+    tags: content.tags ?? [],
+    items: content.snippets.map(item => ({ uid: item.uid, text: item.text, filePath: item.filePath }))
+  };
+}
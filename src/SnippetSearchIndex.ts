@@ -0,0 +1,430 @@
+// File: SnippetSearchIndex.ts
+// Persistent inverted index for snippet search, stored next to config.json
+
+import { ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
+import { SnippetExplorerListener } from './SnippetExplorerHandler';
+import { isSnippetFile, parseSnippetContent } from './SnippetFileReader';
+import {
+  SnippetSearchDocument,
+  SnippetSearchResult,
+  scoreDocument,
+  toSearchDocument,
+  tokenizeQuery
+} from './SnippetSearch';
+
+export const SEARCH_INDEX_FILE = 'search-index.json';
+// Bump when the stored layout changes; older files are rebuilt
+export const SEARCH_INDEX_VERSION = 2;
+// Minimal time between two mtime checks of all snippet files
+export const SEARCH_INDEX_VALIDATE_INTERVAL_MS = 30000;
+// Delay before changes are written to disk
+const SAVE_DELAY_MS = 1000;
+
+interface IndexedSnippet {
+  mtime: number;
+  size: number;
+  doc: SnippetSearchDocument;
+}
+
+// A suffix of an indexed word; sorted, they locate words containing a fragment
+interface WordSuffix {
+  suffix: string;
+  word: string;
+}
+
+interface StoredSearchIndex {
+  version: number;
+  documents: Record<string, IndexedSnippet>;
+  postings: Record<string, string[]>;   // word → snippet paths
+}
+
+/**
+ * Lower-cased words of a text (letters and digits)
+ */
+export function indexWords(text: string): string[] {
+  return (text || '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 0);
+}
+
+function documentWords(doc: SnippetSearchDocument): Set<string> {
+  const words = new Set<string>();
+  const add = (text: string) => indexWords(text).forEach(w => words.add(w));
+  add(doc.title);
+  add(doc.description);
+  (doc.tags || []).forEach(add);
+  doc.items.forEach(item => {
+    add(item.text);
+    add(item.filePath);
+  });
+  return words;
+}
+
+/**
+ * Keeps searchable content of every `.snippet` file with an inverted word index.
+ * The index is kept current by explorer events and saves; changes made outside
+ * the extension are picked up lazily by comparing file mtimes before a search.
+ * File access is asynchronous so large snippet folders do not block the extension host.
+ */
+export class SnippetSearchIndex implements SnippetExplorerListener {
+  private fsWrapper: ISnippetorFilesystemWrapper;
+  private documents = new Map<string, IndexedSnippet>();
+  private postings = new Map<string, Set<string>>();
+  private suffixes?: WordSuffix[];    // rebuilt lazily when the vocabulary changes
+  private loaded = false;
+  private lastValidated = 0;
+  private validation?: Promise<void>;
+  private saveTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(fsWrapper: ISnippetorFilesystemWrapper) {
+    this.fsWrapper = fsWrapper;
+  }
+
+  /**
+   * Ranked results for a query, best first
+   */
+  public async search(query: string, limit: number = 50): Promise<SnippetSearchResult[]> {
+    await this.ensureFresh();
+    const terms = tokenizeQuery(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const results: SnippetSearchResult[] = [];
+    for (const path of this.candidates(terms)) {
+      const result = scoreDocument(this.documents.get(path)!.doc, terms);
+      if (result) {
+        results.push(result);
+      }
+    }
+    results.sort((a, b) => b.score - a.score || a.title.localeCompare(b.title) || a.path.localeCompare(b.path));
+    return results.slice(0, limit);
+  }
+
+  /**
+   * Tags of every tagged snippet, keyed by mapped path
+   */
+  public async getSnippetTags(): Promise<Record<string, string[]>> {
+    await this.ensureFresh();
+    const result: Record<string, string[]> = {};
+    this.documents.forEach((entry, path) => {
+      if (entry.doc.tags && entry.doc.tags.length > 0) {
+        result[path] = entry.doc.tags;
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Load the stored index (once) and re-read snippet files whose mtime or size changed.
+   * Concurrent callers share a running check
+   */
+  public async ensureFresh(force: boolean = false): Promise<void> {
+    if (!this.loaded) {
+      this.load();
+    }
+    if (!this.validation && (force || Date.now() - this.lastValidated >= SEARCH_INDEX_VALIDATE_INTERVAL_MS)) {
+      this.validation = this.validate().finally(() => {
+        this.validation = undefined;
+      });
+    }
+    await this.validation;
+  }
+
+  /**
+   * Re-read a single `.snippet` file (after save); drops it when it no longer exists
+   */
+  public async updateSnippet(snippetPath: string): Promise<void> {
+    if (!this.loaded) {
+      return; // the first search loads and validates everything anyway
+    }
+    const path = this.fsWrapper.normalizeMappedPath(snippetPath);
+    if (await this.fsWrapper.promises.exists(path)) {
+      await this.indexFile(path);
+    } else {
+      this.removeDocument(path);
+    }
+    this.scheduleSave();
+  }
+
+  /**
+   * Write pending changes immediately
+   */
+  public flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (this.loaded) {
+      this.save();
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // SnippetExplorerListener - keep the index in sync with explorer operations
+  // ---------------------------------------------------------------------------
+
+  onNodeRenamed(oldNode: string, newNode: string, isFolder: boolean): void {
+    this.movePaths(oldNode, newNode);
+  }
+
+  onNodeMoved(oldNode: string, newNode: string, isFolder: boolean): void {
+    this.movePaths(oldNode, newNode);
+  }
+
+  onNodeRemoved(node: string, isFolder: boolean): void {
+    if (!this.loaded) {
+      return;
+    }
+    const path = this.fsWrapper.normalizeMappedPath(node);
+    for (const known of this.pathsUnder(path)) {
+      this.removeDocument(known);
+    }
+    this.scheduleSave();
+  }
+
+  onNodeOverwrite(node: string, isFolder: boolean): void {
+    if (!this.loaded) {
+      return;
+    }
+    const path = this.fsWrapper.normalizeMappedPath(node);
+    for (const known of this.pathsUnder(path)) {
+      this.removeDocument(known);
+    }
+    this.indexPath(path, isFolder).catch(() => {
+      // picked up by the next mtime check
+    });
+    this.scheduleSave();
+  }
+
+  onNodeActivate(nodePath: string, isFolder: boolean): void {
+    // nothing to index
+  }
+
+  // ---------------------------------------------------------------------------
+  // Internals
+  // ---------------------------------------------------------------------------
+
+  private async validate(): Promise<void> {
+    let changed = false;
+    const seen = new Set<string>();
+    for (const path of await this.collectSnippetFiles()) {
+      let stats;
+      try {
+        stats = await this.fsWrapper.promises.stat(path);
+      } catch {
+        continue; // removed while walking
+      }
+      seen.add(path);
+      const indexed = this.documents.get(path);
+      if (!indexed || indexed.mtime !== stats.mtime.getTime() || indexed.size !== stats.size) {
+        await this.indexFile(path);
+        changed = true;
+      }
+    }
+    for (const path of Array.from(this.documents.keys())) {
+      if (!seen.has(path)) {
+        this.removeDocument(path);
+        changed = true;
+      }
+    }
+
+    this.lastValidated = Date.now();
+    if (changed) {
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Mapped paths of the `.snippet` files under a folder, or of every mount point
+   */
+  private async collectSnippetFiles(mappedPath?: string): Promise<string[]> {
+    const entries = mappedPath === undefined
+      ? await this.fsWrapper.promises.getRootChildren()
+      : await this.fsWrapper.promises.readDirectory(mappedPath);
+    const result: string[] = [];
+    for (const entry of entries) {
+      if (entry.isFolder) {
+        result.push(...await this.collectSnippetFiles(entry.fullPath));
+      } else if (isSnippetFile(entry.name)) {
+        result.push(entry.fullPath);
+      }
+    }
+    return result;
+  }
+
+  private async indexPath(path: string, isFolder: boolean): Promise<void> {
+    if (!isFolder) {
+      await this.updateSnippet(path);
+    } else if (await this.fsWrapper.promises.exists(path)) {
+      for (const file of await this.collectSnippetFiles(path)) {
+        await this.indexFile(file);
+      }
+      this.scheduleSave();
+    }
+  }
+
+  /**
+   * Snippets containing, for every term, a word that contains each of the term's word parts.
+   * This is a superset of the real matches; scoreDocument does the exact check.
+   */
+  private candidates(terms: string[]): string[] {
+    let result: Set<string> | undefined;
+    for (const term of terms) {
+      for (const part of indexWords(term)) {
+        const matching = new Set<string>();
+        for (const word of this.wordsContaining(part)) {
+          this.postings.get(word)!.forEach(p => matching.add(p));
+        }
+        result = result ? new Set(Array.from(result).filter(p => matching.has(p))) : matching;
+        if (result.size === 0) {
+          return [];
+        }
+      }
+    }
+    return Array.from(result ?? this.documents.keys());
+  }
+
+  /**
+   * Indexed words containing a fragment: the suffixes starting with it are adjacent
+   * in the sorted suffix list, so a binary search finds the first one
+   */
+  private wordsContaining(part: string): Set<string> {
+    const suffixes = this.getSuffixes();
+    let low = 0;
+    let high = suffixes.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (suffixes[mid].suffix < part) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    const words = new Set<string>();
+    for (let i = low; i < suffixes.length && suffixes[i].suffix.startsWith(part); i++) {
+      words.add(suffixes[i].word);
+    }
+    return words;
+  }
+
+  private getSuffixes(): WordSuffix[] {
+    if (!this.suffixes) {
+      const suffixes: WordSuffix[] = [];
+      this.postings.forEach((paths, word) => {
+        for (let i = 0; i < word.length; i++) {
+          suffixes.push({ suffix: word.substring(i), word });
+        }
+      });
+      suffixes.sort((a, b) => (a.suffix < b.suffix ? -1 : a.suffix > b.suffix ? 1 : 0));
+      this.suffixes = suffixes;
+    }
+    return this.suffixes;
+  }
+
+  private async indexFile(path: string): Promise<void> {
+    let entry: IndexedSnippet;
+    try {
+      const stats = await this.fsWrapper.promises.stat(path);
+      const content = parseSnippetContent(await this.fsWrapper.promises.readFile(path, 'utf-8'));
+      entry = { mtime: stats.mtime.getTime(), size: stats.size, doc: toSearchDocument(this.fsWrapper, path, content) };
+    } catch {
+      this.removeDocument(path);
+      return; // unreadable snippets are not searchable
+    }
+    this.removeDocument(path);
+    this.addDocument(path, entry);
+  }
+
+  private addDocument(path: string, entry: IndexedSnippet): void {
+    this.documents.set(path, entry);
+    documentWords(entry.doc).forEach(word => {
+      let paths = this.postings.get(word);
+      if (!paths) {
+        paths = new Set<string>();
+        this.postings.set(word, paths);
+        this.suffixes = undefined;
+      }
+      paths.add(path);
+    });
+  }
+
+  private removeDocument(path: string): void {
+    const entry = this.documents.get(path);
+    if (!entry) {
+      return;
+    }
+    documentWords(entry.doc).forEach(word => {
+      const paths = this.postings.get(word);
+      paths?.delete(path);
+      if (paths && paths.size === 0) {
+        this.postings.delete(word);
+        this.suffixes = undefined;
+      }
+    });
+    this.documents.delete(path);
+  }
+
+  private movePaths(oldNode: string, newNode: string): void {
+    if (!this.loaded) {
+      return;
+    }
+    const oldPath = this.fsWrapper.normalizeMappedPath(oldNode);
+    const newPath = this.fsWrapper.normalizeMappedPath(newNode);
+    for (const known of this.pathsUnder(oldPath)) {
+      const entry = this.documents.get(known)!;
+      this.removeDocument(known);
+      const moved = newPath + known.substring(oldPath.length);
+      if (isSnippetFile(moved)) {
+        this.addDocument(moved, { ...entry, doc: { ...entry.doc, path: moved } });
+      }
+    }
+    this.scheduleSave();
+  }
+
+  private pathsUnder(path: string): string[] {
+    return Array.from(this.documents.keys()).filter(p => p === path || p.startsWith(path + '/'));
+  }
+
+  private load(): void {
+    this.loaded = true;
+    let stored: StoredSearchIndex | undefined;
+    try {
+      const text = this.fsWrapper.readStorageFile(SEARCH_INDEX_FILE);
+      stored = text ? JSON.parse(text) : undefined;
+    } catch {
+      stored = undefined; // corrupt index - rebuilt by the validation below
+    }
+    if (!stored || stored.version !== SEARCH_INDEX_VERSION) {
+      return;
+    }
+
+    for (const [path, entry] of Object.entries(stored.documents || {})) {
+      this.documents.set(path, entry);
+    }
+    for (const [word, paths] of Object.entries(stored.postings || {})) {
+      this.postings.set(word, new Set(paths));
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save();
+    }, SAVE_DELAY_MS);
+  }
+
+  private save(): void {
+    const stored: StoredSearchIndex = {
+      version: SEARCH_INDEX_VERSION,
+      documents: Object.fromEntries(this.documents),
+      postings: Object.fromEntries(Array.from(this.postings, ([word, paths]) => [word, Array.from(paths)]))
+    };
+    try {
+      this.fsWrapper.writeStorageFile(SEARCH_INDEX_FILE, JSON.stringify(stored));
+    } catch {
+      // the index is a cache - it is rebuilt on next start
+    }
+  }
+}
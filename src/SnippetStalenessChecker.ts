@@ -0,0 +1,165 @@
+// File: SnippetStalenessChecker.ts
+// Checks snippet items of a mount point against the current workspace
+
+import { ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
+import { SnippetItem, getSnippetItemRange } from './SnippetItem';
+import { relocateAnchor } from './SnippetAnchor';
+import { collectSnippetFiles, readSnippetFile } from './SnippetFileReader';
+
+/**
+ * Reason why a snippet item no longer matches the workspace
+ */
+export type SnippetItemIssue =
+  'noLocation' | 'fileMissing' | 'lineOutOfRange' | 'relocated' | 'contentChanged' | 'contentMissing';
+
+export interface SnippetItemReport {
+  uid: string;
+  index: number;       // 0-based position of the item in the snippet
+  line: string;
+  filePath: string;
+  text: string;
+  issue: SnippetItemIssue;
+  message: string;
+}
+
+export interface SnippetFileReport {
+  path: string;        // mapped path of the `.snippet` file
+  title: string;
+  itemCount: number;
+  items: SnippetItemReport[]; // stale items only
+  error?: string;      // set when the file could not be parsed
+}
+
+export interface SnippetStalenessSummary {
+  snippetCount: number;
+  itemCount: number;
+  staleItemCount: number;
+}
+
+/**
+ * Reads the lines of a workspace-relative file, undefined when it does not exist
+ */
+export type WorkspaceFileReader = (filePath: string) => Promise<string[] | undefined>;
+
+export class SnippetStalenessChecker {
+  private fsWrapper: ISnippetorFilesystemWrapper;
+  private readLines: WorkspaceFileReader;
+  // Workspace files read during the current check
+  private fileCache = new Map<string, string[] | undefined>();
+
+  constructor(fsWrapper: ISnippetorFilesystemWrapper, readLines: WorkspaceFileReader) {
+    this.fsWrapper = fsWrapper;
+    this.readLines = readLines;
+  }
+
+  /**
+   * Check every `.snippet` file under a mapped folder (e.g. a mount point)
+   */
+  public async checkFolder(mappedPath: string): Promise<SnippetFileReport[]> {
+    this.fileCache.clear();
+    const reports: SnippetFileReport[] = [];
+    for (const snippetPath of collectSnippetFiles(this.fsWrapper, mappedPath)) {
+      reports.push(await this.checkSnippetFile(snippetPath));
+    }
+    this.fileCache.clear();
+    return reports;
+  }
+
+  /**
+   * Check all items of a single `.snippet` file
+   */
+  public async checkSnippetFile(snippetPath: string): Promise<SnippetFileReport> {
+    let content;
+    try {
+      content = readSnippetFile(this.fsWrapper, snippetPath);
+    } catch (err: any) {
+      return {
+        path: snippetPath,
+        title: this.fsWrapper.basename(snippetPath),
+        itemCount: 0,
+        items: [],
+        error: `Cannot read snippet: ${err.message}`
+      };
+    }
+
+    const items: SnippetItemReport[] = [];
+    for (let index = 0; index < content.snippets.length; index++) {
+      const item = content.snippets[index];
+      const problem = await this.checkItem(item);
+      if (problem) {
+        items.push({
+          uid: item.uid,
+          index,
+          line: item.line,
+          filePath: item.filePath,
+          text: item.text,
+          ...problem
+        });
+      }
+    }
+
+    return {
+      path: snippetPath,
+      title: content.title || this.fsWrapper.basename(snippetPath),
+      itemCount: content.snippets.length,
+      items
+    };
+  }
+
+  /**
+   * Returns undefined when the item still matches the workspace
+   */
+  public async checkItem(item: SnippetItem): Promise<{ issue: SnippetItemIssue; message: string } | undefined> {
+    const range = getSnippetItemRange(item);
+    if (!item.filePath || !range) {
+      return { issue: 'noLocation', message: 'Item has no file or line' };
+    }
+
+    const lines = await this.getLines(item.filePath);
+    if (!lines) {
+      return { issue: 'fileMissing', message: `File not found: ${item.filePath}` };
+    }
+
+    if (!item.anchor) {
+      if (range.startLine > lines.length) {
+        return {
+          issue: 'lineOutOfRange',
+          message: `Line ${range.startLine} is beyond the end of the file (${lines.length} lines)`
+        };
+      }
+      return undefined;
+    }
+
+    const result = relocateAnchor(lines, range, item.anchor);
+    switch (result.state) {
+      case 'relocated':
+        return { issue: 'relocated', message: `Code moved to line ${result.range.startLine}` };
+      case 'changed':
+        return { issue: 'contentChanged', message: `Code at line ${range.startLine} was changed` };
+      case 'stale':
+        return range.startLine > lines.length
+          ? { issue: 'lineOutOfRange', message: `Line ${range.startLine} is beyond the end of the file (${lines.length} lines)` }
+          : { issue: 'contentMissing', message: 'Referenced code was not found' };
+      default:
+        return undefined;
+    }
+  }
+
+  private async getLines(filePath: string): Promise<string[] | undefined> {
+    if (!this.fileCache.has(filePath)) {
+      this.fileCache.set(filePath, await this.readLines(filePath));
+    }
+    return this.fileCache.get(filePath);
+  }
+}
+
+/**
+ * Count snippets and items of a finished check
+ */
+export function summarizeStaleness(reports: SnippetFileReport[]): SnippetStalenessSummary {
+  return {
+    snippetCount: reports.length,
+    itemCount: reports.reduce((sum, r) => sum + r.itemCount, 0),
+    staleItemCount: reports.reduce((sum, r) => sum + r.items.length, 0)
+  };
+}
@@ -0,0 +1,85 @@
+// File: SnippetStalenessReportProvider.ts
+// Tree view listing the stale snippet items found by the last staleness check
+
+import * as vscode from 'vscode';
+import {
+  SnippetFileReport,
+  SnippetItemReport,
+  summarizeStaleness
+} from './SnippetStalenessChecker';
+
+type ReportNode =
+  { kind: 'snippet'; report: SnippetFileReport } |
+  { kind: 'item'; report: SnippetFileReport; item: SnippetItemReport };
+
+/**
+ * Tree view showing the result of the last staleness check:
+ * one node per snippet with stale items, one child per stale item.
+ * Clicking an item opens the snippet in the Working Snippet view at that item.
+ */
+export class SnippetStalenessReportProvider implements vscode.TreeDataProvider<ReportNode> {
+  public static readonly viewType = 'snippetStalenessReport';
+  public static readonly openItemCommand = 'snippetReport.openItem';
+
+  private reports: SnippetFileReport[] = [];
+  private view?: vscode.TreeView<ReportNode>;
+  private readonly changeEmitter = new vscode.EventEmitter<ReportNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  public register(): vscode.Disposable {
+    this.view = vscode.window.createTreeView(SnippetStalenessReportProvider.viewType, {
+      treeDataProvider: this,
+      showCollapseAll: true
+    });
+    this.view.message = 'Run "Check Snippet Staleness" on a mount point to fill this report.';
+    return this.view;
+  }
+
+  /**
+   * Replace the report content and reveal the view
+   */
+  public setReports(mountPath: string, reports: SnippetFileReport[]): void {
+    this.reports = reports.filter(r => r.items.length > 0 || r.error);
+    const summary = summarizeStaleness(reports);
+    if (this.view) {
+      this.view.message = summary.staleItemCount === 0 && this.reports.length === 0
+        ? `${mountPath}: all ${summary.itemCount} items in ${summary.snippetCount} snippets are up to date.`
+        : `${mountPath}: ${summary.staleItemCount} of ${summary.itemCount} items in ${summary.snippetCount} snippets need attention.`;
+    }
+    this.changeEmitter.fire(undefined);
+    vscode.commands.executeCommand(`${SnippetStalenessReportProvider.viewType}.focus`);
+  }
+
+  getTreeItem(node: ReportNode): vscode.TreeItem {
+    if (node.kind === 'snippet') {
+      const item = new vscode.TreeItem(node.report.title, vscode.TreeItemCollapsibleState.Expanded);
+      item.description = node.report.error ?? node.report.path;
+      item.tooltip = node.report.path;
+      item.iconPath = new vscode.ThemeIcon(node.report.error ? 'error' : 'file');
+      return item;
+    }
+
+    const report = node.item;
+    const item = new vscode.TreeItem(`Step ${report.index + 1}: ${report.line || report.filePath}`);
+    item.description = report.message;
+    item.tooltip = new vscode.MarkdownString(`**${report.filePath}**\n\n${report.message}\n\n---\n\n${report.text}`);
+    item.iconPath = new vscode.ThemeIcon(
+      report.issue === 'relocated' || report.issue === 'contentChanged' ? 'warning' : 'error');
+    item.command = {
+      command: SnippetStalenessReportProvider.openItemCommand,
+      title: 'Open Snippet Item',
+      arguments: [node.report.path, report.uid]
+    };
+    return item;
+  }
+
+  getChildren(node?: ReportNode): ReportNode[] {
+    if (!node) {
+      return this.reports.map(report => ({ kind: 'snippet', report }));
+    }
+    if (node.kind === 'snippet') {
+      return node.report.items.map(item => ({ kind: 'item', report: node.report, item }));
+    }
+    return [];
+  }
+}
@@ -0,0 +1,95 @@
+// File: SnippetTrash.ts
+// Trash node of the explorer: deleted entries can be restored until they are purged
+
+import { DirectoryEntry, ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
+import { SnippetFolderChange } from './SnippetFolderWatcher';
+
+// Virtual path of the Trash node in the explorer (not a mount point)
+export const TRASH_PATH = '/Trash';
+// Default for the 'snippetExplorer.trashRetentionDays' setting; 0 keeps entries forever
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Explorer node of a trashed entry ('/Trash/<id>'); never expandable
+ */
+export interface TrashNode extends DirectoryEntry {
+  trash: {
+    originalPath: string;
+    isFolder: boolean;
+    deletedAt: number;
+  };
+}
+
+export function isTrashPath(mappedPath: string): boolean {
+  return mappedPath === TRASH_PATH || mappedPath.startsWith(TRASH_PATH + '/');
+}
+
+export function trashIdOf(mappedPath: string): string {
+  return mappedPath.substring(TRASH_PATH.length + 1);
+}
+
+export class SnippetTrash {
+  private fsWrapper: ISnippetorFilesystemWrapper;
+
+  constructor(fsWrapper: ISnippetorFilesystemWrapper) {
+    this.fsWrapper = fsWrapper;
+  }
+
+  /**
+   * Children of the Trash node, newest first
+   */
+  public async getNodes(): Promise<TrashNode[]> {
+    return (await this.fsWrapper.promises.listTrash()).map(entry => ({
+      name: entry.name,
+      fullPath: `${TRASH_PATH}/${entry.id}`,
+      isFolder: false,
+      trash: { originalPath: entry.originalPath, isFolder: entry.isFolder, deletedAt: entry.deletedAt }
+    }));
+  }
+
+  /**
+   * Move an entry back to where it was deleted from
+   */
+  public async restore(id: string): Promise<SnippetFolderChange> {
+    const entry = (await this.fsWrapper.promises.listTrash()).find(e => e.id === id);
+    if (!entry) {
+      throw new Error('The item is no longer in the trash');
+    }
+    if (await this.fsWrapper.promises.exists(entry.originalPath)) {
+      throw new Error(`"${entry.originalPath}" already exists`);
+    }
+    await this.fsWrapper.promises.restoreFromTrash(id, entry.originalPath);
+    return { type: 'added', path: entry.originalPath, isFolder: entry.isFolder };
+  }
+
+  public async delete(id: string): Promise<void> {
+    await this.fsWrapper.promises.deleteFromTrash(id);
+  }
+
+  /**
+   * Delete everything in the trash; returns the number of deleted entries
+   */
+  public async empty(): Promise<number> {
+    const entries = await this.fsWrapper.promises.listTrash();
+    for (const entry of entries) {
+      await this.fsWrapper.promises.deleteFromTrash(entry.id);
+    }
+    return entries.length;
+  }
+
+  /**
+   * Delete entries older than the retention period; returns the number of deleted entries
+   */
+  public async purge(retentionDays: number, now: number = Date.now()): Promise<number> {
+    if (!(retentionDays > 0)) {
+      return 0;
+    }
+    const expired = (await this.fsWrapper.promises.listTrash()).filter(entry => now - entry.deletedAt > retentionDays * DAY_MS);
+    for (const entry of expired) {
+      await this.fsWrapper.promises.deleteFromTrash(entry.id);
+    }
+    return expired.length;
+  }
+}
@@ -1,11 +1,22 @@
 import { SnippetExplorerListener } from './SnippetExplorerHandler';
 import { ISnippetorWebViewHandler } from './ISnippetorWebViewHandler';
 import { ISnippetorApiProvider } from './ISnippetorApiProvider';
-import { ISnippetorFilesystemWrapper } from './ISnippetorFilesystemWrapper';
-
-function generateUID(): string {
-  return 'uid-' + Math.random().toString(36).substring(2, 10);
-}
+import { ISnippetorFilesystemWrapper, ReadonlyMountError } from './ISnippetorFilesystemWrapper';
+import {
+  SnippetItem,
+  SnippetRange,
+  generateUID,
+  formatSnippetLine,
+  getSnippetItemRange,
+  lastCoveredLine,
+  reorderSnippetItems
+} from './SnippetItem';
+import { createAnchor, relocateAnchor } from './SnippetAnchor';
+import { SnippetFileContent, normalizeTags, parseSnippetContent, serializeSnippetContent } from './SnippetFileReader';
+import { SnippetDiagramKind, SnippetDiagramStep, buildSnippetDiagram, noteSummary } from './SnippetDiagram';
+
+// Workspace state: snippet path → current tour step
+const TOUR_STEPS_KEY = 'snippetor.tourSteps';
 
 export class SnippetViewHandler implements ISnippetorWebViewHandler {
   //
@@ -15,20 +26,28 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
   //
   // List of snippets
   //
-  private snippetList: {  uid: string, text: string, filePath: string; line: string }[] = [];
+  private snippetList: SnippetItem[] = [];
   private editUid: string = '';
   private activeUid: string = '';
   //
   // TITLE + DESCRIPTION + PATH
   //
   // Original values
-  private snippetHead: { title: string, description: string, path: string} = { title : "", description: "", path: ""};
+  private snippetHead: { title: string, description: string, tags: string[], path: string} = { title : "", description: "", tags: [], path: ""};
   // User modified value, unless user saved snippet
-  private snippetHeadProposal: { title: string, description: string, path: string} = { title : "", description: "", path: ""};
+  private snippetHeadProposal: { title: string, description: string, tags: string[], path: string} = { title : "", description: "", tags: [], path: ""};
+  // Uid of the current tour item of a snippet not saved yet; saved snippets keep theirs in workspace state by path
+  private unsavedTourUid = '';
+
+  // Optional Mermaid diagram embedded in the snippet file
+  private snippetDiagram?: string;
 
-  // Cached path + selected line
+  // Cached path + selected line/range
   private cachedFilePath: string = '';
   private cachedSnippetLine: string = '';
+  private cachedRange?: SnippetRange;
+  // Lazy access to the lines of the document the cached range belongs to
+  private cachedDocumentLines?: () => string[];
   // ref to the explorer handler (will be set after creation)
   private explorer: any; // SnippetExplorerHandler - using any to avoid circular dependency
   // Filesystem wrapper instance
@@ -39,6 +58,11 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
   private isModified: boolean = false;
   // Listener helper instance
   private listenerHelper?: SnippetExplorerListenerHelper;
+
+  // Text written by the last save (the file watcher reports it like an external change)
+  private lastSaved?: { absolutePath: string; text: string };
+  // Called with the mapped path of every snippet written by saveSnippetToFile
+  private saveListeners: ((snippetPath: string) => void | Promise<void>)[] = [];
   // API provider for VSCode operations (set via setApiProvider)
   private apiProvider!: ISnippetorApiProvider;
 
@@ -67,9 +91,14 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
         fileExt: fileExt
       });
       if (!selection.isEmpty && fileExt && allowedExts.includes(fileExt)) {
-        const line = selection.active.line + 1;
+        const range: SnippetRange = {
+          startLine: selection.start.line + 1,
+          startColumn: selection.start.character,
+          endLine: selection.end.line + 1,
+          endColumn: selection.end.character
+        };
         const fullPath = document.fileName;
-        console.log("Selected line: ", line, " in file: ", fullPath);
+        console.log("Selected range: ", range, " in file: ", fullPath);
         const workspaceFolder = this.apiProvider.getWorkspaceFolder(document.uri);
 
         console.log("Selected file workspace folder: ", workspaceFolder);
@@ -79,12 +108,14 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
 
         console.log("Selected file relative path: ", relativePath);
         const fileName = this.fsWrapper.getBasenameFromAbsolute(relativePath);
-        const snippetLine = `${fileName}:${line}`;
+        const snippetLine = formatSnippetLine(fileName, range);
 
         console.log("Selected file name : ", fileName);
 
         this.cachedFilePath = relativePath;
         this.cachedSnippetLine = snippetLine;
+        this.cachedRange = range;
+        this.cachedDocumentLines = () => document.getText().split(/\r?\n/);
 
         console.log("Cached file path and line: ", this.cachedFilePath, this.cachedSnippetLine);
 
@@ -94,7 +125,9 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
             data: {
               uid: this.editUid,
               filePath: relativePath,
-              line: snippetLine
+              line: snippetLine,
+              range,
+              anchor: createAnchor(this.cachedDocumentLines(), range)
             }
           });
         }
@@ -113,6 +146,11 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
     this.explorer = explorer;
   }
 
+  // Register a callback for saved snippet files (e.g. to refresh the snippet index)
+  public onSnippetSaved(listener: (snippetPath: string) => void | Promise<void>): void {
+    this.saveListeners.push(listener);
+  }
+
   // Implement ISnippetorWebViewHandler interface
   getHtmlFileName(): string {
     return 'snippetView.html';
@@ -139,12 +177,16 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
           //
           // call it directly
           //
-          this.saveSnippetToFile({
+          if (!(await this.saveSnippetToFile({
             title: this.snippetHeadProposal.title,
             description: this.snippetHeadProposal.description,
+            tags: this.snippetHeadProposal.tags,
             path: message.data.path,
-            snippets: this.snippetList
-          });
+            snippets: this.snippetList,
+            diagram: this.snippetDiagram
+          }))) {
+            break; // keep the unsaved snippet open
+          }
 
           // reset state
           this.resetSnippetState();
@@ -161,8 +203,13 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
         case 'openSnippetItem': {
             const snippet = this.snippetList.find(s => s.uid === message.data.uid);
             if (snippet) {
-              const line = parseInt(snippet.line.split(":")[1]);
-              await this.apiProvider.showTextDocument(snippet.filePath, line);
+              const range = await this.relocateSnippetItem(snippet);
+              if (range) {
+                await this.apiProvider.showTextDocument(
+                  snippet.filePath, range.startLine, range.endLine, range.startColumn, range.endColumn);
+              } else {
+                this.apiProvider.showWarningMessage(`Snippet item has no line information: ${snippet.line}`);
+              }
 
               // NOW it is an active snippet item
               this.activeUid = snippet.uid;
@@ -233,13 +280,23 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
         //
         case 'updateSnippetHead': {
           // NOTE: we do not change snippet head, just proposal only
-          // Save title/description/path
+          // Save title/description/tags/path
           this.snippetHeadProposal = {
             ...this.snippetHeadProposal,
             ...Object.fromEntries(
               Object.entries(message.data).filter(([_, v]) => v !== undefined)
             )
           };
+          // tags are typed as a comma separated list
+          this.snippetHeadProposal.tags = normalizeTags(this.snippetHeadProposal.tags);
+          this.isModified = true;
+          break;
+        }
+        //
+        // Cards were reordered by drag-and-drop; the view is already up to date
+        //
+        case 'reorderSnippetItems': {
+          this.snippetList = reorderSnippetItems(this.snippetList, message.data.uids);
           this.isModified = true;
           break;
         }
@@ -257,11 +314,17 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
 
   public newSnippetItem(label: string) {
     const uid = generateUID();
-    const newItem = { 
+    const newItem: SnippetItem = { 
       filePath: this.cachedFilePath, 
       line: this.cachedSnippetLine, 
       uid, 
       text:"" };
+    if (this.cachedRange) {
+      newItem.range = { ...this.cachedRange };
+      if (this.cachedDocumentLines) {
+        newItem.anchor = createAnchor(this.cachedDocumentLines(), this.cachedRange);
+      }
+    }
     //
     // insert right after an active snippet item
     //
@@ -285,14 +348,87 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
     this.activeUid = uid;
   }
 
+  //
+  // Move Up / Move Down - move the active item one step within the snippet
+  //
+  public moveItemUp(): void {
+    this.moveActiveItem(-1);
+  }
+
+  public moveItemDown(): void {
+    this.moveActiveItem(1);
+  }
+
+  private moveActiveItem(delta: number): void {
+    const index = this.snippetList.findIndex(s => s.uid === this.activeUid);
+    if (index === -1) {
+      this.apiProvider.showInformationMessage('Select a snippet item to move.');
+      return;
+    }
+    const target = index + delta;
+    if (target < 0 || target >= this.snippetList.length) {
+      return;
+    }
+    const [item] = this.snippetList.splice(index, 1);
+    this.snippetList.splice(target, 0, item);
+    this.isModified = true;
+    this.refresh(item.uid);
+  }
+
+  /**
+   * Find where the content anchored by an item lives now.
+   * Relocated items are moved (and re-anchored) and the snippet is marked modified;
+   * the resulting state is shown on the item card.
+   */
+  private async relocateSnippetItem(snippet: SnippetItem): Promise<SnippetRange | undefined> {
+    const range = getSnippetItemRange(snippet);
+    if (!range || !snippet.anchor) {
+      return range;
+    }
+
+    const lines = await this.apiProvider.readTextDocumentLines(snippet.filePath);
+    if (!lines) {
+      this.updateAnchorState(snippet, 'stale');
+      return range;
+    }
+
+    const result = relocateAnchor(lines, range, snippet.anchor);
+    if (result.state === 'relocated') {
+      snippet.range = result.range;
+      snippet.line = formatSnippetLine(this.fsWrapper.getBasenameFromAbsolute(snippet.filePath), result.range);
+      snippet.anchor = createAnchor(lines, result.range);
+      this.isModified = true;
+    }
+    this.updateAnchorState(snippet, result.state);
+    return result.range;
+  }
+
+  private updateAnchorState(snippet: SnippetItem, state: SnippetItem['anchorState']) {
+    // Keep a "relocated" mark until the snippet is reloaded, even if later opens are exact
+    if (state === 'ok' && snippet.anchorState === 'relocated') {
+      return;
+    }
+    snippet.anchorState = state === 'ok' ? undefined : state;
+    this.sendMessageToView('updateAnchorState', {
+      uid: snippet.uid,
+      line: snippet.line,
+      range: snippet.range,
+      anchor: snippet.anchor,
+      anchorState: snippet.anchorState
+    });
+  }
+
   private resetSnippetState() {
               // empty local snippet list
               this.snippetList = [];
               this.errorMessage = "";
-              this.snippetHead = { title: "", description: "", path: ""};
-              this.snippetHeadProposal = this.snippetHead = { title: "", description: "", path: ""};
+              this.snippetHead = { title: "", description: "", tags: [], path: ""};
+              this.snippetHeadProposal = this.snippetHead = { title: "", description: "", tags: [], path: ""};
               this.currentSnippetFullPath = '';
+              this.snippetDiagram = undefined;
               this.isModified = false;
+              this.unsavedTourUid = '';
+              this.apiProvider.clearNote();
               
               // Reset the listener's active file
               if (this.listenerHelper) {
@@ -308,8 +444,11 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
     this.snippetList = [];
     this.editUid = '';
     this.activeUid = '';
-    this.snippetHead = { title: "", description: "", path: ""};
-    this.snippetHeadProposal= { title: "", description: "", path: ""};
+    this.snippetHead = { title: "", description: "", tags: [], path: ""};
+    this.snippetHeadProposal= { title: "", description: "", tags: [], path: ""};
+    this.snippetDiagram = undefined;
+    this.unsavedTourUid = '';
+    this.apiProvider.clearNote();
     this.refresh();
   }
 
@@ -326,18 +465,21 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
   //
   public loadSnippetFromJSON(
     error: string,
-    snippetList : {  uid: string, text: string, filePath: string; line: string }[],
-    head : { title: string, description: string, path: string}) {
+    snippetList : SnippetItem[],
+    head : { title: string, description: string, tags: string[], path: string},
+    diagram?: string) {
 
+      this.unsavedTourUid = '';
       if (error !== "") {
         //
         // Failed to open, just erase UI,
         // TODO: Add error message
         //
         this.errorMessage = error;
-        this.snippetHead = { title: "", description: "", path: head.path};
-        this.snippetHeadProposal = this.snippetHead = { title: "", description: "", path: head.path};
+        this.snippetHead = { title: "", description: "", tags: [], path: head.path};
+        this.snippetHeadProposal = this.snippetHead = { title: "", description: "", tags: [], path: head.path};
         this.snippetList = [];
+        this.snippetDiagram = undefined;
         this.currentSnippetFullPath = '';
       }
       else {
@@ -347,6 +489,7 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
         this.snippetHeadProposal = Object.assign({}, head);
         // Copy snippets list from saved data in file
         this.snippetList = snippetList;
+        this.snippetDiagram = diagram;
         // Store full path: convert relative path (like /Drafts/file.snippet) to full path
         this.currentSnippetFullPath = head.path ? this.fsWrapper.resolve(head.path) : '';
         
@@ -375,20 +518,142 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
       if (result === undefined) {
         return; // Cancel — keep current snippet open
       }
-      if (result === 'Save') {
-        this.saveSnippetToFile({
-          title: this.snippetHeadProposal.title,
-          description: this.snippetHeadProposal.description,
-          path: this.snippetHeadProposal.path,
-          snippets: this.snippetList
-        });
+      if (result === 'Save' && !(await this.saveSnippetToFile({
+        title: this.snippetHeadProposal.title,
+        description: this.snippetHeadProposal.description,
+        tags: this.snippetHeadProposal.tags,
+        path: this.snippetHeadProposal.path,
+        snippets: this.snippetList,
+        diagram: this.snippetDiagram
+      }))) {
+        return; // Save failed — keep current snippet open with its changes
       }
     }
-    const { error, snippets, head } = this.readSnippetFromFileItem(nodePath);
-    this.loadSnippetFromJSON(error, snippets, head);
+    const { error, snippets, head, diagram } = await this.readSnippetFromFileItem(nodePath);
+    this.loadSnippetFromJSON(error, snippets, head, diagram);
   }
 
 
+  /**
+   * Open a snippet file (unless it is already open) and open one of its items
+   */
+  public async revealSnippetItem(nodePath: string, uid: string): Promise<void> {
+    if (this.snippetHead.path !== nodePath || this.errorMessage !== '') {
+      await this.activateNode(nodePath);
+      if (this.snippetHead.path !== nodePath) {
+        return; // user kept the current snippet
+      }
+    }
+    await this.onDidReceiveMessage({ command: 'openSnippetItem', data: { uid } });
+    this.refresh();
+  }
+
+  /**
+   * Open a snippet file (unless it is already open) and scroll to one of its items
+   * without opening the referenced source file
+   */
+  public async showSnippetItem(nodePath: string, uid: string): Promise<void> {
+    if (this.snippetHead.path !== nodePath || this.errorMessage !== '') {
+      await this.activateNode(nodePath);
+      if (this.snippetHead.path !== nodePath) {
+        return; // user kept the current snippet
+      }
+    }
+    if (this.snippetList.some(s => s.uid === uid)) {
+      this.activeUid = uid;
+    }
+    this.refresh(uid);
+  }
+
+  //
+  // Tour mode - step through the items of the working snippet in order
+  //
+  public async tourNext(): Promise<void> {
+    const step = this.getTourStep();
+    if (step >= this.snippetList.length - 1 && this.snippetList.length > 0) {
+      this.apiProvider.showInformationMessage('This is the last step of the snippet.');
+      return;
+    }
+    await this.showTourStep(step + 1);
+  }
+
+  public async tourPrevious(): Promise<void> {
+    await this.showTourStep(Math.max(this.getTourStep() - 1, 0));
+  }
+
+  public async tourRestart(): Promise<void> {
+    await this.showTourStep(0);
+  }
+
+  /**
+   * Current step of the working snippet (-1 when the tour was not started or its item is gone).
+   * Progress is kept as the item uid, so reordering the items does not move it to another item.
+   */
+  private getTourStep(): number {
+    const steps = this.apiProvider.getWorkspaceState<Record<string, string>>(TOUR_STEPS_KEY, {});
+    const uid = this.snippetHead.path ? steps[this.toTourKey(this.snippetHead.path)] : this.unsavedTourUid;
+    return this.snippetList.findIndex(s => s.uid === uid);
+  }
+
+  private setTourStep(uid: string): void {
+    if (!this.snippetHead.path) {
+      this.unsavedTourUid = uid;
+      return;
+    }
+    const steps = this.apiProvider.getWorkspaceState<Record<string, string>>(TOUR_STEPS_KEY, {});
+    this.apiProvider.setWorkspaceState(TOUR_STEPS_KEY, { ...steps, [this.toTourKey(this.snippetHead.path)]: uid });
+  }
+
+  private toTourKey(nodePath: string): string {
+    return this.fsWrapper.normalizeMappedPath(this.fsWrapper.mapPath(nodePath));
+  }
+
+  /**
+   * Tour steps follow their snippets when a snippet or a folder of snippets is renamed or moved.
+   * Removed snippets keep theirs: they go to the Trash and undo brings them back to the same path.
+   */
+  public moveTourSteps(oldPath: string, newPath: string, isFolder: boolean): void {
+    const steps = this.apiProvider.getWorkspaceState<Record<string, string>>(TOUR_STEPS_KEY, {});
+    const oldKey = this.toTourKey(oldPath);
+    const newKey = this.toTourKey(newPath);
+    const updated: Record<string, string> = {};
+    let changed = false;
+    for (const [key, uid] of Object.entries(steps)) {
+      const affected = key === oldKey || (isFolder && key.startsWith(oldKey + '/'));
+      if (!affected) {
+        updated[key] = uid;
+      } else {
+        changed = true;
+        updated[newKey + key.substring(oldKey.length)] = uid;
+      }
+    }
+    if (changed) {
+      this.apiProvider.setWorkspaceState(TOUR_STEPS_KEY, updated);
+    }
+  }
+
+  private async showTourStep(step: number): Promise<void> {
+    if (this.snippetList.length === 0) {
+      this.apiProvider.showInformationMessage('Open a snippet with items to start the tour.');
+      return;
+    }
+
+    // open the location the same way as clicking the item card
+    const snippet = this.snippetList[step];
+    this.setTourStep(snippet.uid);
+    await this.onDidReceiveMessage({ command: 'openSnippetItem', data: { uid: snippet.uid } });
+
+    const range = getSnippetItemRange(snippet);
+    if (range) {
+      const title = this.snippetHead.title || 'Snippet';
+      this.apiProvider.showNote(snippet.filePath, range.startLine, lastCoveredLine(range),
+        `${title} — step ${step + 1} of ${this.snippetList.length}`, snippet.text);
+    } else {
+      this.apiProvider.clearNote();
+    }
+    this.refresh();
+  }
+
   //
   // showSaveDialog - sends message to webview
   //
@@ -403,36 +668,70 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
   }
 
   /**
-   * Save snippet to file
+   * Save snippet to file. Resolves to false when nothing was written
    */
-  private saveSnippetToFile(payload: any) {
+  private async saveSnippetToFile(payload: any): Promise<boolean> {
     if (!payload?.path || typeof payload.path !== 'string') {
       this.apiProvider.showErrorMessage('Invalid snippet path.');
-      return;
+      return false;
     }
 
     // payload.path is relative path (e.g., "Drafts/subfolder/file.snippet")
     const relativePath = payload.path;
     const parentDir = this.fsWrapper.dirname(relativePath);
 
-    if (!this.fsWrapper.exists(parentDir)) {
+    if (!(await this.fsWrapper.promises.exists(parentDir))) {
       this.apiProvider.showErrorMessage(`Directory does not exist: ${parentDir}`);
-      return;
+      return false;
     }
 
-    // Exclude path from payload
-    const {path: _ignored, ...content} = payload;
-    const jsonData = JSON.stringify(content, null, 2);
+    // Runtime-only item state and empty tags are dropped by the serializer
+    const jsonData = serializeSnippetContent({
+      title: payload.title ?? '',
+      description: payload.description ?? '',
+      tags: payload.tags,
+      snippets: payload.snippets || [],
+      diagram: payload.diagram
+    });
 
     try {
-      this.fsWrapper.writeFile(relativePath, jsonData, 'utf-8');
-      const absolutePath = this.fsWrapper.toAbsolutePath(relativePath);
+      // the replaced version stays available as "Restore Previous Version"
+      await this.fsWrapper.promises.backupFile(relativePath);
+      await this.fsWrapper.promises.writeFile(relativePath, jsonData, 'utf-8');
+      const absolutePath = this.fsWrapper.resolve(relativePath);
+      this.lastSaved = { absolutePath, text: jsonData };
       this.apiProvider.showInformationMessage(`Snippet saved to: ${absolutePath}`);
       // Notify explorer view to add the new snippet if parent folder is expanded
       this.explorer.notifyNewSnippetCreated(relativePath, parentDir);
+      await this.notifySaveListeners(relativePath);
+      return true;
     } catch (err: any) {
-      this.apiProvider.showErrorMessage(
-          `Failed to save snippet: ${err.message}`);
+      if (err instanceof ReadonlyMountError) {
+        // offer to pick a writable location instead of dropping the edits
+        this.apiProvider.showErrorMessage(`Failed to save snippet: ${err.message}`, 'Save As...')
+          .then(choice => {
+            if (choice === 'Save As...') {
+              this.showSaveDialogToView();
+            }
+          });
+      } else {
+        this.apiProvider.showErrorMessage(
+            `Failed to save snippet: ${err.message}`);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Run the save listeners one after another; the file is already saved, so failures are only reported
+   */
+  private async notifySaveListeners(relativePath: string): Promise<void> {
+    for (const listener of this.saveListeners) {
+      try {
+        await listener(relativePath);
+      } catch (err: any) {
+        this.apiProvider.showErrorMessage(`Snippet saved, but updating its indexes failed: ${err.message}`);
+      }
     }
   }
 
@@ -462,12 +761,13 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
     });
   }
 
-  private refresh() {
+  private refresh(revealUid?: string) {
     this.apiProvider.postMessage({
       command: 'updateSnippetList',
       data: {
         snippets: this.snippetList,
         activeUid: this.activeUid,
+        revealUid,
         head1: this.snippetHead,
         head2: this.snippetHeadProposal,
         error: this.errorMessage
@@ -480,12 +780,12 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
    */
   public sendActiveFileUpdate(action: string, newFileName: string): void {
     if (this.currentSnippetFullPath !== '') {
-      const newRelativePath = this.fsWrapper.absoluteToRelativePathWithSlash(newFileName);
+      const newRelativePath = this.fsWrapper.mapPath(newFileName);
       
       // Update both original and proposal paths
       this.snippetHead.path = newRelativePath;
       this.snippetHeadProposal.path = newRelativePath;
-      this.currentSnippetFullPath = newFileName;
+      this.currentSnippetFullPath = this.fsWrapper.resolve(newRelativePath);
       
       this.refresh();
       this.apiProvider.showInformationMessage(`Snippet ${action}: ${this.fsWrapper.getBasename(newFileName)}`);
@@ -506,34 +806,30 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
    * Read snippet from file item
    * @param relativePath Relative path to the snippet file (e.g., "Drafts/file.snippet")
    */
-  public readSnippetFromFileItem(relativePath: string): {
-    error: string; snippets: any[];
-    head: {title: string; description: string; path: string};
-  } {
+  public async readSnippetFromFileItem(relativePath: string): Promise<{
+    error: string; snippets: SnippetItem[];
+    head: {title: string; description: string; tags: string[]; path: string};
+    diagram?: string;
+  }> {
     // relativePath is relative path (e.g., "Drafts/file.snippet")
-    if (!this.fsWrapper.exists(relativePath)) {
+    if (!(await this.fsWrapper.promises.exists(relativePath))) {
       this.apiProvider.showErrorMessage('Snippet file not found.');
       return {
         error: 'File not found.',
         snippets: [],
-        head: {title: '', description: '', path: relativePath}
+        head: {title: '', description: '', tags: [], path: relativePath}
       };
     }
 
     try {
-      const content = this.fsWrapper.readFile(relativePath, 'utf-8');
-      const json = JSON.parse(content);
-
-      const title = typeof json.title === 'string' ? json.title : '';
-      const description =
-          typeof json.description === 'string' ? json.description : '';
-
-      const {title: _t, description: _d, ...snippets} = json;
+      const {title, description, tags, snippets, diagram} =
+        parseSnippetContent(await this.fsWrapper.promises.readFile(relativePath, 'utf-8'));
 
       return {
         error: '',
-        snippets: json.snippets,
-        head: {title, description, path: relativePath}
+        snippets,
+        head: {title, description, tags: tags ?? [], path: relativePath},
+        diagram
       };
     } catch (err: any) {
       this.apiProvider.showErrorMessage(
@@ -541,7 +837,7 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
       return {
         error: err.message,
         snippets: [],
-        head: {title: '', description: '', path: relativePath}
+        head: {title: '', description: '', tags: [], path: relativePath}
       };
     }
   }
@@ -569,6 +865,66 @@ export class SnippetViewHandler implements ISnippetorWebViewHandler {
     return this.apiProvider.showInformationMessage(message, ...allItems);
   }
 
+  //
+  // Diagram - Mermaid source generated from the snippet items
+  //
+  public async generateDiagram(kind: SnippetDiagramKind): Promise<string> {
+    const steps: SnippetDiagramStep[] = [];
+    for (const item of this.snippetList) {
+      const range = getSnippetItemRange(item);
+      if (!item.filePath || !range) {
+        continue; // items without a location have no participant
+      }
+      const symbol = await this.apiProvider.getEnclosingSymbol(item.filePath, range.startLine);
+      const fileName = this.fsWrapper.getBasenameFromAbsolute(item.filePath);
+      steps.push({
+        participant: symbol ? `${symbol} (${fileName})` : item.filePath,
+        label: noteSummary(item.text)
+      });
+    }
+    return buildSnippetDiagram(kind, steps);
+  }
+
+  public getDiagram(): string | undefined {
+    return this.snippetDiagram;
+  }
+
+  /**
+   * Embed (or remove) the diagram; it is written with the next save
+   */
+  public setDiagram(source: string | undefined): void {
+    this.snippetDiagram = source;
+    this.isModified = true;
+  }
+
+  /**
+   * Content of the working snippet including unsaved edits (for export)
+   */
+  public getSnippetContent(): SnippetFileContent & { path: string } {
+    return {
+      title: this.snippetHeadProposal.title,
+      description: this.snippetHeadProposal.description,
+      tags: this.snippetHeadProposal.tags,
+      path: this.snippetHead.path,
+      snippets: this.snippetList,
+      diagram: this.snippetDiagram
+    };
+  }
+
+  /**
+   * True when a snippet file (mapped path) still holds exactly what the last save wrote
+   */
+  public isOwnSave(nodePath: string): boolean {
+    if (!this.lastSaved || this.fsWrapper.resolve(nodePath) !== this.lastSaved.absolutePath) {
+      return false;
+    }
+    try {
+      return this.fsWrapper.readFile(nodePath, 'utf-8') === this.lastSaved.text;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Get filesystem wrapper (for listener helper)
    */
@@ -609,15 +965,34 @@ class SnippetExplorerListenerHelper implements SnippetExplorerListener {
    * Check if a file is the active file
    */
   private isActiveFile(fullPath: string): boolean {
-    return this.activeFile !== '' && 
-           this.fsWrapper.normalize(this.activeFile) === this.fsWrapper.normalize(fullPath);
+    return this.activeFile !== '' && this.toMappedPath(this.activeFile) === this.toMappedPath(fullPath);
+  }
+
+  /**
+   * Active file is absolute, explorer events use mapped paths (with or without leading '/')
+   */
+  private toMappedPath(nodePath: string): string {
+    return this.fsWrapper.normalizeMappedPath(this.fsWrapper.mapPath(nodePath));
+  }
+
+  /**
+   * New mapped path of the active file when a folder containing it moved, undefined otherwise
+   */
+  private movedActiveFile(oldFolder: string, newFolder: string): string | undefined {
+    if (!this.activeFile) {
+      return undefined;
+    }
+    const active = this.toMappedPath(this.activeFile);
+    const folder = this.toMappedPath(oldFolder);
+    return active.startsWith(folder + '/') ? this.toMappedPath(newFolder) + active.substring(folder.length) : undefined;
   }
 
   onNodeRenamed(oldNode: string, newNode: string, isFolder: boolean): void {
+    this.handler.moveTourSteps(oldNode, newNode, isFolder);
     if (isFolder) {
       // Folder renamed - check if active file is inside this folder
-      if (this.activeFile && this.activeFile.startsWith(oldNode + this.fsWrapper.pathSep)) {
-        const newFile = this.fsWrapper.movePathRelativeTo(oldNode, this.activeFile, newNode);
+      const newFile = this.movedActiveFile(oldNode, newNode);
+      if (newFile) {
         this.activeFile = newFile;
         this.handler.sendActiveFileUpdate('moved (folder renamed)', newFile);
       }
@@ -631,10 +1006,11 @@ class SnippetExplorerListenerHelper implements SnippetExplorerListener {
   }
 
   onNodeMoved(oldNode: string, newNode: string, isFolder: boolean): void {
+    this.handler.moveTourSteps(oldNode, newNode, isFolder);
     if (isFolder) {
       // Folder moved - check if active file is inside this folder
-      if (this.activeFile && this.activeFile.startsWith(oldNode + this.fsWrapper.pathSep)) {
-        const newFile = this.fsWrapper.movePathRelativeTo(oldNode, this.activeFile, newNode);
+      const newFile = this.movedActiveFile(oldNode, newNode);
+      if (newFile) {
         this.activeFile = newFile;
         this.handler.sendActiveFileUpdate('moved (folder moved)', newFile);
       }
@@ -652,12 +1028,12 @@ class SnippetExplorerListenerHelper implements SnippetExplorerListener {
       return;
     }
 
-    const normalizedNode = this.fsWrapper.normalize(node);
-    const normalizedActiveFile = this.fsWrapper.normalize(this.activeFile);
+    const normalizedNode = this.toMappedPath(node);
+    const normalizedActiveFile = this.toMappedPath(this.activeFile);
 
     if (isFolder) {
       // Folder removed - check if it's a parent of the snippet path
-      const folderWithSep = normalizedNode + this.fsWrapper.pathSep;
+      const folderWithSep = normalizedNode + '/';
       if (normalizedActiveFile.startsWith(folderWithSep)) {
         const removedFolderName = this.fsWrapper.getBasename(normalizedNode);
         const activeFileName = this.fsWrapper.getBasename(normalizedActiveFile);
@@ -681,9 +1057,13 @@ class SnippetExplorerListenerHelper implements SnippetExplorerListener {
     }
   }
 
-  onNodeActivate(nodePath: string, isFolder: boolean): void {
+  onNodeActivate(nodePath: string, isFolder: boolean, itemUid?: string): void {
     if (!isFolder) {
-      this.handler.activateNode(nodePath);
+      if (itemUid) {
+        this.handler.showSnippetItem(nodePath, itemUid);
+      } else {
+        this.handler.activateNode(nodePath);
+      }
     }
   }
 
@@ -694,16 +1074,16 @@ class SnippetExplorerListenerHelper implements SnippetExplorerListener {
         return;
       }
 
-      const normalizedFolder = this.fsWrapper.normalize(node);
-      const normalizedActiveFile = this.fsWrapper.normalize(this.activeFile);
-      const folderWithSep = normalizedFolder + this.fsWrapper.pathSep;
+      const normalizedFolder = this.toMappedPath(node);
+      const normalizedActiveFile = this.toMappedPath(this.activeFile);
+      const folderWithSep = normalizedFolder + '/';
 
       if (normalizedActiveFile.startsWith(folderWithSep)) {
         // The snippet file path contains the overwritten folder
         // Check if the snippet file still exists after the overwrite
         const activeFilePath = this.activeFile;
-        // Convert absolute path to relative path for the wrapper
-        const relativePath = this.fsWrapper.toRelativePath(activeFilePath);
+        // Convert absolute path to mapped path for the wrapper
+        const relativePath = this.toMappedPath(activeFilePath);
         if (this.fsWrapper.exists(relativePath)) {
           // File still exists, propose to reload
           const fileName = this.fsWrapper.getBasename(activeFilePath);
@@ -712,11 +1092,11 @@ class SnippetExplorerListenerHelper implements SnippetExplorerListener {
             true,
             'Reload',
             'Keep Current'
-          ).then(result => {
+          ).then(async result => {
             if (result === 'Reload') {
               // Reload the snippet from file
-              const { error, snippets, head } = this.handler.readSnippetFromFileItem(relativePath);
-              this.handler.loadSnippetFromJSON(error, snippets, head);
+              const { error, snippets, head, diagram } = await this.handler.readSnippetFromFileItem(relativePath);
+              this.handler.loadSnippetFromJSON(error, snippets, head, diagram);
               this.handler.showInformationMessage(`Snippet reloaded: ${fileName}`);
             }
           });
@@ -732,7 +1112,8 @@ class SnippetExplorerListenerHelper implements SnippetExplorerListener {
       }
     } else {
       // File overwritten - check if it's the active snippet
-      if (this.isActiveFile(node)) {
+      // (skip the file watcher's report of our own save)
+      if (this.isActiveFile(node) && !this.handler.isOwnSave(node)) {
         const fileName = this.fsWrapper.getBasename(node);
         
         // Show dialog to propose reload (fire and forget - don't block)
@@ -741,13 +1122,13 @@ class SnippetExplorerListenerHelper implements SnippetExplorerListener {
           true,
           'Reload',
           'Keep Current'
-        ).then(result => {
+        ).then(async result => {
           if (result === 'Reload') {
             // Reload the snippet from file
-            // Convert absolute path to relative path
-            const relativePath = this.fsWrapper.toRelativePath(node);
-            const { error, snippets, head } = this.handler.readSnippetFromFileItem(relativePath);
-            this.handler.loadSnippetFromJSON(error, snippets, head);
+            // Convert absolute path to mapped path
+            const relativePath = this.toMappedPath(node);
+            const { error, snippets, head, diagram } = await this.handler.readSnippetFromFileItem(relativePath);
+            this.handler.loadSnippetFromJSON(error, snippets, head, diagram);
             this.handler.showInformationMessage(`Snippet reloaded: ${fileName}`);
           }
         });
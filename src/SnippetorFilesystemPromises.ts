@@ -0,0 +1,326 @@
+// File: SnippetorFilesystemPromises.ts
+// Promise-based directory and file operations of SnippetorFilesystemsWrapper
+// (fs.promises instead of fs.*Sync, so a slow mount point never blocks the extension host)
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  DirectoryEntry,
+  FsOperationCancelledError,
+  FsOperationOptions,
+  ISnippetorFilesystemPromises,
+  ISnippetorFilesystemWrapper,
+  ReadonlyMountError,
+  TrashEntry
+} from './ISnippetorFilesystemWrapper';
+import { ORDER_FILE_NAME, parseOrder, renameInOrder, sortDirectoryEntries } from './SnippetFolderOrder';
+import { isTempFile, writeFileAtomic } from './SnippetAtomicWrite';
+
+const fsp = fs.promises;
+
+async function pathExists(absolutePath: string): Promise<boolean> {
+  try {
+    await fsp.access(absolutePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Absolute locations next to config.json, shared with the wrapper's sync operations
+ */
+export interface SnippetorStorageLocations {
+  trashFolder(): string;
+  trashPath(id: string): string;          // throws for an invalid id
+  newTrashId(deletedAt: number): string;
+  stashPath(stashId: string): string;     // throws for an invalid id
+  backupPath(mappedPath: string): string;
+}
+
+/**
+ * Uses the wrapper for the mapped ↔ absolute path conversion only
+ */
+export class SnippetorFilesystemPromises implements ISnippetorFilesystemPromises {
+  private wrapper: ISnippetorFilesystemWrapper;
+  private storage: SnippetorStorageLocations;
+
+  constructor(wrapper: ISnippetorFilesystemWrapper, storage: SnippetorStorageLocations) {
+    this.wrapper = wrapper;
+    this.storage = storage;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Directory operations
+  // ---------------------------------------------------------------------------
+
+  public async getRootChildren(): Promise<DirectoryEntry[]> {
+    const folders = this.wrapper.getFolders();
+    const existing = await Promise.all(folders.map(f => pathExists(f.absolutePath)));
+    return folders
+        .filter((_, index) => existing[index])
+        .map(f => ({
+          name: f.mountPoint.slice(1),
+          fullPath: f.mountPoint,
+          isFolder: true,
+          ...(f.readonly ? { readonly: true } : {}),
+          ...(f.origin ? { origin: f.origin } : {})
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public async readDirectory(mappedPath: string): Promise<DirectoryEntry[]> {
+    const absolutePath = this.wrapper.resolve(mappedPath);
+    if (!(await pathExists(absolutePath))) {
+      return [];
+    }
+    const names = (await fsp.readdir(absolutePath)).filter(name => name !== ORDER_FILE_NAME && !isTempFile(name));
+    const entries = await Promise.all(names.map(async name => {
+      const fullAbsolute = path.join(absolutePath, name);
+      const isFolder = (await fsp.stat(fullAbsolute)).isDirectory();
+      return { name, fullPath: this.wrapper.mapPath(fullAbsolute), isFolder };
+    }));
+    return sortDirectoryEntries(entries, await this.getOrder(mappedPath));
+  }
+
+  public async mkdir(mappedPath: string, recursive: boolean = true): Promise<void> {
+    this.assertWritable(mappedPath);
+    await fsp.mkdir(this.wrapper.resolve(mappedPath), { recursive });
+  }
+
+  public async getOrder(mappedPath: string): Promise<string[]> {
+    try {
+      return parseOrder(await fsp.readFile(path.join(this.wrapper.resolve(mappedPath), ORDER_FILE_NAME), 'utf-8'));
+    } catch {
+      return [];
+    }
+  }
+
+  public async setOrder(mappedPath: string, names: string[]): Promise<void> {
+    this.assertWritable(mappedPath);
+    const orderPath = path.join(this.wrapper.resolve(mappedPath), ORDER_FILE_NAME);
+    if (names.length === 0) {
+      await fsp.rm(orderPath, { force: true });
+    } else {
+      await fsp.writeFile(orderPath, JSON.stringify(names, null, 2), 'utf-8');
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // File operations
+  // ---------------------------------------------------------------------------
+
+  public async exists(mappedPath: string): Promise<boolean> {
+    try {
+      return await pathExists(this.wrapper.resolve(mappedPath));
+    } catch {
+      return false;
+    }
+  }
+
+  public async stat(mappedPath: string): Promise<fs.Stats> {
+    return fsp.stat(this.wrapper.resolve(mappedPath));
+  }
+
+  public async rename(oldMappedPath: string, newMappedPath: string): Promise<void> {
+    this.assertWritable(oldMappedPath);
+    this.assertWritable(newMappedPath);
+    await fsp.rename(this.wrapper.resolve(oldMappedPath), this.wrapper.resolve(newMappedPath));
+
+    // Keep the position of a renamed entry in the manual order
+    const folder = this.wrapper.dirname(oldMappedPath);
+    const order = await this.getOrder(folder);
+    const oldName = this.wrapper.basename(oldMappedPath);
+    if (order.includes(oldName)) {
+      const newName = this.wrapper.dirname(newMappedPath) === folder ? this.wrapper.basename(newMappedPath) : undefined;
+      await this.setOrder(folder, renameInOrder(order, oldName, newName));
+    }
+  }
+
+  public async writeFile(mappedPath: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void> {
+    this.assertWritable(mappedPath);
+    await writeFileAtomic(this.wrapper.resolve(mappedPath), data, encoding);
+  }
+
+  public async readFile(mappedPath: string, encoding: BufferEncoding = 'utf-8'): Promise<string> {
+    return fsp.readFile(this.wrapper.resolve(mappedPath), encoding);
+  }
+
+  public async remove(mappedPath: string, recursive: boolean = false): Promise<void> {
+    this.assertWritable(mappedPath);
+    const absolutePath = this.wrapper.resolve(mappedPath);
+    const stats = await fsp.stat(absolutePath);
+    if (stats.isDirectory()) {
+      if (recursive) {
+        await fsp.rm(absolutePath, { recursive: true, force: true });
+      } else {
+        await fsp.rmdir(absolutePath); // rejects with ENOTEMPTY when directory is non-empty
+      }
+    } else {
+      await fsp.unlink(absolutePath);
+    }
+  }
+
+  /**
+   * Copy a file or a folder with everything below it.
+   * A cancelled copy removes what was already copied and rejects with FsOperationCancelledError.
+   */
+  public async copy(srcMappedPath: string, dstMappedPath: string, options: FsOperationOptions = {}): Promise<void> {
+    this.assertWritable(dstMappedPath);
+    const src = this.wrapper.resolve(srcMappedPath);
+    const dst = this.wrapper.resolve(dstMappedPath);
+    try {
+      await this.copyEntry(src, dst, options);
+    } catch (err) {
+      if (err instanceof FsOperationCancelledError) {
+        await fsp.rm(dst, { recursive: true, force: true });
+      }
+      throw err;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Undo stash, trash and backups
+  // ---------------------------------------------------------------------------
+
+  public async stashEntry(mappedPath: string, stashId: string): Promise<void> {
+    this.assertWritable(mappedPath);
+    const stashPath = this.storage.stashPath(stashId);
+    await fsp.mkdir(path.dirname(stashPath), { recursive: true });
+    await this.moveEntry(this.wrapper.resolve(mappedPath), stashPath);
+  }
+
+  public async unstashEntry(stashId: string, mappedPath: string): Promise<void> {
+    this.assertWritable(mappedPath);
+    const absolutePath = this.wrapper.resolve(mappedPath);
+    if (await pathExists(absolutePath)) {
+      throw new Error(`Destination already exists: ${mappedPath}`);
+    }
+    await this.moveEntry(this.storage.stashPath(stashId), absolutePath);
+  }
+
+  public async moveToTrash(mappedPath: string): Promise<TrashEntry> {
+    this.assertWritable(mappedPath);
+    const absolutePath = this.wrapper.resolve(mappedPath);
+    const deletedAt = Date.now();
+    const entry: TrashEntry = {
+      id: this.storage.newTrashId(deletedAt),
+      name: path.basename(absolutePath),
+      originalPath: this.wrapper.mapPath(absolutePath),
+      isFolder: (await fsp.stat(absolutePath)).isDirectory(),
+      deletedAt
+    };
+    const entryFolder = this.storage.trashPath(entry.id);
+    await fsp.mkdir(entryFolder, { recursive: true });
+    await fsp.writeFile(entryFolder + '.json', JSON.stringify(entry, null, 2));
+    try {
+      await this.moveEntry(absolutePath, path.join(entryFolder, entry.name));
+    } catch (err) {
+      await this.deleteFromTrash(entry.id);
+      throw err;
+    }
+    return entry;
+  }
+
+  public async listTrash(): Promise<TrashEntry[]> {
+    const trashPath = this.storage.trashFolder();
+    if (!(await pathExists(trashPath))) {
+      return [];
+    }
+    const entries: TrashEntry[] = [];
+    for (const name of await fsp.readdir(trashPath)) {
+      if (!name.endsWith('.json')) {
+        continue;
+      }
+      try {
+        const entry = JSON.parse(await fsp.readFile(path.join(trashPath, name), 'utf-8')) as TrashEntry;
+        if (entry.id === name.slice(0, -'.json'.length) && await pathExists(path.join(trashPath, entry.id, entry.name))) {
+          entries.push(entry);
+        }
+      } catch {
+        // unreadable metadata - the entry cannot be restored
+      }
+    }
+    return entries.sort((a, b) => b.deletedAt - a.deletedAt);
+  }
+
+  public async restoreFromTrash(id: string, mappedPath: string): Promise<void> {
+    const entry = (await this.listTrash()).find(e => e.id === id);
+    if (!entry) {
+      throw new Error(`"${id}" is no longer in the trash`);
+    }
+    this.assertWritable(mappedPath);
+    const absolutePath = this.wrapper.resolve(mappedPath);
+    if (await pathExists(absolutePath)) {
+      throw new Error(`Destination already exists: ${mappedPath}`);
+    }
+    await fsp.mkdir(path.dirname(absolutePath), { recursive: true });
+    await this.moveEntry(path.join(this.storage.trashPath(id), entry.name), absolutePath);
+    await this.deleteFromTrash(id);
+  }
+
+  public async deleteFromTrash(id: string): Promise<void> {
+    const entryFolder = this.storage.trashPath(id);
+    await fsp.rm(entryFolder, { recursive: true, force: true });
+    await fsp.rm(entryFolder + '.json', { force: true });
+  }
+
+  public async backupFile(mappedPath: string): Promise<void> {
+    // the first step of a write, so a refused save keeps the previous version
+    this.assertWritable(mappedPath);
+    const absolutePath = this.wrapper.resolve(mappedPath);
+    if (!(await pathExists(absolutePath))) {
+      return;
+    }
+    const backupPath = this.storage.backupPath(mappedPath);
+    await fsp.mkdir(path.dirname(backupPath), { recursive: true });
+    await writeFileAtomic(backupPath, await fsp.readFile(absolutePath));
+  }
+
+  public async restoreBackup(mappedPath: string): Promise<void> {
+    this.assertWritable(mappedPath);
+    const backupPath = this.storage.backupPath(mappedPath);
+    if (!(await pathExists(backupPath))) {
+      throw new Error(`No previous version of ${mappedPath}`);
+    }
+    const previous = await fsp.readFile(backupPath);
+    // the replaced content becomes the backup, so the restore itself can be reverted
+    await this.backupFile(mappedPath);
+    await this.writeFile(mappedPath, previous);
+  }
+
+  // Mount points may live on other drives, where rename fails with EXDEV
+  private async moveEntry(src: string, dst: string): Promise<void> {
+    try {
+      await fsp.rename(src, dst);
+    } catch (err: any) {
+      if (err.code !== 'EXDEV') {
+        throw err;
+      }
+      await this.copyEntry(src, dst, {});
+      await fsp.rm(src, { recursive: true, force: true });
+    }
+  }
+
+  private assertWritable(mappedPath: string): void {
+    if (this.wrapper.isReadonly(mappedPath)) {
+      throw new ReadonlyMountError(mappedPath);
+    }
+  }
+
+  private async copyEntry(src: string, dst: string, options: FsOperationOptions): Promise<void> {
+    if (options.isCancelled?.()) {
+      throw new FsOperationCancelledError();
+    }
+    const stats = await fsp.stat(src);
+    if (stats.isDirectory()) {
+      await fsp.mkdir(dst, { recursive: true });
+      for (const name of await fsp.readdir(src)) {
+        await this.copyEntry(path.join(src, name), path.join(dst, name), options);
+      }
+    } else {
+      await fsp.copyFile(src, dst);
+    }
+    options.onProgress?.(this.wrapper.mapPath(dst));
+  }
+}
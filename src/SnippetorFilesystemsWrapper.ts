@@ -1,4 +1,5 @@
 // File: SnippetorFilesystemsWrapper.ts
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
@@ -7,12 +8,29 @@ import {
   SnippetMapping,
   ConfigLoadResult,
   DirectoryEntry,
-  AutocompleteResult
+  AutocompleteResult,
+  FileDiagnostic,
+  ISnippetorFilesystemPromises,
+  ReadonlyMountError,
+  WorkspaceConfigResult
 } from './ISnippetorFilesystemWrapper';
+import { SnippetorFilesystemPromises } from './SnippetorFilesystemPromises';
+import { ORDER_FILE_NAME, parseOrder, renameInOrder, sortDirectoryEntries } from './SnippetFolderOrder';
+import { isTempFile, writeFileAtomicSync } from './SnippetAtomicWrite';
+import { ConfigEntry, defaultConfigVariables, formatDiagnostic, validateConfigText } from './SnippetConfigValidator';
 
 // Re-export types for backward compatibility
 export type { ConfigLoadResult, SnippetMapping };
 
+// Folder (next to config.json) holding removed entries until they are forgotten
+const STASH_FOLDER = '.undo';
+// Folder (next to config.json) holding deleted entries: '<id>/<name>' plus '<id>.json' metadata
+const TRASH_FOLDER = '.trash';
+// Folder (next to config.json) holding the previous version of each saved file, named by a hash of its mapped path
+const BACKUP_FOLDER = '.backup';
+// Config inside a workspace folder adding the mount points of that repository
+const WORKSPACE_CONFIG_PATH = path.join('.snippetor', 'config.json');
+
 /**
  * Filesystem wrapper using virtual mount points.
  * Internally converts '/MountPoint/sub/file' ↔ absolute paths.
@@ -21,11 +39,27 @@ export type { ConfigLoadResult, SnippetMapping };
 export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper {
   private rootPath: string;
   private configPath: string;
+  // Folders of the open workspace; the first one is `${workspaceFolder}` in the global config
+  private workspaceFolders: string[];
+  // Mount points of an untrusted workspace (Workspace Trust) are read-only
+  private workspaceTrusted: boolean;
   private folders: SnippetMapping[] = [];
+  private trashCounter = 0;
+
+  public readonly promises: ISnippetorFilesystemPromises;
 
-  constructor(tmpFolder?: string) {
+  constructor(tmpFolder?: string, workspaceFolders: string[] = [], workspaceTrusted: boolean = false) {
     this.rootPath = tmpFolder ?? path.join(os.homedir(), '.vscode', 'archsnippets');
     this.configPath = path.join(this.rootPath, 'config.json');
+    this.workspaceFolders = workspaceFolders;
+    this.workspaceTrusted = workspaceTrusted;
+    this.promises = new SnippetorFilesystemPromises(this, {
+      trashFolder: () => path.join(this.rootPath, TRASH_FOLDER),
+      trashPath: id => this.toTrashPath(id),
+      newTrashId: deletedAt => this.newTrashId(deletedAt),
+      stashPath: stashId => this.toStashPath(stashId),
+      backupPath: mappedPath => this.toBackupPath(mappedPath)
+    });
     this.initialize();
   }
 
@@ -97,12 +131,70 @@ export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper
   private toConfigJson(folders: SnippetMapping[]): string {
     const data = folders.map(f => ({
       folder: f.mountPoint.slice(1), // '/Drafts' → 'Drafts'
-      mapping: f.absolutePath
+      mapping: f.absolutePath,
+      ...(f.readonly ? { readonly: true } : {})
     }));
     return JSON.stringify(data, null, 2);
   }
 
+  /**
+   * Mount points of the global config followed by those of each workspace folder's config
+   */
   public loadFoldersFromConfig(): ConfigLoadResult {
+    const result = this.loadGlobalConfig();
+    const workspaceConfigs: WorkspaceConfigResult[] = [];
+    const folders = [...result.folders];
+    for (const workspaceFolder of this.workspaceFolders) {
+      const configPath = path.join(workspaceFolder, WORKSPACE_CONFIG_PATH);
+      if (!fs.existsSync(configPath)) {
+        continue;
+      }
+      const loaded = this.loadWorkspaceConfig(workspaceFolder, configPath, folders);
+      workspaceConfigs.push(loaded.result);
+      folders.push(...loaded.folders);
+    }
+    return { ...result, folders, workspaceConfigs };
+  }
+
+  private loadWorkspaceConfig(
+    workspaceFolder: string,
+    configPath: string,
+    loadedBefore: SnippetMapping[]
+  ): { folders: SnippetMapping[]; result: WorkspaceConfigResult } {
+    const origin = path.basename(workspaceFolder);
+    const existing: ConfigEntry[] = loadedBefore.map(f =>
+      ({ folder: f.mountPoint.slice(1), mapping: f.absolutePath, absolutePath: f.absolutePath }));
+    let diagnostics: FileDiagnostic[] = [];
+    try {
+      // the config comes with the repository: mappings are relative to it and must stay inside it
+      const validation = validateConfigText(fs.readFileSync(configPath, 'utf-8'),
+        defaultConfigVariables(workspaceFolder, workspaceFolder, workspaceFolder), existing);
+      diagnostics = validation.diagnostics;
+      const firstError = diagnostics.find(d => d.severity === 'error');
+      if (firstError) {
+        throw new Error(formatDiagnostic(firstError));
+      }
+      const folders: SnippetMapping[] = validation.entries.map(entry => ({
+        mountPoint: '/' + entry.folder,
+        absolutePath: entry.absolutePath,
+        ...(entry.readonly || !this.workspaceTrusted ? { readonly: true } : {}),
+        origin
+      }));
+      if (this.workspaceTrusted) {
+        this.ensureFoldersExist(folders);
+      }
+      return { folders, result: { origin, configPath, diagnostics } };
+    } catch (err: any) {
+      return { folders: [], result: { origin, configPath, error: err.message || 'Invalid JSON format', diagnostics } };
+    }
+  }
+
+  public setWorkspaceFolders(absolutePaths: string[], trusted: boolean): void {
+    this.workspaceFolders = absolutePaths;
+    this.workspaceTrusted = trusted;
+  }
+
+  private loadGlobalConfig(): ConfigLoadResult {
     if (!fs.existsSync(this.configPath)) {
       const defaults = this.getDefaultFolders();
       this.ensureFoldersExist(defaults);
@@ -110,31 +202,30 @@ export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper
       return { folders: defaults, isValid: true };
     }
 
+    let diagnostics: FileDiagnostic[] = [];
     try {
-      const configContent = fs.readFileSync(this.configPath, 'utf-8');
-      const parsed = JSON.parse(configContent);
-      if (!Array.isArray(parsed)) {
-        throw new Error('Config must be an array');
-      }
-      const folders: SnippetMapping[] = [];
-      for (const item of parsed) {
-        if (typeof item !== 'object' || !item.folder || !item.mapping) {
-          throw new Error('Each config item must have "folder" and "mapping" properties');
-        }
-        folders.push({
-          mountPoint: '/' + String(item.folder),
-          absolutePath: String(item.mapping)
-        });
+      const validation = validateConfigText(fs.readFileSync(this.configPath, 'utf-8'),
+        defaultConfigVariables(this.workspaceFolders[0]));
+      diagnostics = validation.diagnostics;
+      const firstError = diagnostics.find(d => d.severity === 'error');
+      if (firstError) {
+        throw new Error(formatDiagnostic(firstError));
       }
+      const folders: SnippetMapping[] = validation.entries.map(entry => ({
+        mountPoint: '/' + entry.folder,
+        absolutePath: entry.absolutePath,
+        ...(entry.readonly ? { readonly: true } : {})
+      }));
       this.ensureFoldersExist(folders);
-      return { folders, isValid: true };
+      return { folders, isValid: true, diagnostics };
     } catch (err: any) {
       const defaults = this.getDefaultFolders();
       const defaultsExist = defaults.some(f => fs.existsSync(f.absolutePath));
       return {
         folders: defaultsExist ? defaults : [],
         isValid: false,
-        error: err.message || 'Invalid JSON format'
+        error: err.message || 'Invalid JSON format',
+        diagnostics
       };
     }
   }
@@ -155,6 +246,66 @@ export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper
     return this.configPath;
   }
 
+  public readStorageFile(name: string): string | undefined {
+    const filePath = this.toStoragePath(name);
+    return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : undefined;
+  }
+
+  public writeStorageFile(name: string, data: string): void {
+    fs.writeFileSync(this.toStoragePath(name), data, 'utf-8');
+  }
+
+  public clearStash(stashId?: string): void {
+    const stashPath = stashId ? this.toStashPath(stashId) : path.join(this.rootPath, STASH_FOLDER);
+    fs.rmSync(stashPath, { recursive: true, force: true });
+  }
+
+  public backupFile(mappedPath: string): void {
+    // the first step of a write, so a refused save keeps the previous version
+    this.assertWritable(mappedPath);
+    const absolutePath = this.toAbsolutePath(mappedPath);
+    if (!fs.existsSync(absolutePath)) {
+      return;
+    }
+    const backupPath = this.toBackupPath(mappedPath);
+    fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+    writeFileAtomicSync(backupPath, fs.readFileSync(absolutePath));
+  }
+
+  public hasBackup(mappedPath: string): boolean {
+    return fs.existsSync(this.toBackupPath(mappedPath));
+  }
+
+  private toBackupPath(mappedPath: string): string {
+    const normalized = this.toMappedPath(this.toAbsolutePath(mappedPath));
+    return path.join(this.rootPath, BACKUP_FOLDER, crypto.createHash('sha1').update(normalized).digest('hex'));
+  }
+
+  private newTrashId(deletedAt: number): string {
+    return `${deletedAt}-${++this.trashCounter}`;
+  }
+
+  private toTrashPath(id: string): string {
+    if (!id || id !== path.basename(id) || id.endsWith('.json')) {
+      throw new Error(`Invalid trash id: ${id}`);
+    }
+    return path.join(this.rootPath, TRASH_FOLDER, id);
+  }
+
+  private toStashPath(stashId: string): string {
+    if (!stashId || stashId !== path.basename(stashId)) {
+      throw new Error(`Invalid stash id: ${stashId}`);
+    }
+    return path.join(this.rootPath, STASH_FOLDER, stashId);
+  }
+
+  private toStoragePath(name: string): string {
+    if (!name || name !== path.basename(name) || name === 'config.json') {
+      throw new Error(`Invalid storage file name: ${name}`);
+    }
+    return path.join(this.rootPath, name);
+  }
+
   private ensureFoldersExist(folders: SnippetMapping[]): void {
     for (const f of folders) {
       if (!fs.existsSync(f.absolutePath)) {
@@ -171,6 +322,10 @@ export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper
     return this.toMappedPath(absoluteOrMappedPath);
   }
 
+  public normalizeMappedPath(mappedPath: string): string {
+    return '/' + mappedPath.replace(/^\/+|\/+$/g, '');
+  }
+
   public resolve(mappedPath: string): string {
     return this.toAbsolutePath(mappedPath);
   }
@@ -185,6 +340,17 @@ export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper
            this.folders.some(f => f.mountPoint === '/' + parts[0]);
   }
 
+  public isReadonly(mappedPath: string): boolean {
+    const mountName = (mappedPath || '').replace(/^\/+/, '').split('/')[0];
+    return this.folders.some(f => f.mountPoint === '/' + mountName && f.readonly === true);
+  }
+
+  private assertWritable(mappedPath: string): void {
+    if (this.isReadonly(mappedPath)) {
+      throw new ReadonlyMountError(mappedPath);
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Directory operations
   // ---------------------------------------------------------------------------
@@ -195,7 +361,9 @@ export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper
         .map(f => ({
           name: f.mountPoint.slice(1), // 'Drafts'
           fullPath: f.mountPoint,      // '/Drafts'
-          isFolder: true
+          isFolder: true,
+          ...(f.readonly ? { readonly: true } : {}),
+          ...(f.origin ? { origin: f.origin } : {})
         }))
         .sort((a, b) => a.name.localeCompare(b.name));
   }
@@ -205,23 +373,36 @@ export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper
     if (!fs.existsSync(absolutePath)) {
       return [];
     }
-    return fs.readdirSync(absolutePath)
+    const entries = fs.readdirSync(absolutePath)
+        .filter(name => name !== ORDER_FILE_NAME && !isTempFile(name))
         .map(name => {
           const fullAbsolute = path.join(absolutePath, name);
           const isFolder = fs.statSync(fullAbsolute).isDirectory();
           return { name, fullPath: this.toMappedPath(fullAbsolute), isFolder };
-        })
-        .sort((a, b) => {
-          if (a.isFolder && !b.isFolder) return -1;
-          if (!a.isFolder && b.isFolder) return 1;
-          return a.name.localeCompare(b.name);
         });
+    return sortDirectoryEntries(entries, this.getOrder(mappedPath));
   }
 
   public mkdir(mappedPath: string, recursive: boolean = true): void {
+    this.assertWritable(mappedPath);
     fs.mkdirSync(this.toAbsolutePath(mappedPath), { recursive });
   }
 
+  public getOrder(mappedPath: string): string[] {
+    const orderPath = path.join(this.toAbsolutePath(mappedPath), ORDER_FILE_NAME);
+    return fs.existsSync(orderPath) ? parseOrder(fs.readFileSync(orderPath, 'utf-8')) : [];
+  }
+
+  public setOrder(mappedPath: string, names: string[]): void {
+    this.assertWritable(mappedPath);
+    const orderPath = path.join(this.toAbsolutePath(mappedPath), ORDER_FILE_NAME);
+    if (names.length === 0) {
+      fs.rmSync(orderPath, { force: true });
+    } else {
+      fs.writeFileSync(orderPath, JSON.stringify(names, null, 2), 'utf-8');
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // File operations
   // ---------------------------------------------------------------------------
@@ -239,11 +420,25 @@ export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper
   }
 
   public rename(oldMappedPath: string, newMappedPath: string): void {
+    this.assertWritable(oldMappedPath);
+    this.assertWritable(newMappedPath);
     fs.renameSync(this.toAbsolutePath(oldMappedPath), this.toAbsolutePath(newMappedPath));
+    this.updateOrderOnRename(oldMappedPath, newMappedPath);
+  }
+
+  private updateOrderOnRename(oldMappedPath: string, newMappedPath: string): void {
+    const folder = this.dirname(oldMappedPath);
+    const order = this.getOrder(folder);
+    const oldName = this.basename(oldMappedPath);
+    if (order.includes(oldName)) {
+      const newName = this.dirname(newMappedPath) === folder ? this.basename(newMappedPath) : undefined;
+      this.setOrder(folder, renameInOrder(order, oldName, newName));
+    }
   }
 
   public writeFile(mappedPath: string, data: string | Buffer, encoding?: BufferEncoding): void {
-    fs.writeFileSync(this.toAbsolutePath(mappedPath), data, encoding);
+    this.assertWritable(mappedPath);
+    writeFileAtomicSync(this.toAbsolutePath(mappedPath), data, encoding);
   }
 
   public readFile(mappedPath: string, encoding: BufferEncoding = 'utf-8'): string {
@@ -251,6 +446,7 @@ export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper
   }
 
   public remove(mappedPath: string, recursive: boolean = false): void {
+    this.assertWritable(mappedPath);
     const absolutePath = this.toAbsolutePath(mappedPath);
     const stats = fs.statSync(absolutePath);
     if (stats.isDirectory()) {
@@ -265,6 +461,7 @@ export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper
   }
 
   public copy(srcMappedPath: string, dstMappedPath: string): void {
+    this.assertWritable(dstMappedPath);
     const src = this.toAbsolutePath(srcMappedPath);
     const dst = this.toAbsolutePath(dstMappedPath);
     const stats = fs.statSync(src);
@@ -389,7 +586,8 @@ export class SnippetorFilesystemsWrapper implements ISnippetorFilesystemWrapper
         error: '',
         path: returnPath,
         autocomplete: entries
-            .filter(entry => !(targetPath === this.rootPath && entry.name === 'config.json'))
+            .filter(entry => !(targetPath === this.rootPath && entry.name === 'config.json') &&
+              entry.name !== ORDER_FILE_NAME && !isTempFile(entry.name))
             .map(entry => ({ name: entry.name, isDirectory: entry.isDirectory() }))
       };
     } catch (err: any) {
@@ -1,12 +1,44 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { SnippetViewHandler } from './SnippetViewHandler';
 import { SnippetExplorerHandler } from './SnippetExplorerHandler';
 import { SnippetBaseProvider } from './SnippetBaseProvider';
 import { SnippetorFilesystemsWrapper } from './SnippetorFilesystemsWrapper';
+import { SnippetStalenessChecker } from './SnippetStalenessChecker';
+import { SnippetStalenessReportProvider } from './SnippetStalenessReportProvider';
+import { SnippetIndex } from './SnippetIndex';
+import { SnippetEditorAnnotations } from './SnippetEditorAnnotations';
+import {
+  MarkdownDocument,
+  SnippetMarkdownExporter,
+  markdownFileName,
+  renderSnippetMarkdown
+} from './SnippetMarkdownExporter';
+import {
+  codeTourToSnippet,
+  parseCodeTour,
+  snippetToCodeTour,
+  snippetToTourFileName,
+  tourToSnippetFileName
+} from './SnippetCodeTourConverter';
+import {
+  collectAllSnippetFiles,
+  collectSnippetFiles,
+  isSnippetFile,
+  readSnippetFile,
+  serializeSnippetContent,
+  upgradeSnippetFile
+} from './SnippetFileReader';
+import { SNIPPET_SCHEMA_VERSION } from './SnippetSchema';
+import { SnippetDiagramPreview } from './SnippetDiagramPreview';
+import { SnippetFolderWatcher } from './SnippetFolderWatcher';
+import { DEFAULT_TRASH_RETENTION_DAYS } from './SnippetTrash';
 
 export function activate(context: vscode.ExtensionContext) {
-  // Create a single filesystem wrapper instance
-  const fsWrapper = new SnippetorFilesystemsWrapper();
+  // Create a single filesystem wrapper instance; workspace folders can add their own mount points,
+  // read-only until the workspace is trusted
+  const getWorkspaceFolderPaths = () => (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.fsPath);
+  const fsWrapper = new SnippetorFilesystemsWrapper(undefined, getWorkspaceFolderPaths(), vscode.workspace.isTrusted);
 
   // Create handlers first (API providers will be set automatically by base providers)
   const explorerHandler = new SnippetExplorerHandler(fsWrapper);
@@ -49,6 +81,52 @@ export function activate(context: vscode.ExtensionContext) {
   );
 
 
+  //
+  // SNIPPET INDEX - gutter icons, CodeLens and hovers in source editors
+  //
+  const snippetIndex = new SnippetIndex(fsWrapper);
+  const editorAnnotations = new SnippetEditorAnnotations(context, snippetIndex,
+    (snippetPath, uid) => snippetHandler.revealSnippetItem(snippetPath, uid));
+  context.subscriptions.push(editorAnnotations.register());
+  snippetHandler.onSnippetSaved(snippetPath => snippetIndex.updateSnippet(snippetPath));
+  snippetIndex.rebuild();
+
+  //
+  // SEARCH INDEX - persisted next to config.json, follows explorer operations and saves
+  //
+  const searchIndex = explorerHandler.getSearchIndex();
+  snippetHandler.onSnippetSaved(async snippetPath => {
+    await searchIndex.updateSnippet(snippetPath);
+    explorerHandler.notifyTagsChanged();
+  });
+  context.subscriptions.push({ dispose: () => searchIndex.flush() });
+
+  //
+  // FOLDER WATCHER - changes made outside VS Code (Git, Dropbox) update the tree and the open snippet
+  //
+  const folderWatcher = new SnippetFolderWatcher(fsWrapper, explorerProvider);
+  folderWatcher.onDidChange(changes => {
+    explorerHandler.applyFileChanges(changes);
+    if (changes.some(change => change.type !== 'changed' && change.isFolder)) {
+      snippetIndex.rebuild();
+      return;
+    }
+    for (const change of changes) {
+      if (change.type === 'renamed') {
+        snippetIndex.removeSnippet(change.oldPath);
+        if (isSnippetFile(change.newPath)) {
+          snippetIndex.updateSnippet(change.newPath);
+        }
+      } else if (change.type === 'removed') {
+        snippetIndex.removeSnippet(change.path);
+      } else if (isSnippetFile(change.path)) {
+        snippetIndex.updateSnippet(change.path);
+      }
+    }
+  });
+  folderWatcher.start();
+  context.subscriptions.push({ dispose: () => folderWatcher.dispose() });
+
   //
   //  COMMANDS FOR THE TOP LEVEL MENU !!!!
   //
@@ -57,10 +135,71 @@ export function activate(context: vscode.ExtensionContext) {
     // REFRESH - refresh tree
     //
     vscode.commands.registerCommand('snippetExplorer.refresh', async () => {
+      await explorerHandler.purgeTrash();
       await explorerHandler.refresh();
+      snippetIndex.rebuild();
+      await searchIndex.ensureFresh(true);
+      // mount points may have changed in config.json
+      folderWatcher.start();
     })
   );
 
+  // `.snippet` files of the mount points are JSON; other `.snippet` files (e.g. Visual Studio's XML) are left alone
+  const useJsonForMountedSnippet = (document: vscode.TextDocument) => {
+    const filePath = document.uri.fsPath;
+    if (document.uri.scheme === 'file' && document.languageId !== 'json' &&
+        isSnippetFile(filePath) && fsWrapper.mapPath(filePath) !== filePath) {
+      vscode.languages.setTextDocumentLanguage(document, 'json');
+    }
+  };
+  vscode.workspace.textDocuments.forEach(useJsonForMountedSnippet);
+  context.subscriptions.push(vscode.workspace.onDidOpenTextDocument(useJsonForMountedSnippet));
+
+  // a saved config.json (global or of a workspace folder) applies its mount points and updates its problems
+  context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => {
+    const filePath = document.uri.fsPath;
+    if (filePath === fsWrapper.getConfigAbsolutePath() ||
+        (path.basename(filePath) === 'config.json' && path.basename(path.dirname(filePath)) === '.snippetor')) {
+      vscode.commands.executeCommand('snippetExplorer.refresh');
+    }
+  }));
+
+  // added or removed workspace folders bring or take their mount points; trusting the workspace makes them writable
+  const applyWorkspaceFolders = () => {
+    fsWrapper.setWorkspaceFolders(getWorkspaceFolderPaths(), vscode.workspace.isTrusted);
+    vscode.commands.executeCommand('snippetExplorer.refresh');
+  };
+  context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(applyWorkspaceFolders));
+  context.subscriptions.push(vscode.workspace.onDidGrantWorkspaceTrust(applyWorkspaceFolders));
+
+  //
+  // TRASH - deleted entries are purged after the configured retention period
+  //
+  const applyTrashRetention = () => explorerHandler.setTrashRetentionDays(
+    vscode.workspace.getConfiguration('snippetExplorer').get<number>('trashRetentionDays', DEFAULT_TRASH_RETENTION_DAYS));
+  applyTrashRetention();
+  context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(e => {
+    if (e.affectsConfiguration('snippetExplorer.trashRetentionDays')) {
+      applyTrashRetention();
+    }
+  }));
+
+  //
+  // UNDO / REDO - explorer file operations
+  //
+  const journal = explorerHandler.getJournal();
+  const updateJournalContext = () => {
+    vscode.commands.executeCommand('setContext', 'snippetExplorer.canUndo', journal.getUndoLabel() !== undefined);
+    vscode.commands.executeCommand('setContext', 'snippetExplorer.canRedo', journal.getRedoLabel() !== undefined);
+  };
+  context.subscriptions.push(journal.onDidChange(updateJournalContext));
+  updateJournalContext();
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('snippetExplorer.undo', () => explorerHandler.undo()),
+    vscode.commands.registerCommand('snippetExplorer.redo', () => explorerHandler.redo())
+  );
+
   //
   // CHECK IF NOT NEEDED - REMOVE IT IF NOT NEEDED
   //
@@ -107,6 +246,280 @@ export function activate(context: vscode.ExtensionContext) {
 
 
 
+  //
+  // STALENESS REPORT
+  //
+  const stalenessReport = new SnippetStalenessReportProvider();
+  context.subscriptions.push(stalenessReport.register());
+
+  // Commands run from the Command Palette get no path: ask for a mount point
+  const pickMountPoint = (placeHolder: string) =>
+    vscode.window.showQuickPick(fsWrapper.getRootChildren().map(root => root.fullPath), { placeHolder });
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('snippetExplorer.checkStaleness', async (mappedPath?: string) => {
+      if (!mappedPath) {
+        mappedPath = await pickMountPoint('Select a mount point to check');
+        if (!mappedPath) {
+          return;
+        }
+      }
+      const folder = mappedPath;
+      const checker = new SnippetStalenessChecker(
+        fsWrapper, (filePath) => workingSnippetProvider.readTextDocumentLines(filePath));
+      const reports = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Checking snippets in ${folder}...` },
+        () => checker.checkFolder(folder)
+      );
+      stalenessReport.setReports(folder, reports);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(SnippetStalenessReportProvider.openItemCommand, (snippetPath: string, uid: string) => {
+      return snippetHandler.revealSnippetItem(snippetPath, uid);
+    })
+  );
+
+  //
+  // SCHEMA UPGRADE - rewrite snippet files of older schema versions in the current layout
+  //
+  context.subscriptions.push(
+    vscode.commands.registerCommand('snippetExplorer.upgradeAllSnippets', async () => {
+      const files = collectAllSnippetFiles(fsWrapper);
+      const errors: string[] = [];
+      // files of read-only mount points cannot be rewritten; they are not failures
+      const skipped = files.filter(file => fsWrapper.isReadonly(file));
+      let upgraded = 0;
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: 'Upgrading snippets', cancellable: true },
+        async (progress, token) => {
+          for (const file of files) {
+            if (token.isCancellationRequested) {
+              break;
+            }
+            progress.report({ message: file, increment: 100 / files.length });
+            if (skipped.includes(file)) {
+              continue;
+            }
+            try {
+              if (upgradeSnippetFile(fsWrapper, file)) {
+                snippetIndex.updateSnippet(file);
+                await searchIndex.updateSnippet(file);
+                upgraded++;
+              }
+            } catch (err: any) {
+              errors.push(`${file}: ${err.message}`);
+            }
+          }
+        }
+      );
+
+      const skippedNote = skipped.length > 0
+        ? ` Skipped ${skipped.length} in read-only mount points: ${skipped.join('; ')}`
+        : '';
+      if (errors.length > 0) {
+        vscode.window.showWarningMessage(
+          `Upgraded ${upgraded} snippet files, failed ${errors.length}: ${errors.join('; ')}.${skippedNote}`);
+      } else if (upgraded === 0) {
+        vscode.window.showInformationMessage(
+          `All ${skipped.length > 0 ? 'writable ' : ''}snippet files already use schema version ${SNIPPET_SCHEMA_VERSION}.${skippedNote}`);
+      } else {
+        vscode.window.showInformationMessage(
+          `Upgraded ${upgraded} snippet files to schema version ${SNIPPET_SCHEMA_VERSION}.${skippedNote}`);
+      }
+    })
+  );
+
+  //
+  // EXPORT TO MARKDOWN
+  //
+  const readWorkspaceLines = (filePath: string) => workingSnippetProvider.readTextDocumentLines(filePath);
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('snippetExplorer.exportMarkdown', async (mappedPath?: string, isFolder?: boolean) => {
+      if (!mappedPath) {
+        mappedPath = await pickMountPoint('Select a mount point to export');
+        if (!mappedPath) {
+          return;
+        }
+        isFolder = true;
+      }
+      const exporter = new SnippetMarkdownExporter(fsWrapper, readWorkspaceLines);
+      try {
+        if (!isFolder) {
+          const document = await exporter.exportSnippet(mappedPath);
+          await saveMarkdownDocument(document);
+          return;
+        }
+
+        const target = await vscode.window.showOpenDialog({
+          canSelectFiles: false,
+          canSelectFolders: true,
+          openLabel: 'Export Here'
+        });
+        if (!target || target.length === 0) {
+          return;
+        }
+        const folder = mappedPath;
+        const { documents, errors } = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `Exporting ${folder} to Markdown...` },
+          () => exporter.exportFolder(folder)
+        );
+        await writeMarkdownDocuments(target[0], documents);
+        if (errors.length > 0) {
+          vscode.window.showWarningMessage(`Exported ${documents.length - 1} snippets, skipped ${errors.length}: ${errors.join('; ')}`);
+        } else {
+          vscode.window.showInformationMessage(`Exported ${documents.length - 1} snippets to ${target[0].fsPath}`);
+        }
+      } catch (err: any) {
+        vscode.window.showErrorMessage(`Failed to export to Markdown: ${err.message}`);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('workingSnippet.exportMarkdown', async () => {
+      const content = snippetHandler.getSnippetContent();
+      if (content.snippets.length === 0) {
+        vscode.window.showInformationMessage('The working snippet has no items to export.');
+        return;
+      }
+      try {
+        await saveMarkdownDocument({
+          fileName: markdownFileName(content.path ? fsWrapper.basename(content.path) : 'snippet'),
+          content: await renderSnippetMarkdown(content, readWorkspaceLines)
+        });
+      } catch (err: any) {
+        vscode.window.showErrorMessage(`Failed to export to Markdown: ${err.message}`);
+      }
+    })
+  );
+
+  //
+  // CODETOUR - import `.tour` files into a folder, export a folder as `.tour` files
+  //
+  context.subscriptions.push(
+    vscode.commands.registerCommand('snippetExplorer.importCodeTour', async (mappedPath?: string) => {
+      if (!mappedPath) {
+        mappedPath = await pickMountPoint('Select a mount point to import into');
+        if (!mappedPath) {
+          return;
+        }
+      }
+      const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+      const sources = await vscode.window.showOpenDialog({
+        canSelectMany: true,
+        defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, '.tours') : undefined,
+        filters: { CodeTour: ['tour'] },
+        openLabel: 'Import'
+      });
+      if (!sources || sources.length === 0) {
+        return;
+      }
+
+      const folder = fsWrapper.normalizeMappedPath(mappedPath);
+      const errors: string[] = [];
+      let imported = 0;
+      for (const source of sources) {
+        const sourceName = source.path.split('/').pop() ?? 'tour.tour';
+        try {
+          const text = Buffer.from(await vscode.workspace.fs.readFile(source)).toString('utf-8');
+          const content = codeTourToSnippet(parseCodeTour(text));
+          const target = nextFreeSnippetPath(folder, tourToSnippetFileName(sourceName));
+          fsWrapper.writeFile(target, serializeSnippetContent(content), 'utf-8');
+          explorerHandler.notifyNewSnippetCreated(target, folder);
+          snippetIndex.updateSnippet(target);
+          await searchIndex.updateSnippet(target);
+          imported++;
+        } catch (err: any) {
+          errors.push(`${sourceName}: ${err.message}`);
+        }
+      }
+
+      if (errors.length > 0) {
+        vscode.window.showWarningMessage(`Imported ${imported} tours, failed ${errors.length}: ${errors.join('; ')}`);
+      } else {
+        vscode.window.showInformationMessage(`Imported ${imported} tours into ${folder}`);
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('snippetExplorer.exportCodeTour', async (mappedPath?: string) => {
+      if (!mappedPath) {
+        mappedPath = await pickMountPoint('Select a mount point to export');
+        if (!mappedPath) {
+          return;
+        }
+      }
+      const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+      const target = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        defaultUri: workspaceFolder,
+        openLabel: 'Export Here'
+      });
+      if (!target || target.length === 0) {
+        return;
+      }
+
+      const folder = fsWrapper.normalizeMappedPath(mappedPath);
+      const errors: string[] = [];
+      let exported = 0;
+      for (const snippetPath of collectSnippetFiles(fsWrapper, folder)) {
+        try {
+          const tour = snippetToCodeTour(readSnippetFile(fsWrapper, snippetPath));
+          const fileName = snippetToTourFileName(snippetPath.substring(folder.length + 1));
+          const tourUri = vscode.Uri.joinPath(target[0], ...fileName.split('/'));
+          await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(tourUri, '..'));
+          await vscode.workspace.fs.writeFile(tourUri, Buffer.from(JSON.stringify(tour, null, 2), 'utf-8'));
+          exported++;
+        } catch (err: any) {
+          errors.push(`${snippetPath}: ${err.message}`);
+        }
+      }
+
+      if (errors.length > 0) {
+        vscode.window.showWarningMessage(`Exported ${exported} tours, failed ${errors.length}: ${errors.join('; ')}`);
+      } else {
+        vscode.window.showInformationMessage(`Exported ${exported} tours to ${target[0].fsPath}`);
+      }
+    })
+  );
+
+  /**
+   * "name.snippet", or "name-2.snippet", ... when the name is taken
+   */
+  function nextFreeSnippetPath(folder: string, fileName: string): string {
+    const base = fileName.replace(/\.snippet$/, '');
+    let candidate = `${folder}/${fileName}`;
+    for (let i = 2; fsWrapper.exists(candidate); i++) {
+      candidate = `${folder}/${base}-${i}.snippet`;
+    }
+    return candidate;
+  }
+
+  //
+  // DIAGRAM - Mermaid preview of the working snippet
+  //
+  const diagramPreview = new SnippetDiagramPreview(context.extensionUri, {
+    generate: (kind) => snippetHandler.generateDiagram(kind),
+    embed: (source) => snippetHandler.setDiagram(source)
+  });
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand('workingSnippet.showDiagram', async () => {
+      const content = snippetHandler.getSnippetContent();
+      if (content.snippets.length === 0) {
+        vscode.window.showInformationMessage('The working snippet has no items to draw.');
+        return;
+      }
+      const embedded = snippetHandler.getDiagram();
+      diagramPreview.show(content.title, embedded ?? await snippetHandler.generateDiagram('sequence'), embedded !== undefined);
+    })
+  );
+
   context.subscriptions.push(
     vscode.commands.registerCommand('workingSnippet.newItem', () => {
       //snippetHandler.enableEditMode();
@@ -133,6 +546,20 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  context.subscriptions.push(
+    vscode.commands.registerCommand('workingSnippet.moveItemUp', () => snippetHandler.moveItemUp()),
+    vscode.commands.registerCommand('workingSnippet.moveItemDown', () => snippetHandler.moveItemDown())
+  );
+
+  //
+  // TOUR - step through the working snippet
+  //
+  context.subscriptions.push(
+    vscode.commands.registerCommand('workingSnippet.tourNext', () => snippetHandler.tourNext()),
+    vscode.commands.registerCommand('workingSnippet.tourPrevious', () => snippetHandler.tourPrevious()),
+    vscode.commands.registerCommand('workingSnippet.tourRestart', () => snippetHandler.tourRestart())
+  );
+
   // CHECK IF NOT NEEDED - REMOVE IT IF NOT NEEDED
   context.subscriptions.push(
     vscode.commands.registerCommand('workingSnippetView.openFileItem', (data: any) => {
@@ -142,4 +569,31 @@ export function activate(context: vscode.ExtensionContext) {
 
 }
 
+/**
+ * Ask for a target file and write a single exported document
+ */
+async function saveMarkdownDocument(document: MarkdownDocument): Promise<void> {
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const target = await vscode.window.showSaveDialog({
+    defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder, document.fileName) : undefined,
+    filters: { Markdown: ['md'] }
+  });
+  if (!target) {
+    return;
+  }
+  await vscode.workspace.fs.writeFile(target, Buffer.from(document.content, 'utf-8'));
+  vscode.window.showInformationMessage(`Snippet exported to: ${target.fsPath}`);
+}
+
+/**
+ * Write exported documents below a folder, creating sub-folders as needed
+ */
+async function writeMarkdownDocuments(folder: vscode.Uri, documents: MarkdownDocument[]): Promise<void> {
+  for (const document of documents) {
+    const target = vscode.Uri.joinPath(folder, ...document.fileName.split('/'));
+    await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(target, '..'));
+    await vscode.workspace.fs.writeFile(target, Buffer.from(document.content, 'utf-8'));
+  }
+}
+
 export function deactivate() { }
@@ -8,8 +8,14 @@ import {
   ConfigLoadResult,
   DirectoryEntry,
   AutocompleteResult,
-  FileStats
+  FileStats,
+  FsOperationCancelledError,
+  FsOperationOptions,
+  ISnippetorFilesystemPromises,
+  ReadonlyMountError,
+  TrashEntry
 } from '../ISnippetorFilesystemWrapper';
+import { ORDER_FILE_NAME, parseOrder, renameInOrder, sortDirectoryEntries } from '../SnippetFolderOrder';
 
 // Re-export types for backward compatibility
 export type { ConfigLoadResult };
@@ -20,6 +26,167 @@ interface FileEntry {
   encoding?: BufferEncoding;
 }
 
+/**
+ * Promise-based operations of the mock: the in-memory operations wrapped in promises
+ */
+class MockFilesystemPromises implements ISnippetorFilesystemPromises {
+  private mock: MockFilesystemWrapper;
+  private stash: Map<string, Map<string, FileEntry>> = new Map();
+  private trash: Map<string, { entry: TrashEntry; files: Map<string, FileEntry> }> = new Map();
+  private trashCounter = 0;
+  private backups: Map<string, FileEntry> = new Map();
+
+  constructor(mock: MockFilesystemWrapper) {
+    this.mock = mock;
+  }
+
+  public async getRootChildren(): Promise<DirectoryEntry[]> {
+    return this.mock.getRootChildren();
+  }
+
+  public async readDirectory(relativePath: string): Promise<DirectoryEntry[]> {
+    return this.mock.readDirectory(relativePath);
+  }
+
+  public async mkdir(relativePath: string, recursive?: boolean): Promise<void> {
+    this.mock.mkdir(relativePath, recursive);
+  }
+
+  public async getOrder(relativePath: string): Promise<string[]> {
+    return this.mock.getOrder(relativePath);
+  }
+
+  public async setOrder(relativePath: string, names: string[]): Promise<void> {
+    this.mock.setOrder(relativePath, names);
+  }
+
+  public async exists(relativePath: string): Promise<boolean> {
+    return this.mock.exists(relativePath);
+  }
+
+  public async stat(relativePath: string): Promise<FileStats> {
+    return this.mock.stat(relativePath);
+  }
+
+  public async rename(oldRelativePath: string, newRelativePath: string): Promise<void> {
+    this.mock.rename(oldRelativePath, newRelativePath);
+  }
+
+  public async writeFile(relativePath: string, data: string | Buffer, encoding?: BufferEncoding): Promise<void> {
+    this.mock.writeFile(relativePath, data, encoding);
+  }
+
+  public async readFile(relativePath: string, encoding?: BufferEncoding): Promise<string> {
+    return this.mock.readFile(relativePath, encoding);
+  }
+
+  public async remove(relativePath: string, recursive?: boolean): Promise<void> {
+    this.mock.remove(relativePath, recursive);
+  }
+
+  /**
+   * Copy in one step; cancellation is only checked before the copy starts
+   */
+  public async copy(sourceRelativePath: string, destRelativePath: string, options: FsOperationOptions = {}): Promise<void> {
+    if (options.isCancelled?.()) {
+      throw new FsOperationCancelledError();
+    }
+    this.mock.copy(sourceRelativePath, destRelativePath);
+    options.onProgress?.(destRelativePath);
+  }
+
+  /**
+   * Stashed, trashed and backed up entries are kept in memory
+   */
+  public async stashEntry(relativePath: string, stashId: string): Promise<void> {
+    this.mock.assertWritable(relativePath);
+    this.stash.set(stashId, this.mock.takeEntries(relativePath));
+  }
+
+  public async unstashEntry(stashId: string, relativePath: string): Promise<void> {
+    this.mock.assertWritable(relativePath);
+    const entries = this.stash.get(stashId);
+    if (!entries) {
+      throw new Error(`Stash entry does not exist: ${stashId}`);
+    }
+    if (this.mock.exists(relativePath)) {
+      throw new Error(`Destination already exists: ${relativePath}`);
+    }
+    this.mock.putEntries(relativePath, entries);
+    this.stash.delete(stashId);
+  }
+
+  public clearStash(stashId?: string): void {
+    if (stashId) {
+      this.stash.delete(stashId);
+    } else {
+      this.stash.clear();
+    }
+  }
+
+  public async moveToTrash(relativePath: string): Promise<TrashEntry> {
+    this.mock.assertWritable(relativePath);
+    const deletedAt = Date.now();
+    const entry: TrashEntry = {
+      id: `${deletedAt}-${++this.trashCounter}`,
+      name: this.mock.basename(relativePath),
+      originalPath: this.mock.normalizeMappedPath(relativePath),
+      isFolder: this.mock.getEntry(relativePath)?.isDirectory ?? false,
+      deletedAt
+    };
+    this.trash.set(entry.id, { entry, files: this.mock.takeEntries(relativePath) });
+    return entry;
+  }
+
+  public async listTrash(): Promise<TrashEntry[]> {
+    return Array.from(this.trash.values(), t => t.entry).sort((a, b) => b.deletedAt - a.deletedAt);
+  }
+
+  public async restoreFromTrash(id: string, relativePath: string): Promise<void> {
+    const trashed = this.trash.get(id);
+    if (!trashed) {
+      throw new Error(`"${id}" is no longer in the trash`);
+    }
+    this.mock.assertWritable(relativePath);
+    if (this.mock.exists(relativePath)) {
+      throw new Error(`Destination already exists: ${relativePath}`);
+    }
+    this.mock.putEntries(relativePath, trashed.files);
+    this.trash.delete(id);
+  }
+
+  public async deleteFromTrash(id: string): Promise<void> {
+    this.trash.delete(id);
+  }
+
+  public async backupFile(relativePath: string): Promise<void> {
+    this.backupFileSync(relativePath);
+  }
+
+  // the mock's sync backupFile shares the same in-memory backups
+  public backupFileSync(relativePath: string): void {
+    this.mock.assertWritable(relativePath);
+    const entry = this.mock.getEntry(relativePath);
+    if (entry && !entry.isDirectory) {
+      this.backups.set(this.mock.toAbsolutePath(relativePath), { ...entry });
+    }
+  }
+
+  public hasBackup(relativePath: string): boolean {
+    return this.backups.has(this.mock.toAbsolutePath(relativePath));
+  }
+
+  public async restoreBackup(relativePath: string): Promise<void> {
+    this.mock.assertWritable(relativePath);
+    const previous = this.backups.get(this.mock.toAbsolutePath(relativePath));
+    if (!previous) {
+      throw new Error(`No previous version of ${relativePath}`);
+    }
+    this.backupFileSync(relativePath);
+    this.mock.writeFile(relativePath, previous.content, previous.encoding);
+  }
+}
+
 /**
  * Mock wrapper class that handles all filesystem operations in memory.
  * Converts between relative paths (used by providers) and absolute paths (used by filesystem).
@@ -29,7 +196,12 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
   private rootPath: string;
   private configPath: string;
   private folders: SnippetMapping[] = [];
+  private workspaceFolders: string[] = [];
   private fileCache: Map<string, FileEntry> = new Map();
+  private storageFiles: Map<string, string> = new Map();
+  private readonly promisesImpl = new MockFilesystemPromises(this);
+
+  public readonly promises: ISnippetorFilesystemPromises = this.promisesImpl;
 
   constructor(config: SnippetMapping[]) {
     this.rootPath = '/mock/root';
@@ -138,7 +310,8 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
         }
         folders.push({
           folder: String(item.folder),
-          mapping: String(item.mapping)
+          mapping: String(item.mapping),
+          ...(item.readonly === true ? {readonly: true} : {})
         });
       }
 
@@ -175,6 +348,13 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
     return this.folders;
   }
 
+  /**
+   * Workspace configs are not part of the mock; the folders are only kept
+   */
+  public setWorkspaceFolders(absolutePaths: string[], trusted: boolean): void {
+    this.workspaceFolders = absolutePaths;
+  }
+
   /**
    * Get config file absolute path
    */
@@ -182,6 +362,63 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
     return this.configPath;
   }
 
+  /**
+   * Storage files are kept in memory only
+   */
+  public readStorageFile(name: string): string | undefined {
+    return this.storageFiles.get(name);
+  }
+
+  public writeStorageFile(name: string, data: string): void {
+    this.storageFiles.set(name, data);
+  }
+
+  /**
+   * Stash, trash and backups are kept by the promise-based operations
+   */
+  public clearStash(stashId?: string): void {
+    this.promisesImpl.clearStash(stashId);
+  }
+
+  public backupFile(relativePath: string): void {
+    this.promisesImpl.backupFileSync(relativePath);
+  }
+
+  public hasBackup(relativePath: string): boolean {
+    return this.promisesImpl.hasBackup(relativePath);
+  }
+
+  /**
+   * Remove an entry and its children from the cache, keyed by path below the entry ('' = entry itself)
+   */
+  public takeEntries(relativePath: string): Map<string, FileEntry> {
+    const absolutePath = this.toAbsolutePath(relativePath);
+    if (!this.fileCache.has(absolutePath)) {
+      throw new Error(`Path does not exist: ${relativePath}`);
+    }
+    const entries = new Map<string, FileEntry>();
+    for (const [path, entry] of Array.from(this.fileCache.entries())) {
+      if (path === absolutePath || path.startsWith(absolutePath + '/')) {
+        entries.set(path.substring(absolutePath.length), entry);
+        this.fileCache.delete(path);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Put entries taken by takeEntries back below a path, creating missing parent folders
+   */
+  public putEntries(relativePath: string, entries: Map<string, FileEntry>): void {
+    const absolutePath = this.toAbsolutePath(relativePath);
+    this.ensurePathExists(this.dirnameFromPath(absolutePath), true);
+    entries.forEach((entry, subPath) => this.fileCache.set(absolutePath + subPath, entry));
+  }
+
+  public getEntry(relativePath: string): FileEntry | undefined {
+    return this.fileCache.get(this.toAbsolutePath(relativePath));
+  }
+
   /**
    * Check if default folders exist
    */
@@ -222,6 +459,13 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
     return subPath ? this.joinPaths(folder.mapping, subPath) : folder.mapping;
   }
 
+  /**
+   * Mapped path with exactly one leading and no trailing slash
+   */
+  public normalizeMappedPath(relativePath: string): string {
+    return '/' + relativePath.replace(/^\/+|\/+$/g, '');
+  }
+
   /**
    * Convert path to relative path (handles both absolute and relative inputs)
    * Returns format: "FolderName" or "FolderName/subpath"
@@ -282,6 +526,20 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
            this.folders.some(f => f.folder === pathParts[0]);
   }
 
+  /**
+   * Check if relative path is inside a read-only mount point
+   */
+  public isReadonly(relativePath: string): boolean {
+    const folderName = (relativePath || '').replace(/^\/+/, '').split('/')[0];
+    return this.folders.some(f => f.folder === folderName && f.readonly === true);
+  }
+
+  public assertWritable(relativePath: string): void {
+    if (this.isReadonly(relativePath)) {
+      throw new ReadonlyMountError(relativePath);
+    }
+  }
+
   /**
    * Get root children (relative paths)
    */
@@ -291,7 +549,8 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
         .map(entry => ({
           name: entry.folder,
           fullPath: entry.folder, // Return relative path
-          isFolder: true
+          isFolder: true,
+          ...(entry.readonly ? {readonly: true} : {})
         }))
         .sort((a, b) => a.name.localeCompare(b.name));
   }
@@ -326,6 +585,11 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
         continue;
       }
 
+      // The order file is not an entry of the folder
+      if (this.basenameFromPath(path) === ORDER_FILE_NAME) {
+        continue;
+      }
+
       // Check if this entry is a direct child
       if (path.startsWith(prefix)) {
         const relative = path.substring(prefix.length);
@@ -340,13 +604,29 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
       }
     }
 
-    return entries.sort((a, b) => {
-      // Folders first, then files
-      if (a.isFolder && !b.isFolder) return -1;
-      if (!a.isFolder && b.isFolder) return 1;
-      // Within same type, sort alphabetically by name
-      return a.name.localeCompare(b.name);
-    });
+    // Folders first, then files in the manual order, then alphabetically
+    return sortDirectoryEntries(entries, this.getOrder(relativePath));
+  }
+
+  /**
+   * Get the manual order of a folder
+   */
+  public getOrder(relativePath: string): string[] {
+    const entry = this.fileCache.get(this.toAbsolutePath(relativePath) + '/' + ORDER_FILE_NAME);
+    return entry ? parseOrder(entry.content.toString()) : [];
+  }
+
+  /**
+   * Set the manual order of a folder
+   */
+  public setOrder(relativePath: string, names: string[]): void {
+    this.assertWritable(relativePath);
+    const orderPath = this.toAbsolutePath(relativePath) + '/' + ORDER_FILE_NAME;
+    if (names.length === 0) {
+      this.fileCache.delete(orderPath);
+    } else {
+      this.fileCache.set(orderPath, { content: JSON.stringify(names, null, 2), isDirectory: false, encoding: 'utf-8' });
+    }
   }
 
   /**
@@ -390,6 +670,8 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
    * Rename file or folder
    */
   public rename(oldRelativePath: string, newRelativePath: string): void {
+    this.assertWritable(oldRelativePath);
+    this.assertWritable(newRelativePath);
     const oldAbsolute = this.toAbsolutePath(oldRelativePath);
     const newAbsolute = this.toAbsolutePath(newRelativePath);
     
@@ -433,12 +715,22 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
 
     // Remove old entry
     this.fileCache.delete(oldAbsolute);
+
+    // Keep the position of a renamed entry in the manual order
+    const folder = this.dirname(oldRelativePath);
+    const order = this.getOrder(folder);
+    const oldName = this.basename(oldRelativePath);
+    if (order.includes(oldName)) {
+      const newName = this.dirname(newRelativePath) === folder ? this.basename(newRelativePath) : undefined;
+      this.setOrder(folder, renameInOrder(order, oldName, newName));
+    }
   }
 
   /**
    * Create directory
    */
   public mkdir(relativePath: string, recursive: boolean = true): void {
+    this.assertWritable(relativePath);
     const absolutePath = this.toAbsolutePath(relativePath);
     
     if (this.fileCache.has(absolutePath)) {
@@ -469,6 +761,7 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
    * Write file
    */
   public writeFile(relativePath: string, data: string | Buffer, encoding?: BufferEncoding): void {
+    this.assertWritable(relativePath);
     const absolutePath = this.toAbsolutePath(relativePath);
     
     // Ensure parent directory exists
@@ -511,6 +804,7 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
    * Remove file or directory
    */
   public remove(relativePath: string, recursive: boolean = false): void {
+    this.assertWritable(relativePath);
     const absolutePath = this.toAbsolutePath(relativePath);
     const entry = this.fileCache.get(absolutePath);
     
@@ -549,6 +843,7 @@ export class MockFilesystemWrapper implements ISnippetorFilesystemWrapper {
    * Copy file or directory
    */
   public copy(sourceRelativePath: string, destRelativePath: string): void {
+    this.assertWritable(destRelativePath);
     const sourceAbsolute = this.toAbsolutePath(sourceRelativePath);
     const destAbsolute = this.toAbsolutePath(destRelativePath);
     
@@ -3,7 +3,8 @@
 // No vscode, fs, path dependencies - uses browser APIs instead
 
 import { ISnippetorWebViewHandler } from '../ISnippetorWebViewHandler';
-import { ISnippetorApiProvider } from '../ISnippetorApiProvider';
+import { FolderChangeKind, ISnippetorApiProvider, SnippetProgress } from '../ISnippetorApiProvider';
+import { FileDiagnostic } from '../ISnippetorFilesystemWrapper';
 
 /**
  * Simple mock context that stores workspace state in memory
@@ -67,12 +68,41 @@ export class MockSnippetBaseProvider implements ISnippetorApiProvider {
    * Show text document at specified line
    * In mock, just log the action
    */
-  public async showTextDocument(fileName: string, startLine: number, endLine?: number): Promise<void> {
+  public async showTextDocument(fileName: string, startLine: number, endLine?: number, startColumn?: number, endColumn?: number): Promise<void> {
     const range = endLine !== undefined ? `${startLine}-${endLine}` : `${startLine}`;
     console.log(`[Mock] Show text document: ${fileName} at line ${range}`);
     // In a real browser environment, you might want to open a new window/tab or navigate
   }
 
+  /**
+   * Read workspace file lines
+   * In mock, there is no workspace - always unavailable
+   */
+  public async readTextDocumentLines(fileName: string): Promise<string[] | undefined> {
+    console.log(`[Mock] Read text document: ${fileName}`);
+    return undefined;
+  }
+
+  /**
+   * Enclosing symbol of a line
+   * In mock, there are no symbol providers
+   */
+  public async getEnclosingSymbol(fileName: string, line: number): Promise<string | undefined> {
+    return undefined;
+  }
+
+  /**
+   * Show a note next to a file range
+   * In mock, just log the action
+   */
+  public showNote(fileName: string, startLine: number, endLine: number, title: string, text: string): void {
+    console.log(`[Mock] Show note "${title}" at ${fileName}:${startLine}-${endLine}: ${text}`);
+  }
+
+  public clearNote(): void {
+    console.log('[Mock] Clear note');
+  }
+
   /**
    * Internal method to show text document
    */
@@ -199,6 +229,48 @@ export class MockSnippetBaseProvider implements ISnippetorApiProvider {
     };
   }
 
+  /**
+   * Watch a folder
+   * In mock, there is no filesystem to watch
+   */
+  public watchFolder(absolutePath: string, listener: (kind: FolderChangeKind, absolutePath: string) => void): { dispose: () => void } {
+    console.log(`[Mock] Watch folder: ${absolutePath}`);
+    return {
+      dispose: () => {
+        // Nothing to stop
+      }
+    };
+  }
+
+  /**
+   * Show file problems
+   * In mock, just log them
+   */
+  public setFileDiagnostics(filePath: string, diagnostics: FileDiagnostic[]): void {
+    console.log(`[Mock] Diagnostics for ${filePath}: ${diagnostics.map(d => d.message).join('; ')}`);
+  }
+
+  /**
+   * Run a long task
+   * In mock, progress is logged and the task is never cancelled
+   */
+  public withProgress<T>(title: string, task: (progress: SnippetProgress) => Promise<T>): Promise<T> {
+    console.log(`[Mock] Progress: ${title}`);
+    return task({
+      report: (message) => console.log(`[Mock] Progress: ${title} ${message}`),
+      isCancelled: () => false
+    });
+  }
+
+  /**
+   * Execute a command
+   * In mock, just log the action
+   */
+  public async executeCommand(command: string, ...args: any[]): Promise<unknown> {
+    console.log(`[Mock] Execute command: ${command}`, args);
+    return undefined;
+  }
+
   /**
    * Get a value from workspace state
    */
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { BatchCommandHandler, BatchCommandParams } from '../SnippetExplorerCommandHandler';
+import { ISnippetorApiProvider } from '../ISnippetorApiProvider';
+import { SnippetExplorerListener } from '../SnippetExplorerHandler';
+import { SnippetOperationJournal } from '../SnippetOperationJournal';
+
+let tmpDir: string;
+let wrapper: SnippetorFilesystemsWrapper;
+let journal: SnippetOperationJournal;
+let mockApi: ISnippetorApiProvider;
+let mockListener: SnippetExplorerListener;
+let sendCallback: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  // 1. Create isolated temp directory with a wrapper and a journal on it
+  // 2. Create fresh mocks; the user confirms with the first choice by default
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-batch-'));
+  wrapper = new SnippetorFilesystemsWrapper(tmpDir);
+  journal = new SnippetOperationJournal(wrapper);
+  sendCallback = vi.fn();
+  mockApi = {
+    showInformationMessage: vi.fn().mockResolvedValue(undefined),
+    showErrorMessage: vi.fn().mockResolvedValue(undefined),
+    showWarningMessage: vi.fn().mockImplementation((message: string, modal: boolean, ...items: string[]) =>
+      Promise.resolve(items[0])),
+    postMessage: vi.fn(),
+    withProgress: vi.fn().mockImplementation((title: string, task: (progress: any) => Promise<any>) =>
+      task({ report: vi.fn(), isCancelled: () => false })),
+  } as unknown as ISnippetorApiProvider;
+  mockListener = {
+    onNodeRenamed: vi.fn(),
+    onNodeMoved: vi.fn(),
+    onNodeRemoved: vi.fn(),
+    onNodeOverwrite: vi.fn(),
+    onNodeActivate: vi.fn(),
+  };
+  wrapper.mkdir('/Drafts/src', true);
+  wrapper.mkdir('/Drafts/dst', true);
+  wrapper.writeFile('/Drafts/src/a.snippet', 'a');
+  wrapper.writeFile('/Drafts/src/b.snippet', 'b');
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function run(operation: BatchCommandParams['operation'], paths: string[], targetPath?: string): Promise<void> {
+  return new BatchCommandHandler(wrapper, mockListener, sendCallback, mockApi, journal).execute({
+    operation,
+    items: paths.map(p => ({ path: p, isFolder: !p.endsWith('.snippet') })),
+    targetPath,
+    callbackId: 'cb',
+    sendCallback
+  });
+}
+
+function results(): any[] {
+  return sendCallback.mock.calls[0][3].results;
+}
+
+describe('BatchCommandHandler', () => {
+  it('moves several items with one confirmation, one undo entry and one summary', async () => {
+    // 1. Move two snippets into another folder
+    // 2. Expect a single question, per-item results and a single summary
+    // 3. One undo brings both back
+    await run('move', ['/Drafts/src/a.snippet', '/Drafts/src/b.snippet'], '/Drafts/dst');
+
+    expect(mockApi.showWarningMessage).toHaveBeenCalledTimes(1);
+    expect(mockApi.showWarningMessage).toHaveBeenCalledWith('Move 2 items to "dst"?', true, 'Yes');
+    expect(results().map(r => [r.path, r.success])).toEqual([['/Drafts/src/a.snippet', true], ['/Drafts/src/b.snippet', true]]);
+    expect(mockApi.showInformationMessage).toHaveBeenCalledTimes(1);
+    expect(mockApi.showInformationMessage).toHaveBeenCalledWith('Moved 2 items to "dst"');
+    expect(mockListener.onNodeMoved).toHaveBeenCalledTimes(2);
+    expect(wrapper.readFile('/Drafts/dst/a.snippet')).toBe('a');
+
+    expect(journal.getUndoLabel()).toBe('Move 2 items');
+    await journal.undo();
+    expect(wrapper.exists('/Drafts/src/a.snippet')).toBe(true);
+    expect(wrapper.exists('/Drafts/src/b.snippet')).toBe(true);
+  });
+
+  it('skips or replaces existing items as chosen once for the batch', async () => {
+    // 1. Copy two snippets where one already exists in the target, and skip it
+    // 2. Copy again and replace
+    wrapper.writeFile('/Drafts/dst/a.snippet', 'existing');
+    (mockApi.showWarningMessage as ReturnType<typeof vi.fn>).mockResolvedValueOnce('Skip');
+    await run('copy', ['/Drafts/src/a.snippet', '/Drafts/src/b.snippet'], '/Drafts/dst');
+
+    expect(mockApi.showWarningMessage).toHaveBeenCalledWith(
+      'Copy 2 items to "dst"? 1 item already exists there.', true, 'Replace', 'Skip');
+    expect(results().map(r => [r.success, r.skipped])).toEqual([[false, true], [true, false]]);
+    expect(wrapper.readFile('/Drafts/dst/a.snippet')).toBe('existing');
+    expect(mockApi.showInformationMessage).toHaveBeenCalledWith('Copied 1 of 2 items to "dst", skipped 1 existing');
+
+    sendCallback.mockClear();
+    await run('copy', ['/Drafts/src/a.snippet', '/Drafts/src/b.snippet'], '/Drafts/dst');
+    expect(results().every(r => r.success)).toBe(true);
+    expect(wrapper.readFile('/Drafts/dst/a.snippet')).toBe('a');
+  });
+
+  it('moves selected items to the trash, leaving out items inside selected folders', async () => {
+    // 1. Delete a folder together with a snippet inside it and another snippet
+    // 2. Expect one question for two items and both in the trash
+    wrapper.writeFile('/Drafts/dst/c.snippet', 'c');
+    await run('remove', ['/Drafts/src', '/Drafts/src/a.snippet', '/Drafts/dst/c.snippet']);
+
+    expect(mockApi.showWarningMessage).toHaveBeenCalledWith('Move 2 items to the Trash?', true, 'Yes');
+    expect(results().map(r => r.path)).toEqual(['/Drafts/src', '/Drafts/dst/c.snippet']);
+    expect((await wrapper.promises.listTrash()).map(e => e.originalPath).sort()).toEqual(['/Drafts/dst/c.snippet', '/Drafts/src']);
+  });
+
+  it('reports failed items in the summary', async () => {
+    // 1. Move a mount point together with a snippet
+    // 2. Expect the snippet moved and the mount point listed with its reason
+    await run('move', ['/LocalSpace', '/Drafts/src/a.snippet'], '/Drafts/dst');
+
+    expect(results().map(r => r.success)).toEqual([false, true]);
+    expect(mockApi.showWarningMessage).toHaveBeenLastCalledWith(
+      'Moved 1 of 2 items to "dst". Failed: LocalSpace (Cannot move top-level folder: LocalSpace)');
+  });
+
+  it('reports a failure when no item succeeded', async () => {
+    // 1. Move only a mount point
+    // 2. Expect the callback to fail with the reason and still carry the results
+    await run('move', ['/LocalSpace'], '/Drafts/dst');
+
+    expect(sendCallback).toHaveBeenCalledWith(false, 'LocalSpace (Cannot move top-level folder: LocalSpace)', 'cb',
+      { results: [expect.objectContaining({ path: '/LocalSpace', success: false })] });
+  });
+
+  it('does nothing when the user cancels', async () => {
+    (mockApi.showWarningMessage as ReturnType<typeof vi.fn>).mockResolvedValueOnce(undefined);
+    await run('remove', ['/Drafts/src/a.snippet']);
+
+    expect(sendCallback).toHaveBeenCalledWith(true, '', 'cb', { results: [], cancelled: true });
+    expect(wrapper.exists('/Drafts/src/a.snippet')).toBe(true);
+    expect(journal.getUndoLabel()).toBeUndefined();
+  });
+});
@@ -28,6 +28,8 @@ beforeEach(() => {
     showTextDocumentInternal: vi.fn(),
     openFile: vi.fn(),
     postMessage: vi.fn(),
+    withProgress: vi.fn().mockImplementation((title: string, task: (progress: any) => Promise<any>) =>
+      task({ report: vi.fn(), isCancelled: () => false })),
     getWorkspaceFolder: vi.fn(),
     onDidChangeTextEditorSelection: vi.fn().mockReturnValue({ dispose: vi.fn() }),
     getWorkspaceState: vi.fn().mockReturnValue([]),
@@ -193,6 +195,28 @@ describe('CopyCommandHandler', () => {
       expect(sendCallback).toHaveBeenCalledWith(true, '', 'cb');
     });
 
+    it('shows progress for a folder copy and removes a cancelled copy', async () => {
+      // 1. Create a source folder with two files
+      // 2. Cancel the copy after the first copied entry
+      // 3. Expect no partial copy, a cancelled callback and nothing to undo
+      wrapper.mkdir('/Drafts/srcFolder');
+      wrapper.writeFile('/Drafts/srcFolder/a.txt', 'a');
+      wrapper.writeFile('/Drafts/srcFolder/b.txt', 'b');
+      wrapper.mkdir('/LocalSpace/dstDir');
+      let copied = 0;
+      (mockApi.withProgress as ReturnType<typeof vi.fn>).mockImplementationOnce(
+        (title: string, task: (progress: any) => Promise<any>) =>
+          task({ report: () => copied++, isCancelled: () => copied > 0 }));
+      await makeHandler().execute(makeParams({
+        sourcePath: '/Drafts/srcFolder',
+        targetPath: '/LocalSpace/dstDir',
+        isFolder: true,
+      }));
+      expect(mockApi.withProgress).toHaveBeenCalledWith('Copying "srcFolder"', expect.any(Function));
+      expect(wrapper.exists('/LocalSpace/dstDir/srcFolder')).toBe(false);
+      expect(sendCallback).toHaveBeenCalledWith(false, 'Copy cancelled', 'cb');
+    });
+
     it('overwrites an existing file when overwrite=true', async () => {
       // 1. Create source file and an existing destination file
       // 2. Execute with overwrite=true
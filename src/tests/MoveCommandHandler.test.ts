@@ -28,6 +28,8 @@ beforeEach(() => {
     showTextDocumentInternal: vi.fn(),
     openFile: vi.fn(),
     postMessage: vi.fn(),
+    withProgress: vi.fn().mockImplementation((title: string, task: (progress: any) => Promise<any>) =>
+      task({ report: vi.fn(), isCancelled: () => false })),
     getWorkspaceFolder: vi.fn(),
     onDidChangeTextEditorSelection: vi.fn().mockReturnValue({ dispose: vi.fn() }),
     getWorkspaceState: vi.fn().mockReturnValue([]),
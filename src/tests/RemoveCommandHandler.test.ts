@@ -207,5 +207,19 @@ describe('RemoveCommandHandler', () => {
       );
       expect(sendCallback).toHaveBeenCalledWith(false, expect.stringContaining('Delete failed'), 'cb');
     });
+
+    it('refuses entries of a read-only mount point without asking', async () => {
+      // 1. Mark Drafts as read-only in the config
+      // 2. Execute remove of a file inside it
+      // 3. Expect no confirmation, a warning and the file still on disk
+      wrapper.writeFile('/Drafts/keep.snippet', 'safe');
+      fs.writeFileSync(wrapper.getConfigAbsolutePath(),
+        JSON.stringify([{ folder: 'Drafts', mapping: path.join(tmpDir, 'Drafts'), readonly: true }]));
+      wrapper.reloadConfig();
+      await makeHandler().execute(makeParams({ fullPath: '/Drafts/keep.snippet', name: 'keep.snippet' }));
+      expect(mockApi.showWarningMessage).toHaveBeenCalledWith('"/Drafts" is a read-only mount point');
+      expect(sendCallback).toHaveBeenCalledWith(false, '"/Drafts" is a read-only mount point', 'cb');
+      expect(wrapper.exists('/Drafts/keep.snippet')).toBe(true);
+    });
   });
 });
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { ReorderCommandHandler, ReorderCommandParams } from '../SnippetExplorerCommandHandler';
+import { ISnippetorApiProvider } from '../ISnippetorApiProvider';
+
+let tmpDir: string;
+let wrapper: SnippetorFilesystemsWrapper;
+let mockApi: ISnippetorApiProvider;
+let sendCallback: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  // 1. Create isolated temp directory with three chapters in a folder
+  // 2. Create fresh mocks for API and sendCallback
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-reorder-'));
+  wrapper = new SnippetorFilesystemsWrapper(tmpDir);
+  sendCallback = vi.fn();
+  mockApi = {
+    showInformationMessage: vi.fn().mockResolvedValue(undefined),
+    showErrorMessage: vi.fn().mockResolvedValue(undefined),
+    showWarningMessage: vi.fn().mockResolvedValue(undefined),
+    postMessage: vi.fn(),
+  } as unknown as ISnippetorApiProvider;
+  wrapper.mkdir('/Drafts/guide/images', true);
+  ['intro.snippet', 'setup.snippet', 'usage.snippet'].forEach(name => wrapper.writeFile(`/Drafts/guide/${name}`, ''));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function reorder(name: string, siblingName: string, position: 'before' | 'after'): Promise<void> {
+  const params: ReorderCommandParams = {
+    path: `/Drafts/guide/${name}`,
+    siblingPath: `/Drafts/guide/${siblingName}`,
+    position,
+    callbackId: 'cb',
+    sendCallback
+  };
+  return new ReorderCommandHandler(wrapper, undefined, sendCallback, mockApi).execute(params);
+}
+
+function names(): string[] {
+  return wrapper.readDirectory('/Drafts/guide').map(entry => entry.name);
+}
+
+describe('ReorderCommandHandler', () => {
+  it('places a snippet before or after a sibling and keeps folders first', async () => {
+    // 1. Move the last chapter before the first one
+    // 2. Move the first chapter after the last one
+    // 3. Expect the order in the folder listing and in the callback
+    await reorder('usage.snippet', 'intro.snippet', 'before');
+    expect(names()).toEqual(['images', 'usage.snippet', 'intro.snippet', 'setup.snippet']);
+
+    await reorder('usage.snippet', 'setup.snippet', 'after');
+    expect(names()).toEqual(['images', 'intro.snippet', 'setup.snippet', 'usage.snippet']);
+    expect(sendCallback).toHaveBeenLastCalledWith(true, '', 'cb', { children: wrapper.readDirectory('/Drafts/guide') });
+  });
+
+  it('rejects snippets of another folder and folders', async () => {
+    // 1. Drop a snippet onto a snippet of another folder, then onto a folder
+    // 2. Expect warnings and no order file
+    wrapper.writeFile('/Drafts/other.snippet', '');
+    await new ReorderCommandHandler(wrapper, undefined, sendCallback, mockApi).execute({
+      path: '/Drafts/other.snippet', siblingPath: '/Drafts/guide/intro.snippet', position: 'before',
+      callbackId: 'cb', sendCallback
+    });
+    expect(sendCallback).toHaveBeenLastCalledWith(false, 'Snippets can only be reordered within their folder.', 'cb');
+
+    await reorder('intro.snippet', 'images', 'before');
+    expect(sendCallback).toHaveBeenLastCalledWith(false, 'Folders are always sorted by name.', 'cb');
+    expect(wrapper.getOrder('/Drafts/guide')).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { createAnchor, relocateAnchor, lineSimilarity } from '../SnippetAnchor';
+
+const SOURCE = [
+  'import { a } from "a";',
+  '',
+  'function login(user: string) {',
+  '  const token = issueToken(user);',
+  '  audit("login", user);',
+  '  return token;',
+  '}',
+  '',
+  'function logout(user: string) {',
+  '  revoke(user);',
+  '}'
+];
+
+// Lines 4-5 of SOURCE: the token + audit lines of login()
+const RANGE = { startLine: 4, startColumn: 2, endLine: 5, endColumn: 22 };
+
+describe('createAnchor', () => {
+  it('stores normalized anchored lines and context', () => {
+    // 1. Anchor lines 4-5
+    // 2. Expect trimmed lines, 3 lines of context above and 2 below
+    const anchor = createAnchor(SOURCE, RANGE);
+    expect(anchor.lines).toEqual(['const token = issueToken(user);', 'audit("login", user);']);
+    expect(anchor.before).toEqual(['import { a } from "a";', '', 'function login(user: string) {']);
+    expect(anchor.after).toEqual(['return token;', '}', '']);
+    expect(anchor.hash).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('does not include the last line of a selection ending at column 0', () => {
+    // 1. Anchor a selection from line 4 to the start of line 6
+    // 2. Expect only lines 4-5 to be fingerprinted
+    const anchor = createAnchor(SOURCE, { startLine: 4, startColumn: 0, endLine: 6, endColumn: 0 });
+    expect(anchor.lines.length).toBe(2);
+  });
+});
+
+describe('relocateAnchor', () => {
+  it('reports ok when the content did not move', () => {
+    // 1. Relocate against the unchanged source
+    // 2. Expect state "ok" and the same range
+    const anchor = createAnchor(SOURCE, RANGE);
+    const result = relocateAnchor(SOURCE, RANGE, anchor);
+    expect(result.state).toBe('ok');
+    expect(result.range).toEqual(RANGE);
+  });
+
+  it('ignores re-indentation', () => {
+    // 1. Re-indent the anchored lines
+    // 2. Expect state "ok"
+    const anchor = createAnchor(SOURCE, RANGE);
+    const edited = SOURCE.map((line, i) => (i === 3 || i === 4) ? '    ' + line : line);
+    expect(relocateAnchor(edited, RANGE, anchor).state).toBe('ok');
+  });
+
+  it('follows content moved by inserted lines', () => {
+    // 1. Insert 3 lines above the anchored block
+    // 2. Expect state "relocated" and the range shifted by 3 lines, columns kept
+    const anchor = createAnchor(SOURCE, RANGE);
+    const edited = ['// a', '// b', '// c', ...SOURCE];
+    const result = relocateAnchor(edited, RANGE, anchor);
+    expect(result.state).toBe('relocated');
+    expect(result.range).toEqual({ startLine: 7, startColumn: 2, endLine: 8, endColumn: 22 });
+  });
+
+  it('falls back to a fuzzy match when the content was edited and moved', () => {
+    // 1. Move login() below logout() and rename one identifier
+    // 2. Expect "relocated" to the new position with similarity below 1
+    const anchor = createAnchor(SOURCE, RANGE);
+    const edited = [
+      ...SOURCE.slice(0, 2),
+      ...SOURCE.slice(8),
+      '',
+      'function login(user: string) {',
+      '  const token = issueToken(user, now());',
+      '  audit("login", user);',
+      '  return token;',
+      '}'
+    ];
+    const result = relocateAnchor(edited, RANGE, anchor);
+    expect(result.state).toBe('relocated');
+    expect(result.range.startLine).toBe(8);
+    expect(result.similarity).toBeLessThan(1);
+  });
+
+  it('reports changed when the content was edited in place', () => {
+    // 1. Edit the anchored line without moving it
+    // 2. Expect state "changed" and the same range
+    const anchor = createAnchor(SOURCE, RANGE);
+    const edited = [...SOURCE];
+    edited[3] = '  const token = issueToken(user, scope);';
+    const result = relocateAnchor(edited, RANGE, anchor);
+    expect(result.state).toBe('changed');
+    expect(result.range).toEqual(RANGE);
+  });
+
+  it('reports stale when the content is gone', () => {
+    // 1. Relocate against a file with unrelated content
+    // 2. Expect state "stale" and the original range
+    const anchor = createAnchor(SOURCE, RANGE);
+    const result = relocateAnchor(['totally', 'different', 'file'], RANGE, anchor);
+    expect(result.state).toBe('stale');
+    expect(result.range).toEqual(RANGE);
+  });
+});
+
+describe('lineSimilarity', () => {
+  it('is 1 for equal strings and 0 for unrelated ones', () => {
+    expect(lineSimilarity('abc', 'abc')).toBe(1);
+    expect(lineSimilarity('abcd', 'wxyz')).toBe(0);
+  });
+});
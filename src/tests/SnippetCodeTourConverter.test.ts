@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  codeTourToSnippet,
+  parseCodeTour,
+  snippetToCodeTour,
+  snippetToTourFileName,
+  tourToSnippetFileName
+} from '../SnippetCodeTourConverter';
+import { parseSnippetContent } from '../SnippetFileReader';
+
+describe('SnippetCodeTourConverter', () => {
+  it('converts a snippet into a CodeTour', () => {
+    // 1. Build snippet content with a selection, a single line and a note-only item
+    // 2. Expect steps with 1-based selections and content-only steps
+    const content = parseSnippetContent(JSON.stringify({
+      title: 'Auth flow',
+      description: 'How login works',
+      snippets: [
+        { uid: 'u1', text: 'Entry', filePath: 'src/auth.ts', line: 'auth.ts:10-13',
+          range: { startLine: 10, startColumn: 0, endLine: 13, endColumn: 0 } },
+        { uid: 'u2', text: 'Token', filePath: 'src/token.ts', line: 'token.ts:7' },
+        { uid: 'u3', text: 'Summary', filePath: '', line: '' }
+      ]
+    }));
+
+    expect(snippetToCodeTour(content)).toEqual({
+      $schema: 'https://aka.ms/codetour-schema',
+      title: 'Auth flow',
+      description: 'How login works',
+      steps: [
+        { file: 'src/auth.ts', line: 12, description: 'Entry',
+          selection: { start: { line: 10, character: 1 }, end: { line: 13, character: 1 } } },
+        { file: 'src/token.ts', line: 7, description: 'Token' },
+        { description: 'Summary' }
+      ]
+    });
+  });
+
+  it('converts a CodeTour into snippet content', () => {
+    // 1. Parse a tour with a selection, a line-only step, a titled step and a content step
+    // 2. Expect ranges, line labels and notes
+    const tour = parseCodeTour(JSON.stringify({
+      title: 'Tour',
+      steps: [
+        { file: 'src\\api.ts', selection: { start: { line: 3, character: 5 }, end: { line: 4, character: 2 } }, description: 'A' },
+        { file: 'src/api.ts', line: 9, title: 'Step title', description: 'B' },
+        { description: 'Intro' }
+      ]
+    }));
+    const content = codeTourToSnippet(tour);
+
+    expect(content.title).toBe('Tour');
+    expect(content.description).toBe('');
+    expect(content.snippets.map(({ uid, ...item }) => item)).toEqual([
+      { text: 'A', filePath: 'src/api.ts', line: 'api.ts:3-4', range: { startLine: 3, startColumn: 4, endLine: 4, endColumn: 1 } },
+      { text: '**Step title**\n\nB', filePath: 'src/api.ts', line: 'api.ts:9', range: { startLine: 9, startColumn: 0, endLine: 10, endColumn: 0 } },
+      { text: 'Intro', filePath: '', line: '' }
+    ]);
+    expect(new Set(content.snippets.map(s => s.uid)).size).toBe(3);
+  });
+
+  it('falls back to the step line for invalid selections', () => {
+    // 1. Parse steps with a reversed selection, line 0, a fractional line and a string character
+    // 2. Expect the step line where there is one, no location otherwise
+    const tour = parseCodeTour(JSON.stringify({
+      title: 'Tour',
+      steps: [
+        { file: 'a.ts', line: 7, selection: { start: { line: 9, character: 1 }, end: { line: 4, character: 1 } }, description: 'A' },
+        { file: 'a.ts', line: 7, selection: { start: { line: 0, character: 1 }, end: { line: 2, character: 1 } }, description: 'B' },
+        { file: 'a.ts', selection: { start: { line: 1.5, character: 1 }, end: { line: 2, character: 1 } }, description: 'C' },
+        { file: 'a.ts', line: 2.5, selection: { start: { line: 1, character: '1' }, end: { line: 2, character: 1 } }, description: 'D' }
+      ]
+    }));
+
+    expect(codeTourToSnippet(tour).snippets.map(s => s.range)).toEqual([
+      { startLine: 7, startColumn: 0, endLine: 8, endColumn: 0 },
+      { startLine: 7, startColumn: 0, endLine: 8, endColumn: 0 },
+      undefined,
+      undefined
+    ]);
+  });
+
+  it('keeps locations and notes through a round trip', () => {
+    // 1. Convert a snippet to a tour and back
+    // 2. Expect the same ranges and notes
+    const content = parseSnippetContent(JSON.stringify({
+      title: 'T', description: 'D',
+      snippets: [{ uid: 'u1', text: 'N', filePath: 'a.ts', line: 'a.ts:2-3',
+        range: { startLine: 2, startColumn: 2, endLine: 3, endColumn: 8 } }]
+    }));
+    const back = codeTourToSnippet(snippetToCodeTour(content));
+    expect(back.description).toBe('D');
+    expect(back.snippets[0]).toMatchObject({ text: 'N', filePath: 'a.ts', range: content.snippets[0].range });
+  });
+
+  it('rejects files without steps and maps file names', () => {
+    expect(() => parseCodeTour('{"title":"x"}')).toThrow('steps');
+    expect(tourToSnippetFileName('onboarding.tour')).toBe('onboarding.snippet');
+    expect(snippetToTourFileName('sub/auth.snippet')).toBe('sub/auth.tour');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import * as path from 'path';
+import { ConfigVariables, expandMapping, formatDiagnostic, validateConfigText } from '../SnippetConfigValidator';
+
+const root = path.resolve('/snippets');
+
+function config(items: unknown[]): string {
+  return JSON.stringify(items, null, 2);
+}
+
+describe('SnippetConfigValidator', () => {
+  it('accepts a valid config without problems', () => {
+    const result = validateConfigText(config([
+      { folder: 'Drafts', mapping: path.join(root, 'Drafts') },
+      { folder: 'Team', mapping: path.join(root, 'Team') }
+    ]));
+    expect(result.diagnostics).toEqual([]);
+    expect(result.entries.map(e => e.folder)).toEqual(['Drafts', 'Team']);
+    expect(validateConfigText(config([{ folder: 'Team', mapping: root, readonly: true }])).entries)
+      .toEqual([{ folder: 'Team', mapping: root, absolutePath: root, readonly: true }]);
+  });
+
+  it('reports syntax errors at their position', () => {
+    // 1. A missing comma between two properties on the third line
+    // 2. Expect one error at the start of the second property
+    const result = validateConfigText('[\n  {\n    "folder": "Drafts"\n    "mapping": "/x"\n  }\n]');
+    expect(result.diagnostics).toHaveLength(1);
+    expect(formatDiagnostic(result.diagnostics[0])).toBe('Line 4, column 5: Comma or closing brace expected');
+  });
+
+  it('reports item problems on the offending values', () => {
+    // 1. A config with a bad folder name, a missing mapping, an unknown property, a duplicate
+    //    and a readonly flag that is not a boolean
+    // 2. Expect errors and warnings on the lines of the values
+    const text = config([
+      { folder: 'A/B', mapping: path.join(root, 'a') },
+      { folder: 'Notes' },
+      { folder: 'Drafts', mapping: path.join(root, 'Drafts'), shared: true },
+      { folder: 'Drafts', mapping: path.join(root, 'Other') },
+      { folder: 'Team', mapping: path.join(root, 'Team'), readonly: 'yes' }
+    ]);
+    const lines = text.split('\n');
+    const lineOf = (fragment: string, from = 0) => lines.findIndex((line, index) => index >= from && line.includes(fragment));
+
+    const { diagnostics, entries } = validateConfigText(text);
+    expect(diagnostics.map(d => [d.severity, d.line, d.message])).toEqual([
+      ['error', lineOf('"A/B"'), '"folder" is a single name and cannot contain "/" or "\\"'],
+      ['error', lineOf('"Notes"') - 1, 'Missing property "mapping" (the folder on disk)'],
+      ['warning', lineOf('"shared"'), 'Unknown property "shared"'],
+      ['error', lineOf('"Drafts"', lineOf('"shared"')), `Duplicate mount name "Drafts", already used for "${path.join(root, 'Drafts')}"`],
+      ['error', lineOf('"yes"'), '"readonly" must be true or false']
+    ]);
+    expect(diagnostics[0].column).toBe(lines[diagnostics[0].line].indexOf('"A/B"'));
+    expect(entries.map(e => e.folder)).toEqual(['Drafts']);
+  });
+
+  it('warns about mappings that overlap each other', () => {
+    const { diagnostics } = validateConfigText(config([
+      { folder: 'All', mapping: root },
+      { folder: 'Team', mapping: path.join(root, 'team') },
+      { folder: 'Again', mapping: root + path.sep }
+    ]));
+    expect(diagnostics.map(d => [d.severity, d.message])).toEqual([
+      ['warning', 'Mapping is inside the mapping of "All"; its snippets would appear under two mount points'],
+      ['warning', 'Mapping is the same folder as the mapping of "All"; its snippets would appear under two mount points']
+    ]);
+  });
+
+  it('expands home, environment and workspace placeholders in mappings', () => {
+    const variables: ConfigVariables = { workspaceFolder: path.join(root, 'repo'), env: { SHARE: path.join(root, 'share') }, homedir: path.join(root, 'home') };
+    expect(expandMapping('${workspaceFolder}/docs/snippets', variables).path).toBe(path.join(root, 'repo', 'docs', 'snippets'));
+    expect(expandMapping('${env:SHARE}/team', variables).path).toBe(path.join(root, 'share', 'team'));
+    expect(expandMapping('~/snippets', variables).path).toBe(path.join(root, 'home', 'snippets'));
+    expect(expandMapping('/a~b', variables).path).toBe(path.normalize('/a~b'));
+
+    const { entries, diagnostics } = validateConfigText(config([
+      { folder: 'Repo', mapping: '${workspaceFolder}/docs/snippets' }
+    ]), variables);
+    expect(diagnostics).toEqual([]);
+    expect(entries[0]).toEqual({ folder: 'Repo', mapping: '${workspaceFolder}/docs/snippets', absolutePath: path.join(root, 'repo', 'docs', 'snippets') });
+  });
+
+  it('skips mounts whose placeholders have no value and rejects unknown placeholders', () => {
+    // 1. No workspace open, an unset variable and a misspelt placeholder
+    // 2. Expect warnings for the first two (config stays valid) and an error for the last
+    const { entries, diagnostics } = validateConfigText(config([
+      { folder: 'Drafts', mapping: path.join(root, 'Drafts') },
+      { folder: 'Repo', mapping: '${workspaceFolder}/snippets' },
+      { folder: 'Share', mapping: '${env:SNIPPETOR_SHARE}' },
+      { folder: 'Typo', mapping: '${workspaceRoot}/snippets' }
+    ]), { env: {}, homedir: root });
+    expect(diagnostics.map(d => [d.severity, d.message])).toEqual([
+      ['warning', '${workspaceFolder} needs an open workspace folder; mount point "Repo" is not available'],
+      ['warning', 'Environment variable "SNIPPETOR_SHARE" is not set; mount point "Share" is not available'],
+      ['error', 'Unknown placeholder ${workspaceRoot}; use ${workspaceFolder} or ${env:NAME}']
+    ]);
+    expect(entries.map(e => e.folder)).toEqual(['Drafts']);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { buildSnippetDiagram, noteSummary } from '../SnippetDiagram';
+import { parseSnippetContent } from '../SnippetFileReader';
+
+const STEPS = [
+  { participant: 'src/api.ts', label: 'Request comes in' },
+  { participant: 'AuthService.login (auth.ts)', label: 'Check token; refresh' },
+  { participant: 'src/api.ts', label: 'Respond "ok"' }
+];
+
+describe('SnippetDiagram', () => {
+  it('summarizes the first line of a note', () => {
+    expect(noteSummary('\n## Entry point\nmore text')).toBe('Entry point');
+    expect(noteSummary('- **bold** `code`')).toBe('bold code');
+    expect(noteSummary('abcdefghij', 6)).toBe('abcde…');
+    expect(noteSummary('')).toBe('');
+  });
+
+  it('builds a sequence diagram with one arrow per transition', () => {
+    // 1. Build a sequence diagram for three steps over two participants
+    // 2. Expect escaped labels and a note for the first step
+    expect(buildSnippetDiagram('sequence', STEPS)).toBe([
+      'sequenceDiagram',
+      '  participant P1 as src/api.ts',
+      '  participant P2 as AuthService.login (auth.ts)',
+      '  Note over P1: 1. Request comes in',
+      '  P1->>P2: 2. Check token#59; refresh',
+      '  P2->>P1: 3. Respond #quot;ok#quot;',
+      ''
+    ].join('\n'));
+  });
+
+  it('builds a flowchart with labelled edges', () => {
+    expect(buildSnippetDiagram('flowchart', STEPS)).toBe([
+      'flowchart TD',
+      '  P1["src/api.ts"]',
+      '  P2["AuthService.login (auth.ts)"]',
+      '  P1 -->|"2. Check token#59; refresh"| P2',
+      '  P2 -->|"3. Respond #quot;ok#quot;"| P1',
+      ''
+    ].join('\n'));
+  });
+
+  it('reads the optional diagram field of a snippet file', () => {
+    expect(parseSnippetContent('{"title":"t","snippets":[],"diagram":"flowchart TD\\n"}').diagram).toBe('flowchart TD\n');
+    expect(parseSnippetContent('{"title":"t","snippets":[]}').diagram).toBeUndefined();
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+vi.mock('vscode', () => {
+  // Records how the hover text is built: appendText escapes, appendMarkdown does not
+  class MarkdownString {
+    public parts: { kind: 'text' | 'markdown'; value: string }[] = [];
+    public isTrusted: boolean | { enabledCommands: string[] } | undefined;
+    appendText(value: string) {
+      this.parts.push({ kind: 'text', value });
+      return this;
+    }
+    appendMarkdown(value: string) {
+      this.parts.push({ kind: 'markdown', value });
+      return this;
+    }
+    get value(): string {
+      return this.parts.map(p => p.value).join('');
+    }
+  }
+  class Hover {
+    constructor(public contents: MarkdownString) {}
+  }
+  return {
+    MarkdownString,
+    Hover,
+    ThemeColor: class {},
+    EventEmitter: class {
+      event = vi.fn();
+      fire = vi.fn();
+      dispose = vi.fn();
+    },
+    OverviewRulerLane: { Left: 1 },
+    window: { createTextEditorDecorationType: vi.fn().mockReturnValue({ dispose: vi.fn() }) },
+    workspace: {
+      getWorkspaceFolder: vi.fn().mockReturnValue({ uri: { fsPath: '/workspace' } }),
+      asRelativePath: (uri: { path: string }) => uri.path
+    }
+  };
+});
+
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { SnippetIndex } from '../SnippetIndex';
+import { SnippetEditorAnnotations } from '../SnippetEditorAnnotations';
+
+let tmpDir: string;
+let annotations: SnippetEditorAnnotations;
+
+const document = { uri: { scheme: 'file', path: 'src/auth.ts' }, lineCount: 200 } as any;
+
+function hoverAt(line: number): any {
+  // editor positions are 0-based
+  return annotations.provideHover(document, { line: line - 1, character: 0 } as any);
+}
+
+beforeEach(() => {
+  // 1. Index two snippets whose items overlap on src/auth.ts
+  // 2. Create the annotations over that index
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-annotations-'));
+  const wrapper = new SnippetorFilesystemsWrapper(tmpDir);
+  wrapper.writeFile('/Drafts/auth.snippet', JSON.stringify({ title: 'Auth [flow](command:workbench.action.quit)', snippets: [
+    { uid: 'a1', text: 'login **here**', filePath: 'src/auth.ts', line: 'auth.ts:120' },
+    { uid: 'a2', text: '', filePath: 'src/auth.ts', line: 'auth.ts:130' }
+  ] }));
+  wrapper.writeFile('/Drafts/token.snippet', JSON.stringify({ title: 'Token refresh', snippets: [
+    { uid: 't1', text: 'refresh', filePath: 'src/auth.ts', line: 'auth.ts:118-125' }
+  ] }));
+  const index = new SnippetIndex(wrapper);
+  index.rebuild();
+  annotations = new SnippetEditorAnnotations({ asAbsolutePath: (p: string) => p } as any, index, vi.fn());
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('SnippetEditorAnnotations', () => {
+  it('shows the notes of every item covering the hovered line', () => {
+    // 1. Hover a line covered by items of both snippets
+    // 2. Expect both titles, both notes and one link per item, separated by a rule
+    const markdown = hoverAt(120).contents;
+    expect(markdown.value).toContain('Token refresh');
+    expect(markdown.value).toContain('refresh');
+    expect(markdown.value).toContain('login **here**');
+    expect(markdown.value).toContain('[go to step 1 of 2]');
+    expect(markdown.value).toContain('[go to step 1 of 1]');
+    expect(markdown.value.split('\n\n---\n\n')).toHaveLength(2);
+
+    // 3. An item without a note says so
+    expect(hoverAt(130).contents.value).toContain('_No note_');
+  });
+
+  it('shows no hover outside the referenced lines', () => {
+    expect(hoverAt(117)).toBeUndefined();
+    expect(hoverAt(126)).toBeUndefined();
+  });
+
+  it('trusts only the open command and passes it the hovered item', () => {
+    // 1. Hover the line of a single item
+    // 2. Expect command links limited to the open command
+    // 3. Expect the link argument to be that item
+    const markdown = hoverAt(130).contents;
+    expect(markdown.isTrusted).toEqual({ enabledCommands: [SnippetEditorAnnotations.openEntriesCommand] });
+
+    const markdownParts = markdown.parts.filter((p: any) => p.kind === 'markdown').map((p: any) => p.value).join('');
+    const link = /\(command:([^?]+)\?([^)]+)\)/.exec(markdownParts)!;
+    expect(link[1]).toBe(SnippetEditorAnnotations.openEntriesCommand);
+    const [[entry]] = JSON.parse(decodeURIComponent(link[2]));
+    expect(entry).toMatchObject({ snippetPath: '/Drafts/auth.snippet', uid: 'a2', index: 1, count: 2 });
+  });
+
+  it('adds snippet titles as plain text', () => {
+    // 1. Hover an item of a snippet whose title looks like a command link
+    // 2. Expect the title escaped (appendText), never added as markdown
+    const markdown = hoverAt(130).contents;
+    const title = 'Auth [flow](command:workbench.action.quit)';
+    expect(markdown.parts).toContainEqual({ kind: 'text', value: title });
+    expect(markdown.parts.filter((p: any) => p.kind === 'markdown' && p.value.includes('command:workbench')))
+      .toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { SnippetFolderWatcher, WATCH_DEBOUNCE_MS, collapseWatchEvents } from '../SnippetFolderWatcher';
+
+describe('SnippetFolderWatcher', () => {
+  let tmpDir: string;
+  let wrapper: SnippetorFilesystemsWrapper;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-watch-'));
+    wrapper = new SnippetorFilesystemsWrapper(tmpDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('reports the topmost added folder and changed snippets', () => {
+    // 1. Create a folder with a snippet and change an existing snippet
+    // 2. Expect one addition for the folder and one change; temp files that came and went are ignored
+    wrapper.mkdir('/Drafts/new', true);
+    wrapper.writeFile('/Drafts/new/a.snippet', '{}');
+    wrapper.writeFile('/Drafts/old.snippet', '{}');
+    expect(collapseWatchEvents([
+      { kind: 'created', path: '/Drafts/new' },
+      { kind: 'created', path: '/Drafts/new/a.snippet' },
+      { kind: 'changed', path: '/Drafts/old.snippet' },
+      { kind: 'changed', path: '/Drafts/old.snippet' },
+      { kind: 'created', path: '/Drafts/old.snippet.tmp' },
+      { kind: 'deleted', path: '/Drafts/old.snippet.tmp' }
+    ], wrapper)).toEqual([
+      { type: 'added', path: '/Drafts/new', isFolder: true },
+      { type: 'changed', path: '/Drafts/old.snippet' }
+    ]);
+  });
+
+  it('pairs a removal and an addition in the same folder as a rename', () => {
+    wrapper.writeFile('/Drafts/b.snippet', '{}');
+    expect(collapseWatchEvents([
+      { kind: 'deleted', path: '/Drafts/a.snippet' },
+      { kind: 'created', path: '/Drafts/b.snippet' }
+    ], wrapper)).toEqual([{ type: 'renamed', oldPath: '/Drafts/a.snippet', newPath: '/Drafts/b.snippet', isFolder: false }]);
+  });
+
+  it('reports unrelated removals and additions separately', () => {
+    // 1. Remove a folder with content and add a file elsewhere under another name
+    // 2. Expect the folder removal (not its children) and the addition
+    wrapper.mkdir('/LocalSpace/x', true);
+    wrapper.writeFile('/LocalSpace/x/c.snippet', '{}');
+    expect(collapseWatchEvents([
+      { kind: 'deleted', path: '/Drafts/gone' },
+      { kind: 'deleted', path: '/Drafts/gone/a.snippet' },
+      { kind: 'created', path: '/LocalSpace/x/c.snippet' }
+    ], wrapper)).toEqual([
+      { type: 'removed', path: '/Drafts/gone', isFolder: true },
+      { type: 'added', path: '/LocalSpace/x/c.snippet', isFolder: false }
+    ]);
+  });
+
+  it('batches events of the watched mount points', async () => {
+    // 1. Start watching with a provider that records the listeners
+    // 2. Send events from inside and outside the mount points
+    // 3. Expect a single batch with the mapped change
+    const listeners = new Map<string, (kind: any, absolutePath: string) => void>();
+    const provider: any = {
+      watchFolder: (absolutePath: string, listener: any) => {
+        listeners.set(absolutePath, listener);
+        return { dispose: () => listeners.delete(absolutePath) };
+      }
+    };
+    const watcher = new SnippetFolderWatcher(wrapper, provider);
+    const batches: any[] = [];
+    watcher.onDidChange(changes => batches.push(changes));
+    watcher.start();
+    expect(Array.from(listeners.keys())).toEqual(wrapper.getFolders().map(f => f.absolutePath));
+
+    wrapper.writeFile('/Drafts/a.snippet', '{}');
+    const drafts = listeners.get(wrapper.resolve('/Drafts'))!;
+    drafts('created', wrapper.resolve('/Drafts/a.snippet'));
+    drafts('changed', path.join(tmpDir, 'config.json'));
+    drafts('changed', wrapper.resolve('/Drafts/.git/index'));
+    await new Promise(resolve => setTimeout(resolve, WATCH_DEBOUNCE_MS + 50));
+    expect(batches).toEqual([[{ type: 'added', path: '/Drafts/a.snippet', isFolder: false }]]);
+
+    watcher.dispose();
+    expect(listeners.size).toBe(0);
+  });
+});
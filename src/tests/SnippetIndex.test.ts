@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { SnippetIndex } from '../SnippetIndex';
+
+let tmpDir: string;
+let wrapper: SnippetorFilesystemsWrapper;
+
+function writeSnippet(mappedPath: string, title: string, snippets: any[]) {
+  wrapper.writeFile(mappedPath, JSON.stringify({ title, description: '', snippets }));
+}
+
+beforeEach(() => {
+  // 1. Create isolated temp directory and wrapper
+  // 2. Write two snippets referencing the same source file
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-index-'));
+  wrapper = new SnippetorFilesystemsWrapper(tmpDir);
+  wrapper.mkdir('/Drafts/sub');
+  writeSnippet('/Drafts/auth.snippet', 'Auth flow', [
+    { uid: 'a1', text: 'login', filePath: 'src/auth.ts', line: 'auth.ts:120' },
+    { uid: 'a2', text: 'no location', filePath: '', line: '' }
+  ]);
+  writeSnippet('/Drafts/sub/token.snippet', 'Token refresh', [
+    { uid: 't1', text: 'refresh', filePath: 'src\\auth.ts', line: 'auth.ts:118-125' },
+    { uid: 't2', text: 'store', filePath: 'src/store.ts', line: 'store.ts:3' }
+  ]);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('SnippetIndex', () => {
+  it('indexes items of all mounts by workspace-relative file', () => {
+    // 1. Rebuild the index
+    // 2. Expect entries grouped by normalized file path and ordered by line
+    const index = new SnippetIndex(wrapper);
+    index.rebuild();
+
+    const entries = index.getEntries('src/auth.ts');
+    expect(entries.map(e => e.uid)).toEqual(['t1', 'a1']);
+    expect(entries[1]).toMatchObject({
+      snippetPath: '/Drafts/auth.snippet',
+      snippetTitle: 'Auth flow',
+      index: 0,
+      count: 2,
+      range: { startLine: 120, endLine: 121 }
+    });
+    expect(index.getEntriesAtLine('src/auth.ts', 120).map(e => e.uid)).toEqual(['t1', 'a1']);
+    expect(index.getEntriesAtLine('src/auth.ts', 119).map(e => e.uid)).toEqual(['t1']);
+    expect(index.getIndexedFiles().sort()).toEqual(['src/auth.ts', 'src/store.ts']);
+  });
+
+  it('updates and removes single snippets and notifies listeners', () => {
+    // 1. Rebuild, then rewrite one snippet and update it
+    // 2. Remove a folder and expect its snippets gone
+    const index = new SnippetIndex(wrapper);
+    index.rebuild();
+    const listener = vi.fn();
+    index.onDidChange(listener);
+
+    writeSnippet('/Drafts/auth.snippet', 'Auth flow', [
+      { uid: 'a1', text: 'login', filePath: 'src/login.ts', line: 'login.ts:5' }
+    ]);
+    index.updateSnippet('Drafts/auth.snippet');
+    expect(index.getEntries('src/auth.ts').map(e => e.uid)).toEqual(['t1']);
+    expect(index.getEntries('src/login.ts').map(e => e.uid)).toEqual(['a1']);
+
+    index.removeSnippet('/Drafts/sub');
+    expect(index.getEntries('src/auth.ts')).toEqual([]);
+    expect(index.getEntries('src/store.ts')).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
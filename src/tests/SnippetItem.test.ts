@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatSnippetLine,
+  parseLegacyLine,
+  getSnippetItemRange,
+  normalizeSnippetItem,
+  reorderSnippetItems
+} from '../SnippetItem';
+
+describe('formatSnippetLine', () => {
+  it('uses a single line number for single-line ranges', () => {
+    // 1. Format a range that starts and ends on the same line
+    // 2. Expect the legacy "name:line" label
+    expect(formatSnippetLine('a.ts', { startLine: 42, startColumn: 2, endLine: 42, endColumn: 9 }))
+      .toBe('a.ts:42');
+  });
+
+  it('uses a start-end label for multi-line ranges', () => {
+    // 1. Format a range spanning several lines
+    // 2. Expect "name:start-end"
+    expect(formatSnippetLine('a.ts', { startLine: 10, startColumn: 0, endLine: 20, endColumn: 1 }))
+      .toBe('a.ts:10-20');
+  });
+
+  it('leaves out a last line that the range does not reach into', () => {
+    // 1. Format whole-line ranges that end at column 0 of the next line
+    // 2. Expect only the covered lines in the label
+    expect(formatSnippetLine('a.ts', { startLine: 42, startColumn: 0, endLine: 43, endColumn: 0 }))
+      .toBe('a.ts:42');
+    expect(formatSnippetLine('a.ts', { startLine: 5, startColumn: 0, endLine: 8, endColumn: 0 }))
+      .toBe('a.ts:5-7');
+  });
+});
+
+describe('parseLegacyLine', () => {
+  it('parses a legacy "file:line" label', () => {
+    // 1. Parse the label written by older versions
+    // 2. Expect the whole line, up to the start of the next line
+    expect(parseLegacyLine('name.ts:42')).toEqual(
+      { startLine: 42, startColumn: 0, endLine: 43, endColumn: 0 });
+  });
+
+  it('parses a "file:start-end" label', () => {
+    expect(parseLegacyLine('name.ts:5-7')).toEqual(
+      { startLine: 5, startColumn: 0, endLine: 8, endColumn: 0 });
+    expect(formatSnippetLine('name.ts', parseLegacyLine('name.ts:5-7')!)).toBe('name.ts:5-7');
+  });
+
+  it('returns undefined when there is no line number', () => {
+    // 1. Parse labels without a usable line
+    // 2. Expect undefined
+    expect(parseLegacyLine('')).toBeUndefined();
+    expect(parseLegacyLine('name.ts')).toBeUndefined();
+    expect(parseLegacyLine('name.ts:0')).toBeUndefined();
+  });
+});
+
+describe('getSnippetItemRange / normalizeSnippetItem', () => {
+  it('prefers the structured range over the legacy label', () => {
+    // 1. Build an item whose label and range disagree
+    // 2. Expect the structured range to win
+    const range = { startLine: 3, startColumn: 4, endLine: 8, endColumn: 1 };
+    expect(getSnippetItemRange({ line: 'a.ts:1', range })).toEqual(range);
+  });
+
+  it('derives the range of legacy items on load', () => {
+    // 1. Normalize an item from an old file (no range property)
+    // 2. Expect the range to be derived and the original fields kept
+    const item = normalizeSnippetItem({ uid: 'uid-1', text: 'note', filePath: 'src/a.ts', line: 'a.ts:12' });
+    expect(item.uid).toBe('uid-1');
+    expect(item.line).toBe('a.ts:12');
+    expect(item.range).toEqual({ startLine: 12, startColumn: 0, endLine: 13, endColumn: 0 });
+  });
+
+  it('fills in missing fields', () => {
+    // 1. Normalize an item with missing fields
+    // 2. Expect a generated uid, empty strings and no range
+    const item = normalizeSnippetItem({});
+    expect(item.uid).toMatch(/^uid-/);
+    expect(item.text).toBe('');
+    expect(item.filePath).toBe('');
+    expect(item.range).toBeUndefined();
+  });
+});
+
+describe('reorderSnippetItems', () => {
+  it('orders items by uid, keeping items the order does not mention', () => {
+    // 1. Reorder three items with an unknown uid and one uid missing
+    // 2. Expect the listed items first and the missing one appended
+    const items = ['a', 'b', 'c'].map(uid => normalizeSnippetItem({ uid }));
+    expect(reorderSnippetItems(items, ['c', 'x', 'a']).map(item => item.uid)).toEqual(['c', 'a', 'b']);
+  });
+});
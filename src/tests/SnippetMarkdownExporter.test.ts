@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { SnippetMarkdownExporter, languageForFile } from '../SnippetMarkdownExporter';
+
+let tmpDir: string;
+let wrapper: SnippetorFilesystemsWrapper;
+let workspace: Map<string, string[]>;
+
+function makeExporter(): SnippetMarkdownExporter {
+  return new SnippetMarkdownExporter(wrapper, async (filePath) => workspace.get(filePath));
+}
+
+beforeEach(() => {
+  // 1. Create isolated temp directory and wrapper
+  // 2. Create an in-memory workspace with a single source file
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-md-'));
+  wrapper = new SnippetorFilesystemsWrapper(tmpDir);
+  workspace = new Map([['src/auth.py', ['import os', '', 'def login():', '    return token', '']]]);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('SnippetMarkdownExporter', () => {
+  it('picks the language tag from the file extension', () => {
+    expect(languageForFile('src/a.ts')).toBe('typescript');
+    expect(languageForFile('scripts\\run.PY')).toBe('python');
+    expect(languageForFile('Makefile')).toBe('');
+  });
+
+  it('renders title, description, notes and code excerpts', async () => {
+    // 1. Write a snippet with a range item, a missing file and no location
+    // 2. Expect one section per item with the referenced lines fenced
+    wrapper.writeFile('/Drafts/auth.snippet', JSON.stringify({
+      title: 'Auth flow',
+      description: 'How login works',
+      snippets: [
+        { uid: 'u1', text: 'Entry point', filePath: 'src/auth.py', line: 'auth.py:3-5',
+          range: { startLine: 3, startColumn: 0, endLine: 5, endColumn: 0 } },
+        { uid: 'u2', text: '', filePath: 'src/gone.py', line: 'gone.py:1' },
+        { uid: 'u3', text: 'General remark', filePath: '', line: '' }
+      ]
+    }));
+
+    const document = await makeExporter().exportSnippet('/Drafts/auth.snippet');
+    expect(document.fileName).toBe('auth.md');
+    expect(document.content).toBe([
+      '# Auth flow', '',
+      'How login works', '',
+      '## 1. `src/auth.py:3-4`', '',
+      'Entry point', '',
+      '```python', 'def login():', '    return token', '```', '',
+      '## 2. `src/gone.py:1`', '',
+      '> File not found: `src/gone.py`', '',
+      '## 3. `No location`', '',
+      'General remark', ''
+    ].join('\n'));
+  });
+
+  it('exports a folder as one document per snippet plus an index', async () => {
+    // 1. Write snippets in a folder and a sub-folder, and a broken one
+    // 2. Expect documents keeping the layout, an index and one error
+    wrapper.mkdir('/Drafts/sub');
+    wrapper.writeFile('/Drafts/a.snippet', JSON.stringify({ title: 'A', description: 'First\nmore', snippets: [] }));
+    wrapper.writeFile('/Drafts/sub/b c.snippet', JSON.stringify({ title: '', description: '', snippets: [] }));
+    wrapper.writeFile('/Drafts/broken.snippet', '{');
+
+    const { documents, errors } = await makeExporter().exportFolder('Drafts/');
+    // documents follow the tree order: folders first
+    expect(documents.map(d => d.fileName)).toEqual(['sub/b c.md', 'a.md', 'index.md']);
+    expect(documents[2].content).toBe('# Drafts\n\n- [b c.snippet](sub/b%20c.md)\n- [A](a.md) — First\n');
+    expect(errors.length).toBe(1);
+    expect(errors[0]).toContain('/Drafts/broken.snippet');
+  });
+
+  it('keeps a root-level index snippet next to the generated index', async () => {
+    // 1. Write index.snippet and index-1.snippet, with brackets in a title
+    // 2. Expect index.snippet exported under a free name and escaped link text
+    wrapper.writeFile('/Drafts/index.snippet', JSON.stringify({ title: 'Start [here]', description: '', snippets: [] }));
+    wrapper.writeFile('/Drafts/index-1.snippet', JSON.stringify({ title: 'One', description: '', snippets: [] }));
+
+    const { documents } = await makeExporter().exportFolder('/Drafts');
+    expect(documents.map(d => d.fileName)).toEqual(['index-1.md', 'index-2.md', 'index.md']);
+    expect(documents[2].content).toBe('# Drafts\n\n- [One](index-1.md)\n- [Start \\[here\\]](index-2.md)\n');
+  });
+});
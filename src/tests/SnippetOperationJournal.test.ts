@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import {
+  CopyCommandHandler,
+  MoveCommandHandler,
+  MoveCopyCommandParams,
+  RemoveCommandHandler
+} from '../SnippetExplorerCommandHandler';
+import { ISnippetorApiProvider } from '../ISnippetorApiProvider';
+import { SnippetExplorerHandler, SnippetExplorerListener } from '../SnippetExplorerHandler';
+import { SnippetOperationJournal } from '../SnippetOperationJournal';
+
+let tmpDir: string;
+let wrapper: SnippetorFilesystemsWrapper;
+let journal: SnippetOperationJournal;
+let mockApi: ISnippetorApiProvider;
+let mockListener: SnippetExplorerListener;
+let sendCallback: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  // 1. Create isolated temp directory with a wrapper and a journal on it
+  // 2. Create fresh mocks for API, listener, and sendCallback
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-journal-'));
+  wrapper = new SnippetorFilesystemsWrapper(tmpDir);
+  journal = new SnippetOperationJournal(wrapper);
+  sendCallback = vi.fn();
+  mockApi = {
+    showInformationMessage: vi.fn().mockResolvedValue(undefined),
+    showErrorMessage: vi.fn().mockResolvedValue(undefined),
+    showWarningMessage: vi.fn().mockResolvedValue('Yes'),
+    postMessage: vi.fn(),
+    withProgress: vi.fn().mockImplementation((title: string, task: (progress: any) => Promise<any>) =>
+      task({ report: vi.fn(), isCancelled: () => false })),
+  } as unknown as ISnippetorApiProvider;
+  mockListener = {
+    onNodeRenamed: vi.fn(),
+    onNodeMoved: vi.fn(),
+    onNodeRemoved: vi.fn(),
+    onNodeOverwrite: vi.fn(),
+    onNodeActivate: vi.fn(),
+  };
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function moveCopyParams(sourcePath: string, targetPath: string, overwrite = false): MoveCopyCommandParams {
+  return { sourcePath, targetPath, isFolder: false, overwrite, callbackId: 'cb', sendCallback };
+}
+
+describe('SnippetOperationJournal', () => {
+  it('undoes and redoes a move that overwrote a file', async () => {
+    // 1. Move a snippet onto an existing one in another folder
+    // 2. Undo: the moved file is back and the overwritten one restored
+    // 3. Redo: the move and the overwrite happen again
+    wrapper.mkdir('/Drafts/a', true);
+    wrapper.mkdir('/Drafts/b', true);
+    wrapper.writeFile('/Drafts/a/x.snippet', 'moved');
+    wrapper.writeFile('/Drafts/b/x.snippet', 'replaced');
+    await new MoveCommandHandler(wrapper, mockListener, sendCallback, mockApi, journal)
+      .execute(moveCopyParams('/Drafts/a/x.snippet', '/Drafts/b', true));
+    expect(wrapper.readFile('/Drafts/b/x.snippet')).toBe('moved');
+    expect(journal.getUndoLabel()).toBe('Move "x.snippet"');
+
+    const undone = await journal.undo();
+    expect(wrapper.readFile('/Drafts/a/x.snippet')).toBe('moved');
+    expect(wrapper.readFile('/Drafts/b/x.snippet')).toBe('replaced');
+    expect(undone).toEqual([
+      { type: 'renamed', oldPath: '/Drafts/b/x.snippet', newPath: '/Drafts/a/x.snippet', isFolder: false },
+      { type: 'added', path: '/Drafts/b/x.snippet', isFolder: false }
+    ]);
+    expect(journal.getUndoLabel()).toBeUndefined();
+    expect(journal.getRedoLabel()).toBe('Move "x.snippet"');
+
+    await journal.redo();
+    expect(wrapper.exists('/Drafts/a/x.snippet')).toBe(false);
+    expect(wrapper.readFile('/Drafts/b/x.snippet')).toBe('moved');
+  });
+
+  it('restores a deleted folder from the trash', async () => {
+    // 1. Delete a folder with content (the user confirms)
+    // 2. Undo and expect the folder and its content back, and the trash empty
+    wrapper.mkdir('/Drafts/old/nested', true);
+    wrapper.writeFile('/Drafts/old/nested/s.snippet', 'content');
+    await new RemoveCommandHandler(wrapper, mockListener, sendCallback, mockApi, journal)
+      .execute({ fullPath: '/Drafts/old', name: 'old', isFolder: true, callbackId: 'cb', sendCallback });
+    expect(wrapper.exists('/Drafts/old')).toBe(false);
+    expect((await wrapper.promises.listTrash()).map(e => e.originalPath)).toEqual(['/Drafts/old']);
+
+    expect(await journal.undo()).toEqual([{ type: 'added', path: '/Drafts/old', isFolder: true }]);
+    expect(wrapper.readFile('/Drafts/old/nested/s.snippet')).toBe('content');
+    expect(await wrapper.promises.listTrash()).toEqual([]);
+  });
+
+  it('removes a copy on undo and drops the redo stack on a new operation', async () => {
+    // 1. Copy a snippet and undo the copy
+    // 2. Record another operation
+    // 3. Expect the copy to be gone and nothing left to redo
+    wrapper.mkdir('/Drafts/a', true);
+    wrapper.mkdir('/Drafts/b', true);
+    wrapper.writeFile('/Drafts/a/x.snippet', 'content');
+    await new CopyCommandHandler(wrapper, mockListener, sendCallback, mockApi, journal)
+      .execute(moveCopyParams('/Drafts/a/x.snippet', '/Drafts/b'));
+    expect(wrapper.exists('/Drafts/b/x.snippet')).toBe(true);
+
+    expect(await journal.undo()).toEqual([{ type: 'removed', path: '/Drafts/b/x.snippet', isFolder: false }]);
+    expect(wrapper.exists('/Drafts/b/x.snippet')).toBe(false);
+    expect(wrapper.exists('/Drafts/a/x.snippet')).toBe(true);
+
+    journal.record('Rename "x.snippet"', [{ type: 'rename', from: '/Drafts/a/x.snippet', to: '/Drafts/a/y.snippet', isFolder: false }]);
+    expect(journal.getRedoLabel()).toBeUndefined();
+  });
+
+  it('drops an operation that can no longer be undone', async () => {
+    // 1. Record a rename, then occupy the original name
+    // 2. Expect undo to fail without touching the files
+    wrapper.mkdir('/Drafts', true);
+    wrapper.writeFile('/Drafts/new.snippet', 'renamed');
+    journal.record('Rename "old.snippet"', [{ type: 'rename', from: '/Drafts/old.snippet', to: '/Drafts/new.snippet', isFolder: false }]);
+    wrapper.writeFile('/Drafts/old.snippet', 'someone else');
+
+    await expect(journal.undo()).rejects.toThrow('already exists');
+    expect(wrapper.readFile('/Drafts/new.snippet')).toBe('renamed');
+    expect(journal.getUndoLabel()).toBeUndefined();
+    expect(journal.getRedoLabel()).toBeUndefined();
+  });
+
+  it('refuses an explorer rename onto an existing sibling', async () => {
+    // 1. Rename a snippet to the name of its sibling from the explorer
+    // 2. Expect both files untouched and nothing recorded for undo
+    wrapper.mkdir('/Drafts', true);
+    wrapper.writeFile('/Drafts/a.snippet', 'a');
+    wrapper.writeFile('/Drafts/b.snippet', 'b');
+    const explorer = new SnippetExplorerHandler(wrapper);
+    explorer.setApiProvider({ ...mockApi, setFileDiagnostics: vi.fn() } as unknown as ISnippetorApiProvider);
+
+    await explorer.onDidReceiveMessage({ type: 'rename', oldPath: '/Drafts/a.snippet', newName: 'b.snippet', callbackId: 'cb' });
+
+    expect(wrapper.readFile('/Drafts/a.snippet')).toBe('a');
+    expect(wrapper.readFile('/Drafts/b.snippet')).toBe('b');
+    expect(mockApi.showErrorMessage).toHaveBeenCalledWith('Rename failed: "b.snippet" already exists');
+    expect(explorer.getJournal().getUndoLabel()).toBeUndefined();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { SNIPPET_SCHEMA_VERSION, SnippetSchemaError, upgradeSnippetJson, validateSnippetJson } from '../SnippetSchema';
+import { parseSnippetContent, serializeSnippetContent, upgradeSnippetFile } from '../SnippetFileReader';
+
+let tmpDir: string;
+let wrapper: SnippetorFilesystemsWrapper;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-schema-'));
+  wrapper = new SnippetorFilesystemsWrapper(tmpDir);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('SnippetSchema', () => {
+  it('migrates files without a version', () => {
+    // 1. Upgrade a version 1 file with a legacy line label and comma separated tags
+    // 2. Expect defaults, a derived range and the current version
+    const { json, fromVersion } = upgradeSnippetJson({
+      tags: 'auth, login',
+      snippets: [{ uid: 'u1', text: 'Entry', filePath: 'src/auth.ts', line: 'auth.ts:10-12' }]
+    });
+    expect(fromVersion).toBe(1);
+    expect(json).toEqual({
+      schemaVersion: SNIPPET_SCHEMA_VERSION,
+      title: '',
+      description: '',
+      tags: ['auth', ' login'],
+      snippets: [{
+        uid: 'u1', text: 'Entry', filePath: 'src/auth.ts', line: 'auth.ts:10-12',
+        range: { startLine: 10, startColumn: 0, endLine: 13, endColumn: 0 }
+      }]
+    });
+  });
+
+  it('reports every problem with its location', () => {
+    expect(validateSnippetJson({
+      schemaVersion: SNIPPET_SCHEMA_VERSION,
+      title: 'T',
+      description: 3,
+      tags: ['ok', 7],
+      snippets: [
+        { uid: 'u1', text: 'a', filePath: 5, line: '' },
+        'text',
+        { uid: 'u3', text: 'c', filePath: '', line: '', range: { startLine: 4, startColumn: 0, endLine: 2, endColumn: 0 } }
+      ]
+    })).toEqual([
+      'description: expected a string',
+      'tags[1]: expected a string',
+      'snippets[0].filePath: expected a string',
+      'snippets[1]: expected an object',
+      'snippets[2].range.endLine: expected an integer >= startLine'
+    ]);
+    expect(validateSnippetJson({ schemaVersion: SNIPPET_SCHEMA_VERSION, title: '', description: '' }))
+      .toEqual(['snippets: expected an array']);
+  });
+
+  it('rejects files of a newer version and invalid files on load', () => {
+    expect(() => parseSnippetContent(JSON.stringify({ schemaVersion: 99, title: '', description: '', snippets: [] })))
+      .toThrow('schemaVersion: 99 is newer than this extension supports');
+    expect(() => parseSnippetContent('{"title":"t","snippets":{}}')).toThrow(SnippetSchemaError);
+    expect(() => parseSnippetContent('[]')).toThrow('Invalid snippet file: expected a JSON object');
+  });
+
+  it('upgrades a file on disk once and keeps the old one as previous version', async () => {
+    // 1. Write a version 1 file and upgrade it
+    // 2. Expect the current layout, then nothing to do on a second run
+    // 3. The old content is the previous version
+    const old = JSON.stringify({ title: 'T', snippets: [{ uid: 'u1', text: 'x', filePath: 'a.ts', line: 'a.ts:3' }] });
+    wrapper.writeFile('/Drafts/a.snippet', old);
+
+    expect(upgradeSnippetFile(wrapper, '/Drafts/a.snippet')).toBe(true);
+    const upgraded = wrapper.readFile('/Drafts/a.snippet');
+    expect(JSON.parse(upgraded).schemaVersion).toBe(SNIPPET_SCHEMA_VERSION);
+    expect(upgraded).toBe(serializeSnippetContent(parseSnippetContent(old)));
+    expect(upgradeSnippetFile(wrapper, '/Drafts/a.snippet')).toBe(false);
+
+    await wrapper.promises.restoreBackup('/Drafts/a.snippet');
+    expect(wrapper.readFile('/Drafts/a.snippet')).toBe(old);
+  });
+});
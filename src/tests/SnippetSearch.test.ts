@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findHighlights,
+  makeExcerpt,
+  searchSnippetDocuments,
+  tokenizeQuery
+} from '../SnippetSearch';
+import { normalizeTags, parseSnippetContent } from '../SnippetFileReader';
+
+const DOCS = [
+  {
+    path: '/Drafts/auth.snippet', title: 'Auth flow', description: 'How users log in',
+    items: [
+      { uid: 'a1', text: 'Request enters the router', filePath: 'src/router.ts' },
+      { uid: 'a2', text: 'The token is refreshed here', filePath: 'src/auth/token.ts' }
+    ]
+  },
+  {
+    path: '/Shared/cache.snippet', title: 'Cache', description: 'Token cache internals',
+    items: [{ uid: 'c1', text: 'Eviction', filePath: 'src/cache.ts' }]
+  },
+  {
+    path: '/Shared/tokenizer.snippet', title: 'Tokenizer', description: '',
+    items: []
+  }
+];
+
+describe('SnippetSearch helpers', () => {
+  it('tokenizes and highlights case-insensitively', () => {
+    expect(tokenizeQuery('  Token  token ROUTER ')).toEqual(['token', 'router']);
+    expect(findHighlights('Token tokens', ['token', 'ens'])).toEqual([[0, 5], [6, 12]]);
+  });
+
+  it('builds a single-line excerpt around the first match', () => {
+    const text = 'a'.repeat(100) + '\nneedle\n' + 'b'.repeat(200);
+    const excerpt = makeExcerpt(text, ['needle'], 10);
+    expect(excerpt.startsWith('…')).toBe(true);
+    expect(excerpt.endsWith('…')).toBe(true);
+    expect(excerpt).toContain('a needle b');
+  });
+});
+
+describe('searchSnippetDocuments', () => {
+  it('ranks title matches above file path and description matches', () => {
+    // 1. Search a term found in a title, a file path and a description
+    // 2. Expect the title match first, then the referenced file, then the description
+    const results = searchSnippetDocuments(DOCS, 'token');
+    expect(results.map(r => r.path)).toEqual(['/Shared/tokenizer.snippet', '/Drafts/auth.snippet', '/Shared/cache.snippet']);
+    expect(results[0].titleHighlights).toEqual([[0, 5]]);
+  });
+
+  it('requires all terms and points at the best matching item', () => {
+    // 1. Search terms spread over a note and a file path of the same item
+    // 2. Expect the item and highlighted excerpt
+    const results = searchSnippetDocuments(DOCS, 'refreshed auth/token');
+    expect(results.length).toBe(1);
+    expect(results[0]).toMatchObject({
+      path: '/Drafts/auth.snippet',
+      itemUid: 'a2',
+      itemIndex: 1,
+      field: 'note',
+      excerpt: 'The token is refreshed here',
+      highlights: [[13, 22]]
+    });
+    expect(searchSnippetDocuments(DOCS, 'router eviction')).toEqual([]);
+  });
+
+  it('returns nothing for an empty query', () => {
+    expect(searchSnippetDocuments(DOCS, '   ')).toEqual([]);
+  });
+});
+
+describe('snippet tags', () => {
+  it('reads tags from the snippet head and normalizes typed lists', () => {
+    expect(parseSnippetContent('{"title":"t","tags":[" security ","", 3, "security", "auth"],"snippets":[]}').tags)
+      .toEqual(['security', 'auth']);
+    expect(parseSnippetContent('{"title":"t","snippets":[]}').tags).toBeUndefined();
+    expect(normalizeTags('onboarding, payment-flow ,, onboarding')).toEqual(['onboarding', 'payment-flow']);
+  });
+
+  it('finds snippets by tag', () => {
+    // 1. Tag the cache snippet
+    // 2. Expect a tag match to rank above description matches and show the tags
+    const docs = DOCS.map(doc => doc.path === '/Shared/cache.snippet' ? { ...doc, tags: ['performance'] } : doc);
+    const results = searchSnippetDocuments(docs, 'perf');
+    expect(results.map(r => [r.path, r.field, r.excerpt])).toEqual([['/Shared/cache.snippet', 'tag', 'performance']]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { SEARCH_INDEX_FILE, SnippetSearchIndex, indexWords } from '../SnippetSearchIndex';
+
+function snippetJson(title: string, note: string, uid: string = 'u1'): string {
+  return JSON.stringify({
+    title, description: '', snippets: [{ uid, text: note, filePath: 'src/a.ts', line: 'src/a.ts:1' }]
+  });
+}
+
+describe('SnippetSearchIndex', () => {
+  let tmpDir: string;
+  let wrapper: SnippetorFilesystemsWrapper;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-search-index-'));
+    wrapper = new SnippetorFilesystemsWrapper(tmpDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('splits text into lower-cased words', () => {
+    expect(indexWords('src/Auth-Token.ts, Größe 2')).toEqual(['src', 'auth', 'token', 'ts', 'größe', '2']);
+  });
+
+  it('searches snippet files of all mounts and skips broken ones', async () => {
+    // 1. Write a snippet and a broken file
+    // 2. Expect the readable snippet to be found by a note term and a word fragment
+    wrapper.writeFile('/Drafts/a.snippet', snippetJson('A', 'Uses the cache'));
+    wrapper.writeFile('/Drafts/broken.snippet', '{');
+    const index = new SnippetSearchIndex(wrapper);
+    expect((await index.search('cache')).map(r => [r.path, r.itemUid])).toEqual([['/Drafts/a.snippet', 'u1']]);
+    expect((await index.search('ach')).map(r => r.path)).toEqual(['/Drafts/a.snippet']);
+    expect(await index.search('cache missing')).toEqual([]);
+  });
+
+  it('finds word fragments as the indexed words change', async () => {
+    // 1. Index snippets sharing fragments at the start, middle and end of words
+    // 2. Expect every word containing the fragment, and none after its snippet is gone
+    wrapper.writeFile('/Drafts/a.snippet', snippetJson('Tokenizer', 'splits input'));
+    wrapper.writeFile('/Drafts/b.snippet', snippetJson('Broken', 'retoken later'));
+    const index = new SnippetSearchIndex(wrapper);
+    expect((await index.search('oken')).map(r => r.path).sort()).toEqual(['/Drafts/a.snippet', '/Drafts/b.snippet']);
+    expect((await index.search('izer')).map(r => r.path)).toEqual(['/Drafts/a.snippet']);
+
+    wrapper.remove('/Drafts/a.snippet');
+    index.onNodeRemoved('/Drafts/a.snippet', false);
+    expect(await index.search('izer')).toEqual([]);
+    wrapper.writeFile('/Drafts/c.snippet', snippetJson('C', 'organizer'));
+    await index.updateSnippet('/Drafts/c.snippet');
+    expect((await index.search('izer')).map(r => r.path)).toEqual(['/Drafts/c.snippet']);
+  });
+
+  it('persists the index next to config.json and reuses it', async () => {
+    // 1. Build and flush the index
+    // 2. Expect the storage file, and a new instance to find the snippet without reading it
+    wrapper.writeFile('/Drafts/a.snippet', snippetJson('Auth flow', 'Token refresh'));
+    const first = new SnippetSearchIndex(wrapper);
+    await first.search('token');
+    first.flush();
+    expect(wrapper.readStorageFile(SEARCH_INDEX_FILE)).toContain('/Drafts/a.snippet');
+
+    const second = new SnippetSearchIndex(wrapper);
+    const readFile = wrapper.promises.readFile.bind(wrapper.promises);
+    let reads = 0;
+    wrapper.promises.readFile = ((p: string, enc?: any) => { reads++; return readFile(p, enc); }) as any;
+    expect((await second.search('refresh')).map(r => r.path)).toEqual(['/Drafts/a.snippet']);
+    expect(reads).toBe(0);
+  });
+
+  it('follows renames, moves and removals from the explorer', async () => {
+    // 1. Index two snippets in a folder
+    // 2. Rename the folder, move one snippet, remove the other
+    wrapper.mkdir('/Drafts/f', true);
+    wrapper.writeFile('/Drafts/f/a.snippet', snippetJson('Alpha', 'first note'));
+    wrapper.writeFile('/Drafts/f/b.snippet', snippetJson('Beta', 'second note'));
+    const index = new SnippetSearchIndex(wrapper);
+    await index.search('note');
+
+    wrapper.rename('/Drafts/f', '/Drafts/g');
+    index.onNodeRenamed('Drafts/f', 'Drafts/g', true);
+    expect((await index.search('note')).map(r => r.path).sort()).toEqual(['/Drafts/g/a.snippet', '/Drafts/g/b.snippet']);
+
+    wrapper.rename('/Drafts/g/a.snippet', '/Drafts/a.snippet');
+    index.onNodeMoved('/Drafts/g/a.snippet', '/Drafts/a.snippet', false);
+    wrapper.remove('/Drafts/g/b.snippet');
+    index.onNodeRemoved('/Drafts/g/b.snippet', false);
+    expect((await index.search('note')).map(r => r.path)).toEqual(['/Drafts/a.snippet']);
+  });
+
+  it('re-reads snippets changed outside the extension when their mtime changes', async () => {
+    // 1. Index a snippet, then change it on disk and age the mtime check
+    // 2. Expect the forced check to pick up the new content
+    wrapper.writeFile('/Drafts/a.snippet', snippetJson('A', 'old words'));
+    const index = new SnippetSearchIndex(wrapper);
+    expect((await index.search('old')).length).toBe(1);
+
+    wrapper.writeFile('/Drafts/a.snippet', snippetJson('A', 'brand new text'));
+    fs.utimesSync(wrapper.resolve('/Drafts/a.snippet'), new Date(), new Date(Date.now() + 5000));
+    expect(await index.search('brand')).toEqual([]);      // checked at most every few seconds
+    await index.ensureFresh(true);
+    expect((await index.search('brand')).map(r => r.path)).toEqual(['/Drafts/a.snippet']);
+    expect(await index.search('old')).toEqual([]);
+  });
+
+  it('indexes saved snippets right away', async () => {
+    const index = new SnippetSearchIndex(wrapper);
+    await index.search('anything');
+    wrapper.writeFile('/Drafts/new.snippet', snippetJson('New', 'fresh content'));
+    await index.updateSnippet('Drafts/new.snippet');
+    expect((await index.search('fresh')).map(r => r.path)).toEqual(['/Drafts/new.snippet']);
+  });
+
+  it('lists tags of tagged snippets for the explorer filter', async () => {
+    wrapper.writeFile('/Drafts/a.snippet', JSON.stringify({ title: 'A', description: '', tags: ['security'], snippets: [] }));
+    wrapper.writeFile('/Drafts/b.snippet', snippetJson('B', 'untagged'));
+    expect(await new SnippetSearchIndex(wrapper).getSnippetTags()).toEqual({ '/Drafts/a.snippet': ['security'] });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { SnippetStalenessChecker, summarizeStaleness } from '../SnippetStalenessChecker';
+import { createAnchor } from '../SnippetAnchor';
+
+let tmpDir: string;
+let wrapper: SnippetorFilesystemsWrapper;
+let workspace: Map<string, string[]>;
+
+const SOURCE = ['function a() {', '  return 1;', '}', '', 'function b() {', '  return 2;', '}'];
+
+function makeChecker(): SnippetStalenessChecker {
+  return new SnippetStalenessChecker(wrapper, async (filePath) => workspace.get(filePath));
+}
+
+function writeSnippet(mappedPath: string, snippets: any[]) {
+  wrapper.writeFile(mappedPath, JSON.stringify({ title: 'T', description: '', snippets }));
+}
+
+beforeEach(() => {
+  // 1. Create isolated temp directory and wrapper
+  // 2. Create an in-memory workspace with a single source file
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-stale-'));
+  wrapper = new SnippetorFilesystemsWrapper(tmpDir);
+  workspace = new Map([['src/a.ts', SOURCE]]);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('SnippetStalenessChecker', () => {
+  it('reports nothing for items that still match', async () => {
+    // 1. Write a snippet anchored at the current content
+    // 2. Expect no stale items
+    const range = { startLine: 5, startColumn: 0, endLine: 6, endColumn: 5 };
+    writeSnippet('/Drafts/ok.snippet', [
+      { uid: 'u1', text: '', filePath: 'src/a.ts', line: 'a.ts:5-6', range, anchor: createAnchor(SOURCE, range) }
+    ]);
+    const reports = await makeChecker().checkFolder('/Drafts');
+    expect(reports.length).toBe(1);
+    expect(reports[0].items).toEqual([]);
+  });
+
+  it('detects missing files, out-of-range lines and moved content', async () => {
+    // 1. Write items pointing at a missing file, a line past EOF and moved code
+    // 2. Expect one issue per item with the matching kind
+    const range = { startLine: 5, startColumn: 0, endLine: 6, endColumn: 5 };
+    const anchor = createAnchor(SOURCE, range);
+    workspace.set('src/a.ts', ['// header', '', ...SOURCE]);
+    wrapper.mkdir('/Drafts/sub');
+    writeSnippet('/Drafts/sub/stale.snippet', [
+      { uid: 'u1', text: '', filePath: 'src/missing.ts', line: 'missing.ts:1' },
+      { uid: 'u2', text: '', filePath: 'src/a.ts', line: 'a.ts:99' },
+      { uid: 'u3', text: '', filePath: 'src/a.ts', line: 'a.ts:5-6', range, anchor }
+    ]);
+    const reports = await makeChecker().checkFolder('/Drafts');
+    expect(reports[0].path).toBe('/Drafts/sub/stale.snippet');
+    expect(reports[0].items.map(i => i.issue)).toEqual(['fileMissing', 'lineOutOfRange', 'relocated']);
+    expect(reports[0].items[2].message).toContain('line 7');
+    expect(summarizeStaleness(reports)).toEqual({ snippetCount: 1, itemCount: 3, staleItemCount: 3 });
+  });
+
+  it('reports unreadable snippet files', async () => {
+    // 1. Write invalid JSON into a .snippet file
+    // 2. Expect the report to carry an error
+    wrapper.writeFile('/Drafts/broken.snippet', '{ not json');
+    const reports = await makeChecker().checkFolder('/Drafts');
+    expect(reports[0].error).toContain('Cannot read snippet');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { SnippetTrash, TRASH_PATH, isTrashPath, trashIdOf } from '../SnippetTrash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let tmpDir: string;
+let wrapper: SnippetorFilesystemsWrapper;
+let trash: SnippetTrash;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-trash-'));
+  wrapper = new SnippetorFilesystemsWrapper(tmpDir);
+  trash = new SnippetTrash(wrapper);
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('SnippetTrash', () => {
+  it('keeps deleted entries outside the mount points with their original path', async () => {
+    // 1. Move a folder with a snippet to the trash
+    // 2. Expect it gone from the mount point and listed as a Trash node
+    wrapper.mkdir('/Drafts/old', true);
+    wrapper.writeFile('/Drafts/old/a.snippet', 'content');
+    const entry = await wrapper.promises.moveToTrash('/Drafts/old');
+
+    expect(wrapper.exists('/Drafts/old')).toBe(false);
+    expect(fs.existsSync(path.join(tmpDir, '.trash', entry.id, 'old', 'a.snippet'))).toBe(true);
+    const nodes = await trash.getNodes();
+    expect(nodes).toEqual([{
+      name: 'old',
+      fullPath: `${TRASH_PATH}/${entry.id}`,
+      isFolder: false,
+      trash: { originalPath: '/Drafts/old', isFolder: true, deletedAt: entry.deletedAt }
+    }]);
+    expect(isTrashPath(nodes[0].fullPath)).toBe(true);
+    expect(trashIdOf(nodes[0].fullPath)).toBe(entry.id);
+  });
+
+  it('restores an entry, recreating missing parent folders', async () => {
+    // 1. Trash a snippet, then remove its parent folder
+    // 2. Restore and expect the snippet back at its original path
+    wrapper.mkdir('/Drafts/sub', true);
+    wrapper.writeFile('/Drafts/sub/a.snippet', 'content');
+    const entry = await wrapper.promises.moveToTrash('/Drafts/sub/a.snippet');
+    wrapper.remove('/Drafts/sub', true);
+
+    expect(await trash.restore(entry.id)).toEqual({ type: 'added', path: '/Drafts/sub/a.snippet', isFolder: false });
+    expect(wrapper.readFile('/Drafts/sub/a.snippet')).toBe('content');
+    expect(await wrapper.promises.listTrash()).toEqual([]);
+  });
+
+  it('does not restore over an existing entry', async () => {
+    // 1. Trash a snippet and create a new one with the same name
+    // 2. Expect restore to fail and the entry to stay in the trash
+    wrapper.writeFile('/Drafts/a.snippet', 'old');
+    const entry = await wrapper.promises.moveToTrash('/Drafts/a.snippet');
+    wrapper.writeFile('/Drafts/a.snippet', 'new');
+
+    await expect(trash.restore(entry.id)).rejects.toThrow('already exists');
+    expect(wrapper.readFile('/Drafts/a.snippet')).toBe('new');
+    expect((await wrapper.promises.listTrash()).map(e => e.id)).toEqual([entry.id]);
+  });
+
+  it('purges entries older than the retention period and empties the trash', async () => {
+    // 1. Trash two snippets
+    // 2. Purge with a retention period the entries have not reached, then one they have
+    // 3. Retention 0 keeps everything
+    wrapper.writeFile('/Drafts/a.snippet', 'a');
+    wrapper.writeFile('/Drafts/b.snippet', 'b');
+    await wrapper.promises.moveToTrash('/Drafts/a.snippet');
+    await wrapper.promises.moveToTrash('/Drafts/b.snippet');
+
+    expect(await trash.purge(30, Date.now() + 10 * DAY_MS)).toBe(0);
+    expect(await trash.purge(0, Date.now() + 100 * DAY_MS)).toBe(0);
+    expect(await trash.purge(30, Date.now() + 31 * DAY_MS)).toBe(2);
+    expect(await wrapper.promises.listTrash()).toEqual([]);
+
+    wrapper.writeFile('/Drafts/c.snippet', 'c');
+    await wrapper.promises.moveToTrash('/Drafts/c.snippet');
+    expect(await trash.empty()).toBe(1);
+    expect(fs.readdirSync(path.join(tmpDir, '.trash'))).toEqual([]);
+  });
+});
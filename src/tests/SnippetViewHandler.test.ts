@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+vi.mock('vscode', () => {
+  class Range {
+    constructor(
+      public startLine: number, public startCharacter: number,
+      public endLine: number, public endCharacter: number) {}
+  }
+  return {
+    Range,
+    SymbolKind: {},
+    Uri: { file: (fsPath: string) => ({ fsPath }) },
+    workspace: {
+      workspaceFolders: [{ uri: { fsPath: '/workspace' } }],
+      openTextDocument: vi.fn().mockRejectedValue(new Error('not needed'))
+    },
+    window: {
+      onDidChangeTextEditorSelection: vi.fn().mockReturnValue({ dispose: vi.fn() })
+    }
+  };
+});
+
+import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { SnippetViewHandler } from '../SnippetViewHandler';
+import { SnippetBaseProvider } from '../SnippetBaseProvider';
+import { normalizeSnippetItem } from '../SnippetItem';
+
+let tmpDir: string;
+let handler: SnippetViewHandler;
+let provider: SnippetBaseProvider;
+let showTextDocumentInternal: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  // 1. Create a handler over an isolated snippet folder
+  // 2. Attach the real base provider and capture the editor it would open
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snippetor-view-'));
+  handler = new SnippetViewHandler(undefined, new SnippetorFilesystemsWrapper(tmpDir));
+  provider = new SnippetBaseProvider({ subscriptions: [] } as any, handler);
+  showTextDocumentInternal = vi.fn().mockResolvedValue(undefined);
+  provider.showTextDocumentInternal = showTextDocumentInternal;
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('SnippetViewHandler', () => {
+  it('selects the whole line when a legacy item is opened', async () => {
+    // 1. Load an item from an old file: only the "file:line" label, no range
+    // 2. Open it from the item card
+    // 3. Expect line 42 to be selected up to the start of line 43 (0-based: 41 → 42)
+    const item = normalizeSnippetItem({ uid: 'u1', text: 'note', filePath: 'src/a.ts', line: 'a.ts:42' });
+    handler.loadSnippetFromJSON('', [item], { title: 'Legacy', description: '', tags: [], path: '/Drafts/legacy.snippet' });
+
+    await handler.onDidReceiveMessage({ command: 'openSnippetItem', data: { uid: 'u1' } });
+
+    expect(showTextDocumentInternal).toHaveBeenCalledTimes(1);
+    const [uri, options] = showTextDocumentInternal.mock.calls[0];
+    expect(uri.fsPath).toBe(path.join('/workspace', 'src/a.ts'));
+    expect(options.selection).toMatchObject({ startLine: 41, startCharacter: 0, endLine: 42, endCharacter: 0 });
+  });
+
+  it('waits for save listeners and reports their failures', async () => {
+    // 1. Register a listener that fails asynchronously and one that records the saved path
+    // 2. Save and expect both called in order, the error reported and the save completed
+    fs.mkdirSync(path.join(tmpDir, 'Drafts'), { recursive: true });
+    handler.setExplorer({ notifyNewSnippetCreated: vi.fn() });
+    vi.spyOn(provider, 'showErrorMessage').mockResolvedValue(undefined);
+    vi.spyOn(provider, 'showInformationMessage').mockResolvedValue(undefined);
+    const saved: string[] = [];
+    handler.onSnippetSaved(async () => { throw new Error('index is busy'); });
+    handler.onSnippetSaved(async snippetPath => { saved.push(snippetPath); });
+
+    await handler.onDidReceiveMessage({ command: 'saveSnippet', data: { path: '/Drafts/new.snippet' } });
+
+    expect(saved).toEqual(['/Drafts/new.snippet']);
+    expect(provider.showErrorMessage).toHaveBeenCalledWith('Snippet saved, but updating its indexes failed: index is busy');
+    expect(provider.showInformationMessage).toHaveBeenCalledWith('Snippet saved');
+  });
+});
+
+describe('SnippetViewHandler save into a read-only mount', () => {
+  beforeEach(() => {
+    // Recreate the handler over a config whose Drafts mount is read-only
+    fs.writeFileSync(path.join(tmpDir, 'config.json'),
+      JSON.stringify([{ folder: 'Drafts', mapping: path.join(tmpDir, 'Drafts'), readonly: true }]));
+    handler = new SnippetViewHandler(undefined, new SnippetorFilesystemsWrapper(tmpDir));
+    provider = new SnippetBaseProvider({ subscriptions: [] } as any, handler);
+    vi.spyOn(provider, 'showErrorMessage').mockResolvedValue(undefined);
+    vi.spyOn(provider, 'showInformationMessage').mockResolvedValue(undefined);
+    handler.loadSnippetFromJSON('', [normalizeSnippetItem({ uid: 'u1', text: 'note', filePath: 'src/a.ts', line: 'a.ts:1' })],
+      { title: 'Team', description: '', tags: [], path: '/Drafts/team.snippet' });
+    void handler.onDidReceiveMessage({ command: 'updateSnippetHead', data: { title: 'Edited' } });
+  });
+
+  it('keeps the edited snippet open when saving fails', async () => {
+    // 1. Save the edited snippet into the read-only mount
+    // 2. Expect an error, no file and the edits still in the view
+    await handler.onDidReceiveMessage({ command: 'saveSnippet', data: { path: '/Drafts/team.snippet' } });
+
+    expect(provider.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('read-only'), 'Save As...');
+    expect(provider.showInformationMessage).not.toHaveBeenCalledWith('Snippet saved');
+    expect(fs.existsSync(path.join(tmpDir, 'Drafts', 'team.snippet'))).toBe(false);
+    expect(handler.getSnippetContent()).toMatchObject({ title: 'Edited', path: '/Drafts/team.snippet' });
+  });
+
+  it('does not switch snippets when "Save" fails', async () => {
+    // 1. Activate another snippet and answer "Save" to the unsaved changes prompt
+    // 2. Expect the edited snippet to stay open
+    vi.spyOn(provider, 'showWarningMessage').mockResolvedValue('Save');
+
+    await handler.activateNode('/Drafts/other.snippet');
+
+    expect(handler.getSnippetContent()).toMatchObject({ title: 'Edited', path: '/Drafts/team.snippet' });
+  });
+});
+
+describe('SnippetViewHandler tour mode', () => {
+  let workspaceState: Map<string, any>;
+  let showNote: ReturnType<typeof vi.fn>;
+
+  const items = () => ['u1', 'u2', 'u3'].map((uid, i) =>
+    normalizeSnippetItem({ uid, text: `note ${uid}`, filePath: 'src/a.ts', line: `a.ts:${i + 1}` }));
+
+  // "<uid> <step> of <count>" of every note shown so far
+  const shownSteps = () => showNote.mock.calls.map(([, , , title, text]) =>
+    `${text.replace('note ', '')} ${title.replace(/^.* — step /, '')}`);
+
+  beforeEach(() => {
+    // 1. Recreate the provider over an in-memory workspace state
+    // 2. Capture the notes instead of creating comment threads
+    workspaceState = new Map();
+    provider = new SnippetBaseProvider({
+      subscriptions: [],
+      workspaceState: {
+        get: (key: string, defaultValue: any) => workspaceState.get(key) ?? defaultValue,
+        update: (key: string, value: any) => workspaceState.set(key, value)
+      }
+    } as any, handler);
+    provider.showTextDocumentInternal = showTextDocumentInternal;
+    showNote = vi.fn();
+    provider.showNote = showNote;
+    provider.clearNote = vi.fn();
+    vi.spyOn(provider, 'showInformationMessage').mockResolvedValue(undefined);
+    vi.spyOn(provider, 'showWarningMessage').mockResolvedValue(undefined);
+  });
+
+  it('steps forward and back through the items', async () => {
+    // 1. Walk past the last item, then back past the first
+    // 2. Expect each step shown once and a message at the end
+    handler.loadSnippetFromJSON('', items(), { title: 'Auth', description: '', tags: [], path: '/Drafts/auth.snippet' });
+
+    await handler.tourNext();
+    await handler.tourNext();
+    await handler.tourNext();
+    await handler.tourNext();
+    await handler.tourPrevious();
+    await handler.tourPrevious();
+    await handler.tourPrevious();
+
+    expect(shownSteps()).toEqual(['u1 1 of 3', 'u2 2 of 3', 'u3 3 of 3', 'u2 2 of 3', 'u1 1 of 3', 'u1 1 of 3']);
+    expect(provider.showInformationMessage).toHaveBeenCalledWith('This is the last step of the snippet.');
+    expect(showNote.mock.calls[0][3]).toBe('Auth — step 1 of 3');
+  });
+
+  it('keeps the current item when the items are reordered', async () => {
+    // 1. Go to the second item, then move it to the end
+    // 2. Expect "previous" to open the item that is now before it
+    handler.loadSnippetFromJSON('', items(), { title: 'Auth', description: '', tags: [], path: '/Drafts/auth.snippet' });
+    await handler.tourNext();
+    await handler.tourNext();
+
+    await handler.onDidReceiveMessage({ command: 'reorderSnippetItems', data: { uids: ['u1', 'u3', 'u2'] } });
+    await handler.tourPrevious();
+
+    expect(shownSteps().pop()).toBe('u3 2 of 3');
+  });
+
+  it('keeps progress when the snippet is renamed or removed', async () => {
+    // 1. Go to the second item, rename the snippet and remove it from the explorer
+    // 2. Reopen it at the new path (as undo from the Trash would) and expect the tour to continue
+    handler.loadSnippetFromJSON('', items(), { title: 'Auth', description: '', tags: [], path: '/Drafts/old/auth.snippet' });
+    await handler.tourNext();
+    await handler.tourNext();
+
+    handler.getExplorerListener().onNodeRenamed('/Drafts/old', '/Drafts/archive', true);
+    handler.getExplorerListener().onNodeRemoved('/Drafts/archive/auth.snippet', false);
+    handler.loadSnippetFromJSON('', items(), { title: 'Auth', description: '', tags: [], path: '/Drafts/archive/auth.snippet' });
+    await handler.tourNext();
+
+    expect(shownSteps().pop()).toBe('u3 3 of 3');
+    expect(workspaceState.get('snippetor.tourSteps')).toEqual({ '/Drafts/archive/auth.snippet': 'u3' });
+  });
+
+  it('keeps the progress of an unsaved snippet in memory only', async () => {
+    // 1. Start the tour of a snippet without a path
+    // 2. Expect it to advance without touching the workspace state, and to restart once cleared
+    handler.loadSnippetFromJSON('', items(), { title: '', description: '', tags: [], path: '' });
+    await handler.tourNext();
+    await handler.tourNext();
+    expect(shownSteps()).toEqual(['u1 1 of 3', 'u2 2 of 3']);
+    expect(workspaceState.size).toBe(0);
+
+    handler.clearSnippets();
+    handler.loadSnippetFromJSON('', items(), { title: '', description: '', tags: [], path: '' });
+    await handler.tourNext();
+    expect(shownSteps().pop()).toBe('u1 1 of 3');
+  });
+});
@@ -1,8 +1,9 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
 import { SnippetorFilesystemsWrapper } from '../SnippetorFilesystemsWrapper';
+import { ReadonlyMountError } from '../ISnippetorFilesystemWrapper';
 
 let tmpDir: string;
 let wrapper: SnippetorFilesystemsWrapper;
@@ -104,6 +105,29 @@ describe('loadFoldersFromConfig / reloadConfig / getFolders', () => {
     );
   });
 
+  it('loadFoldersFromConfig reports the position of each problem', () => {
+    // 1. Write a config where the second item has no mapping
+    // 2. Expect isValid=false with the line and column in the error and the diagnostics
+    fs.writeFileSync(path.join(tmpDir, 'config.json'),
+      JSON.stringify([{ folder: 'Drafts', mapping: path.join(tmpDir, 'Drafts') }, { folder: 'Team' }], null, 2));
+    const result = wrapper.loadFoldersFromConfig();
+    expect(result.isValid).toBe(false);
+    expect(result.error).toBe('Line 6, column 3: Missing property "mapping" (the folder on disk)');
+    expect(result.diagnostics).toHaveLength(1);
+  });
+
+  it('loadFoldersFromConfig resolves mappings relative to the workspace folder', () => {
+    // 1. A wrapper for a workspace with a config pointing into it
+    // 2. Expect the mount point to resolve into the workspace and be created there
+    const workspace = path.join(tmpDir, 'repo');
+    fs.writeFileSync(path.join(tmpDir, 'config.json'),
+      JSON.stringify([{ folder: 'Team', mapping: '${workspaceFolder}/docs/snippets' }], null, 2));
+    const inWorkspace = new SnippetorFilesystemsWrapper(tmpDir, [workspace]);
+    expect(inWorkspace.getFolders()).toEqual([{ mountPoint: '/Team', absolutePath: path.join(workspace, 'docs', 'snippets') }]);
+    expect(fs.existsSync(path.join(workspace, 'docs', 'snippets'))).toBe(true);
+    expect(wrapper.reloadConfig().folders).toEqual([]);
+  });
+
   it('reloadConfig with invalid JSON preserves current folders', () => {
     // 1. Corrupt config.json
     // 2. Call reloadConfig
@@ -185,6 +209,12 @@ describe('mapPath / resolve', () => {
     const mapped = '/Drafts/sub/file.txt';
     expect(wrapper.mapPath(wrapper.resolve(mapped))).toBe(mapped);
   });
+
+  it('normalizeMappedPath keeps one leading and no trailing slash', () => {
+    expect(wrapper.normalizeMappedPath('Drafts/sub/')).toBe('/Drafts/sub');
+    expect(wrapper.normalizeMappedPath('//Drafts/a.snippet')).toBe('/Drafts/a.snippet');
+    expect(wrapper.normalizeMappedPath('/Drafts')).toBe('/Drafts');
+  });
 });
 
 describe('isRootFolder', () => {
@@ -378,6 +408,34 @@ describe('readDirectory', () => {
     const entries = wrapper.readDirectory('/Drafts');
     expect(entries[0].fullPath).toBe('/Drafts/item.txt');
   });
+
+  it('honours the manual order and hides the order file', () => {
+    // 1. Create three snippets and order two of them
+    // 2. Expect the ordered ones first, the unlisted one after them and no order file entry
+    wrapper.writeFile('/Drafts/a.snippet', '');
+    wrapper.writeFile('/Drafts/b.snippet', '');
+    wrapper.writeFile('/Drafts/c.snippet', '');
+    wrapper.setOrder('/Drafts', ['c.snippet', 'missing.snippet', 'b.snippet']);
+    expect(wrapper.readDirectory('/Drafts').map(e => e.name)).toEqual(['c.snippet', 'b.snippet', 'a.snippet']);
+    expect(wrapper.getOrder('/Drafts')).toEqual(['c.snippet', 'missing.snippet', 'b.snippet']);
+
+    wrapper.setOrder('/Drafts', []);
+    expect(fs.existsSync(path.join(tmpDir, 'Drafts', '.order.json'))).toBe(false);
+  });
+
+  it('keeps the position of a renamed entry and drops a moved one', () => {
+    // 1. Order two snippets, rename the first
+    // 2. Move the second to a subfolder
+    wrapper.mkdir('/Drafts/sub');
+    wrapper.writeFile('/Drafts/a.snippet', '');
+    wrapper.writeFile('/Drafts/b.snippet', '');
+    wrapper.setOrder('/Drafts', ['b.snippet', 'a.snippet']);
+    wrapper.rename('/Drafts/b.snippet', '/Drafts/z.snippet');
+    expect(wrapper.getOrder('/Drafts')).toEqual(['z.snippet', 'a.snippet']);
+
+    wrapper.rename('/Drafts/z.snippet', '/Drafts/sub/z.snippet');
+    expect(wrapper.getOrder('/Drafts')).toEqual(['a.snippet']);
+  });
 });
 
 describe('dirname / basename', () => {
@@ -473,3 +531,220 @@ describe('getAutoCompletion', () => {
     expect(result.error).not.toBe('');
   });
 });
+
+describe('promises', () => {
+  it('lists, renames and removes like the synchronous operations', async () => {
+    // 1. Create a folder with ordered snippets
+    // 2. Expect the same listing as readDirectory
+    // 3. Rename and remove through the promise API
+    wrapper.mkdir('/Drafts/sub');
+    wrapper.writeFile('/Drafts/a.snippet', 'a');
+    wrapper.writeFile('/Drafts/b.snippet', 'b');
+    wrapper.setOrder('/Drafts', ['b.snippet', 'a.snippet']);
+    expect(await wrapper.promises.readDirectory('/Drafts')).toEqual(wrapper.readDirectory('/Drafts'));
+    expect(await wrapper.promises.getRootChildren()).toEqual(wrapper.getRootChildren());
+
+    await wrapper.promises.rename('/Drafts/b.snippet', '/Drafts/c.snippet');
+    expect(await wrapper.promises.getOrder('/Drafts')).toEqual(['c.snippet', 'a.snippet']);
+    expect(await wrapper.promises.readFile('/Drafts/c.snippet')).toBe('b');
+
+    await wrapper.promises.remove('/Drafts/sub');
+    expect(await wrapper.promises.exists('/Drafts/sub')).toBe(false);
+  });
+
+  it('copies a folder and reports every copied entry', async () => {
+    // 1. Copy a folder with a nested file
+    // 2. Expect the copy and one progress call per entry
+    wrapper.mkdir('/Drafts/src/nested');
+    wrapper.writeFile('/Drafts/src/nested/a.snippet', 'a');
+    const copied: string[] = [];
+    await wrapper.promises.copy('/Drafts/src', '/LocalSpace/src', { onProgress: p => copied.push(p) });
+    expect(wrapper.readFile('/LocalSpace/src/nested/a.snippet')).toBe('a');
+    expect(copied).toEqual(['/LocalSpace/src/nested/a.snippet', '/LocalSpace/src/nested', '/LocalSpace/src']);
+  });
+
+  it('trashes, restores and backs up entries', async () => {
+    // 1. Trash a folder, expect it listed with its original path
+    // 2. Restore it to its original path
+    // 3. Keep and restore the previous version of a file
+    wrapper.mkdir('/Drafts/old');
+    wrapper.writeFile('/Drafts/old/a.snippet', 'a');
+    const entry = await wrapper.promises.moveToTrash('/Drafts/old');
+    expect(wrapper.exists('/Drafts/old')).toBe(false);
+    expect(await wrapper.promises.listTrash()).toEqual([entry]);
+    expect(entry).toMatchObject({ name: 'old', originalPath: '/Drafts/old', isFolder: true });
+
+    await wrapper.promises.restoreFromTrash(entry.id, '/Drafts/old');
+    expect(wrapper.readFile('/Drafts/old/a.snippet')).toBe('a');
+    expect(await wrapper.promises.listTrash()).toEqual([]);
+
+    await wrapper.promises.backupFile('/Drafts/old/a.snippet');
+    await wrapper.promises.writeFile('/Drafts/old/a.snippet', 'b');
+    expect(wrapper.hasBackup('/Drafts/old/a.snippet')).toBe(true);
+    await wrapper.promises.restoreBackup('/Drafts/old/a.snippet');
+    expect(wrapper.readFile('/Drafts/old/a.snippet')).toBe('a');
+  });
+
+  it('moves an entry to another drive by copying it', async () => {
+    // 1. Let the rename into the trash fail as it does across drives (EXDEV)
+    // 2. Expect the folder copied into the trash and removed from the mount point
+    wrapper.mkdir('/Drafts/old/nested');
+    wrapper.writeFile('/Drafts/old/nested/a.snippet', 'a');
+    const rename = vi.spyOn(fs.promises, 'rename').mockRejectedValueOnce(
+      Object.assign(new Error('cross-device link not permitted'), { code: 'EXDEV' }));
+    try {
+      const entry = await wrapper.promises.moveToTrash('/Drafts/old');
+      expect(wrapper.exists('/Drafts/old')).toBe(false);
+      expect(fs.readFileSync(path.join(tmpDir, '.trash', entry.id, 'old', 'nested', 'a.snippet'), 'utf-8')).toBe('a');
+    } finally {
+      rename.mockRestore();
+    }
+  });
+});
+
+describe('atomic writes and backups', () => {
+  it('replaces a file without leaving temp files, and hides leftovers of a crash', async () => {
+    // 1. Overwrite a file through both APIs
+    // 2. Expect only the file itself on disk
+    // 3. A temp file left by an interrupted write is not listed
+    wrapper.writeFile('/Drafts/a.snippet', 'one');
+    wrapper.writeFile('/Drafts/a.snippet', 'two');
+    await wrapper.promises.writeFile('/Drafts/a.snippet', 'three');
+    expect(fs.readdirSync(path.join(tmpDir, 'Drafts'))).toEqual(['a.snippet']);
+    expect(wrapper.readFile('/Drafts/a.snippet')).toBe('three');
+
+    fs.writeFileSync(path.join(tmpDir, 'Drafts', '.a.snippet.1-1.snippetor-tmp'), 'thr');
+    expect(wrapper.readDirectory('/Drafts').map(e => e.name)).toEqual(['a.snippet']);
+    expect((await wrapper.promises.readDirectory('/Drafts')).map(e => e.name)).toEqual(['a.snippet']);
+  });
+
+  it('restores the previous version and swaps it with the current one', async () => {
+    // 1. Save twice, keeping a backup before the second save
+    // 2. Restore: the first version comes back, the second becomes the backup
+    wrapper.writeFile('/Drafts/a.snippet', 'first');
+    expect(wrapper.hasBackup('/Drafts/a.snippet')).toBe(false);
+    wrapper.backupFile('/Drafts/a.snippet');
+    wrapper.writeFile('/Drafts/a.snippet', 'second');
+
+    await wrapper.promises.restoreBackup('/Drafts/a.snippet');
+    expect(wrapper.readFile('/Drafts/a.snippet')).toBe('first');
+    await wrapper.promises.restoreBackup('/Drafts/a.snippet');
+    expect(wrapper.readFile('/Drafts/a.snippet')).toBe('second');
+    await expect(wrapper.promises.restoreBackup('/Drafts/b.snippet')).rejects.toThrow('No previous version of /Drafts/b.snippet');
+  });
+});
+
+describe('read-only mount points', () => {
+  beforeEach(() => {
+    // 1. Mount a second folder with a snippet as read-only
+    fs.mkdirSync(path.join(tmpDir, 'Team', 'sub'), { recursive: true });
+    fs.writeFileSync(path.join(tmpDir, 'Team', 'a.snippet'), 'team');
+    fs.writeFileSync(path.join(tmpDir, 'config.json'), JSON.stringify([
+      { folder: 'Drafts', mapping: path.join(tmpDir, 'Drafts') },
+      { folder: 'Team', mapping: path.join(tmpDir, 'Team'), readonly: true }
+    ], null, 2));
+    wrapper.reloadConfig();
+  });
+
+  it('marks the mount point and keeps the flag in the config', () => {
+    expect(wrapper.isReadonly('/Team/sub/x.snippet')).toBe(true);
+    expect(wrapper.isReadonly('/Drafts/x.snippet')).toBe(false);
+    expect(wrapper.getRootChildren().find(e => e.name === 'Team')!.readonly).toBe(true);
+    expect(wrapper.getRootChildren().find(e => e.name === 'Drafts')!.readonly).toBeUndefined();
+  });
+
+  it('refuses every write but allows reads and copies out of it', async () => {
+    // 1. Each write into the mount point throws ReadonlyMountError
+    // 2. Reading and copying to a writable mount point still work
+    const refused = '"/Team" is a read-only mount point';
+    expect(() => wrapper.writeFile('/Team/a.snippet', 'changed')).toThrow(refused);
+    expect(() => wrapper.mkdir('/Team/new')).toThrow(refused);
+    expect(() => wrapper.rename('/Team/a.snippet', '/Team/b.snippet')).toThrow(refused);
+    expect(() => wrapper.rename('/Team/a.snippet', '/Drafts/a.snippet')).toThrow(refused);
+    expect(() => wrapper.remove('/Team/a.snippet')).toThrow(refused);
+    await expect(wrapper.promises.moveToTrash('/Team/a.snippet')).rejects.toThrow(refused);
+    expect(() => wrapper.backupFile('/Team/a.snippet')).toThrow(refused);
+    expect(() => wrapper.copy('/Drafts', '/Team/Drafts')).toThrow(refused);
+    await expect(wrapper.promises.writeFile('/Team/a.snippet', 'changed')).rejects.toThrow(ReadonlyMountError);
+
+    expect(wrapper.readFile('/Team/a.snippet')).toBe('team');
+    wrapper.copy('/Team/a.snippet', '/Drafts/a.snippet');
+    expect(wrapper.readFile('/Drafts/a.snippet')).toBe('team');
+  });
+});
+
+describe('workspace configs', () => {
+  let repo: string;
+
+  beforeEach(() => {
+    // 1. A workspace folder with a .snippetor/config.json adding a mount point inside the repository
+    repo = path.join(tmpDir, 'repo');
+    fs.mkdirSync(path.join(repo, '.snippetor'), { recursive: true });
+    fs.writeFileSync(path.join(repo, '.snippetor', 'config.json'),
+      JSON.stringify([{ folder: 'Repo', mapping: '.snippetor/snippets' }], null, 2));
+  });
+
+  it('adds the mount points of each workspace folder after the global ones', () => {
+    // 1. Open the workspace folder and reload
+    // 2. Expect the global mounts, then /Repo resolved into the repository with its origin
+    wrapper.setWorkspaceFolders([repo], true);
+    const result = wrapper.reloadConfig();
+    expect(result.folders.map(f => f.mountPoint)).toEqual(['/Drafts', '/LocalSpace', '/Repo']);
+    expect(result.folders[2]).toEqual({ mountPoint: '/Repo', absolutePath: path.join(repo, '.snippetor', 'snippets'), origin: 'repo' });
+    expect(result.workspaceConfigs).toEqual([{ origin: 'repo', configPath: path.join(repo, '.snippetor', 'config.json'), diagnostics: [] }]);
+    expect(wrapper.getRootChildren().find(e => e.name === 'Repo')!.origin).toBe('repo');
+
+    wrapper.writeFile('/Repo/a.snippet', 'x');
+    expect(fs.existsSync(path.join(repo, '.snippetor', 'snippets', 'a.snippet'))).toBe(true);
+
+    // 3. Removing the folder from the workspace removes its mounts
+    wrapper.setWorkspaceFolders([], true);
+    expect(wrapper.reloadConfig().folders.map(f => f.mountPoint)).toEqual(['/Drafts', '/LocalSpace']);
+    expect(wrapper.exists('/Repo/a.snippet')).toBe(false);
+  });
+
+  it('skips taken mount names and keeps global mounts when a workspace config is invalid', () => {
+    // 1. A workspace config reusing "Drafts" next to a valid mount, and one with a syntax error
+    // 2. Expect the taken name skipped with a warning, the broken config reported, the rest loaded
+    fs.writeFileSync(path.join(repo, '.snippetor', 'config.json'), JSON.stringify([
+      { folder: 'Drafts', mapping: 'drafts' },
+      { folder: 'Repo', mapping: '.snippetor/snippets' }
+    ], null, 2));
+    const broken = path.join(tmpDir, 'broken');
+    fs.mkdirSync(path.join(broken, '.snippetor'), { recursive: true });
+    fs.writeFileSync(path.join(broken, '.snippetor', 'config.json'), '[{"folder": "Broken",}]');
+
+    wrapper.setWorkspaceFolders([repo, broken], true);
+    const result = wrapper.reloadConfig();
+    expect(result.isValid).toBe(true);
+    expect(result.folders.map(f => f.mountPoint)).toEqual(['/Drafts', '/LocalSpace', '/Repo']);
+    expect(result.workspaceConfigs![0].diagnostics.map(d => [d.severity, d.message])).toEqual([
+      ['warning', `Mount name "Drafts" is already used for "${path.join(tmpDir, 'Drafts')}"; this mount point is skipped`]
+    ]);
+    expect(result.workspaceConfigs![1].error).toBe('Line 1, column 22: Property name in double quotes expected');
+  });
+
+  it('keeps workspace mount points read-only until the workspace is trusted', () => {
+    wrapper.setWorkspaceFolders([repo], false);
+    const repoMount = wrapper.reloadConfig().folders.find(f => f.mountPoint === '/Repo')!;
+    expect(repoMount.readonly).toBe(true);
+    expect(fs.existsSync(path.join(repo, '.snippetor', 'snippets'))).toBe(false);
+
+    wrapper.setWorkspaceFolders([repo], true);
+    expect(wrapper.reloadConfig().folders.find(f => f.mountPoint === '/Repo')!.readonly).toBeUndefined();
+  });
+
+  it('rejects workspace mappings that lead out of the workspace folder', () => {
+    // 1. Mappings to the home folder, to a parent folder and through a symbolic link
+    // 2. Expect each to be an error and no mount point from this config
+    fs.symlinkSync(tmpDir, path.join(repo, 'link'));
+    const outside = 'Mapping must stay inside the workspace folder';
+    for (const mapping of ['~/.ssh', '../Drafts', 'link/Drafts']) {
+      fs.writeFileSync(path.join(repo, '.snippetor', 'config.json'), JSON.stringify([{ folder: 'Repo', mapping }]));
+      wrapper.setWorkspaceFolders([repo], true);
+      const result = wrapper.reloadConfig();
+      expect(result.workspaceConfigs![0].error).toContain(outside);
+      expect(result.folders.map(f => f.mountPoint)).toEqual(['/Drafts', '/LocalSpace']);
+    }
+  });
+});